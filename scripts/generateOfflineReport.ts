@@ -0,0 +1,123 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// eslint-disable-next-line spaced-comment
+/// <reference types="../src/globals" />
+// eslint-disable-next-line spaced-comment
+/// <reference types="../src/modules" />
+
+// Tests all patches and webpack finds against a webpack snapshot saved by generateReport.ts (WEBPACK_SNAPSHOT_OUT),
+// so no Discord account or browser is needed. Requires a reporter build (pnpm buildReporter)
+
+import { readFileSync } from "fs";
+import { createContext, runInContext } from "vm";
+
+import { addBadPatch, printReport, report } from "./reportUtils";
+
+const snapshotPath = process.argv[2] ?? process.env.WEBPACK_SNAPSHOT;
+if (!snapshotPath) {
+    console.error("Usage: pnpm generateOfflineReport <snapshot.json> (or set WEBPACK_SNAPSHOT)");
+    process.exit(1);
+}
+
+const snapshot = JSON.parse(readFileSync(snapshotPath, "utf-8"));
+
+function formatArgs(args: any[]) {
+    return args.map(a => a instanceof Error ? a.message : String(a)).join(" ").trim();
+}
+
+async function handleLog(args: any[]) {
+    if (args[0] !== "[Vencord]") return;
+
+    const [, tag, message, otherMessage] = args;
+
+    switch (tag) {
+        case "WebpackInterceptor:":
+            if (!addBadPatch(message, args[3] instanceof Error ? args[3].message : undefined)) break;
+
+            console.error(formatArgs(args));
+            process.exitCode = 1;
+
+            break;
+        case "Reporter:":
+            console.error(formatArgs(args));
+
+            switch (message) {
+                case "A fatal error occurred:":
+                    process.exit(1);
+                case "Webpack Find Fail:":
+                    process.exitCode = 1;
+                    report.badWebpackFinds.push(otherMessage);
+                    break;
+                case "Finished test":
+                    await printReport("Offline");
+                    process.exit();
+            }
+    }
+}
+
+// The bare minimum of a browser for the reporter build to load. Discord's modules never run, so nothing more is needed
+function createWindow() {
+    const storage = new Map<string, string>();
+    const element = () => ({
+        style: {},
+        classList: { add() { }, remove() { } },
+        append() { },
+        appendChild() { },
+        remove() { },
+        setAttribute() { },
+        addEventListener() { }
+    });
+
+    const logger = Object.fromEntries(
+        ["log", "info", "warn", "error", "debug"].map(level => [level, (...args: any[]) => void handleLog(args)])
+    );
+
+    const window = {
+        console: { ...console, ...logger },
+        performance,
+        setTimeout,
+        clearTimeout,
+        setInterval,
+        clearInterval,
+        queueMicrotask,
+        fetch,
+        URL,
+        TextEncoder,
+        TextDecoder,
+        crypto,
+        structuredClone,
+        navigator: { userAgent: "Node.js", platform: process.platform, language: "en-US", languages: ["en-US"] },
+        location: { host: "discord.com", origin: "https://discord.com", href: "https://discord.com/app" },
+        localStorage: {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => void storage.set(key, String(value)),
+            removeItem: (key: string) => void storage.delete(key)
+        },
+        // Never opens, so DataStore calls just stay pending
+        indexedDB: { open: () => ({}) },
+        document: {
+            readyState: "loading",
+            head: element(),
+            body: element(),
+            documentElement: element(),
+            createElement: element,
+            querySelector: () => null,
+            getElementById: () => null,
+            addEventListener() { },
+            removeEventListener() { }
+        },
+        addEventListener() { },
+        removeEventListener() { },
+        $$vencordWebpackSnapshot: snapshot
+    } as Record<string, any>;
+
+    window.window = window.self = window.globalThis = window;
+    return window;
+}
+
+const context = createContext(createWindow());
+runInContext(readFileSync("./dist/browser.js", "utf-8"), context, { filename: "browser.js" });
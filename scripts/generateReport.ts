@@ -23,9 +23,11 @@
 // eslint-disable-next-line spaced-comment
 /// <reference types="../src/modules" />
 
-import { readFileSync } from "fs";
+import { readFileSync, writeFileSync } from "fs";
 import pup, { JSHandle } from "puppeteer-core";
 
+import { addBadPatch, printReport, report } from "./reportUtils";
+
 for (const variable of ["DISCORD_TOKEN", "CHROMIUM_BIN"]) {
     if (!process.env[variable]) {
         console.error(`Missing environment variable ${variable}`);
@@ -34,6 +36,8 @@ for (const variable of ["DISCORD_TOKEN", "CHROMIUM_BIN"]) {
 }
 
 const CANARY = process.env.USE_CANARY === "true";
+// If set, a snapshot of Discord's webpack modules is saved there for scripts/generateOfflineReport.ts
+const SNAPSHOT_OUT = process.env.WEBPACK_SNAPSHOT_OUT;
 
 const browser = await pup.launch({
     headless: true,
@@ -51,23 +55,6 @@ async function maybeGetError(handle: JSHandle): Promise<string | undefined> {
         .catch(() => undefined);
 }
 
-const report = {
-    badPatches: [] as {
-        plugin: string;
-        type: string;
-        id: string;
-        match: string;
-        error?: string;
-    }[],
-    badStarts: [] as {
-        plugin: string;
-        error: string;
-    }[],
-    otherErrors: [] as string[],
-    ignoredErrors: [] as string[],
-    badWebpackFinds: [] as string[]
-};
-
 const IGNORED_DISCORD_ERRORS = [
     "KeybindStore: Looking for callback action",
     "Unable to process domain list delta: Client revision number is null",
@@ -77,111 +64,6 @@ const IGNORED_DISCORD_ERRORS = [
     "Attempting to set fast connect zstd when unsupported"
 ] as Array<string | RegExp>;
 
-function toCodeBlock(s: string, indentation = 0, isDiscord = false) {
-    s = s.replace(/```/g, "`\u200B`\u200B`");
-
-    const indentationStr = Array(!isDiscord ? indentation : 0).fill(" ").join("");
-    return `\`\`\`\n${s.split("\n").map(s => indentationStr + s).join("\n")}\n${indentationStr}\`\`\``;
-}
-
-async function printReport() {
-    console.log();
-
-    console.log("# Vencord Report" + (CANARY ? " (Canary)" : ""));
-
-    console.log();
-
-    console.log("## Bad Patches");
-    report.badPatches.forEach(p => {
-        console.log(`- ${p.plugin} (${p.type})`);
-        console.log(`  - ID: \`${p.id}\``);
-        console.log(`  - Match: ${toCodeBlock(p.match, "  - Match: ".length)}`);
-        if (p.error) console.log(`  - Error: ${toCodeBlock(p.error, "  - Error: ".length)}`);
-    });
-
-    console.log();
-
-    console.log("## Bad Webpack Finds");
-    report.badWebpackFinds.forEach(p => console.log("- " + toCodeBlock(p, "- ".length)));
-
-    console.log();
-
-    console.log("## Bad Starts");
-    report.badStarts.forEach(p => {
-        console.log(`- ${p.plugin}`);
-        console.log(`  - Error: ${toCodeBlock(p.error, "  - Error: ".length)}`);
-    });
-
-    console.log();
-
-    console.log("## Discord Errors");
-    report.otherErrors.forEach(e => {
-        console.log(`- ${toCodeBlock(e, "- ".length)}`);
-    });
-
-    console.log();
-
-    console.log("## Ignored Discord Errors");
-    report.ignoredErrors.forEach(e => {
-        console.log(`- ${toCodeBlock(e, "- ".length)}`);
-    });
-
-    console.log();
-
-    if (process.env.DISCORD_WEBHOOK) {
-        await fetch(process.env.DISCORD_WEBHOOK, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                description: "Here's the latest Vencord Report!",
-                username: "Vencord Reporter" + (CANARY ? " (Canary)" : ""),
-                embeds: [
-                    {
-                        title: "Bad Patches",
-                        description: report.badPatches.map(p => {
-                            const lines = [
-                                `**__${p.plugin} (${p.type}):__**`,
-                                `ID: \`${p.id}\``,
-                                `Match: ${toCodeBlock(p.match, "Match: ".length, true)}`
-                            ];
-                            if (p.error) lines.push(`Error: ${toCodeBlock(p.error, "Error: ".length, true)}`);
-                            return lines.join("\n");
-                        }).join("\n\n") || "None",
-                        color: report.badPatches.length ? 0xff0000 : 0x00ff00
-                    },
-                    {
-                        title: "Bad Webpack Finds",
-                        description: report.badWebpackFinds.map(f => toCodeBlock(f, 0, true)).join("\n") || "None",
-                        color: report.badWebpackFinds.length ? 0xff0000 : 0x00ff00
-                    },
-                    {
-                        title: "Bad Starts",
-                        description: report.badStarts.map(p => {
-                            const lines = [
-                                `**__${p.plugin}:__**`,
-                                toCodeBlock(p.error, 0, true)
-                            ];
-                            return lines.join("\n");
-                        }
-                        ).join("\n\n") || "None",
-                        color: report.badStarts.length ? 0xff0000 : 0x00ff00
-                    },
-                    {
-                        title: "Discord Errors",
-                        description: report.otherErrors.length ? toCodeBlock(report.otherErrors.join("\n"), 0, true) : "None",
-                        color: report.otherErrors.length ? 0xff0000 : 0x00ff00
-                    }
-                ]
-            })
-        }).then(res => {
-            if (!res.ok) console.error(`Webhook failed with status ${res.status}`);
-            else console.error("Posted to Discord Webhook successfully");
-        });
-    }
-}
-
 page.on("console", async e => {
     const level = e.type();
     const rawArgs = e.args();
@@ -215,21 +97,11 @@ page.on("console", async e => {
 
         switch (tag) {
             case "WebpackInterceptor:":
-                const patchFailMatch = message.match(/Patch by (.+?) (had no effect|errored|found no module) \(Module id is (.+?)\): (.+)/)!;
-                if (!patchFailMatch) break;
+                if (!addBadPatch(message, await maybeGetError(e.args()[3]))) break;
 
                 console.error(await getText());
                 process.exitCode = 1;
 
-                const [, plugin, type, id, regex] = patchFailMatch;
-                report.badPatches.push({
-                    plugin,
-                    type,
-                    id,
-                    match: regex.replace(/\(\?:\[A-Za-z_\$\]\[\\w\$\]\*\)/g, "\\i"),
-                    error: await maybeGetError(e.args()[3])
-                });
-
                 break;
             case "PluginManager:":
                 const failedToStartMatch = message.match(/Failed to start (.+)/);
@@ -265,8 +137,14 @@ page.on("console", async e => {
                         report.badWebpackFinds.push(otherMessage);
                         break;
                     case "Finished test":
+                        if (SNAPSHOT_OUT) {
+                            const snapshot = await page.evaluate(() => JSON.stringify(window.$$vencordTakeWebpackSnapshot()));
+                            writeFileSync(SNAPSHOT_OUT, snapshot);
+                            console.error(`Saved webpack snapshot to ${SNAPSHOT_OUT}`);
+                        }
+
                         await browser.close();
-                        await printReport();
+                        await printReport(CANARY ? "Canary" : undefined);
                         process.exit();
                 }
         }
@@ -0,0 +1,152 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export const report = {
+    badPatches: [] as {
+        plugin: string;
+        type: string;
+        id: string;
+        match: string;
+        error?: string;
+    }[],
+    badStarts: [] as {
+        plugin: string;
+        error: string;
+    }[],
+    otherErrors: [] as string[],
+    ignoredErrors: [] as string[],
+    badWebpackFinds: [] as string[]
+};
+
+export function toCodeBlock(s: string, indentation = 0, isDiscord = false) {
+    s = s.replace(/```/g, "`\u200B`\u200B`");
+
+    const indentationStr = Array(!isDiscord ? indentation : 0).fill(" ").join("");
+    return `\`\`\`\n${s.split("\n").map(s => indentationStr + s).join("\n")}\n${indentationStr}\`\`\``;
+}
+
+/**
+ * Adds a failed patch to the report, if the message is a patch failure logged by the WebpackInterceptor
+ * @returns Whether the message was a patch failure
+ */
+export function addBadPatch(message: string, error?: string) {
+    const patchFailMatch = message.match(/Patch by (.+?) (had no effect|errored|found no module) \(Module id is (.+?)\): (.+)/);
+    if (!patchFailMatch) return false;
+
+    const [, plugin, type, id, regex] = patchFailMatch;
+    report.badPatches.push({
+        plugin,
+        type,
+        id,
+        match: regex.replace(/\(\?:\[A-Za-z_\$\]\[\\w\$\]\*\)/g, "\\i"),
+        error
+    });
+
+    return true;
+}
+
+/**
+ * @param variant Shown next to the title, like Canary
+ */
+export async function printReport(variant?: string) {
+    const suffix = variant ? ` (${variant})` : "";
+
+    console.log();
+
+    console.log("# Vencord Report" + suffix);
+
+    console.log();
+
+    console.log("## Bad Patches");
+    report.badPatches.forEach(p => {
+        console.log(`- ${p.plugin} (${p.type})`);
+        console.log(`  - ID: \`${p.id}\``);
+        console.log(`  - Match: ${toCodeBlock(p.match, "  - Match: ".length)}`);
+        if (p.error) console.log(`  - Error: ${toCodeBlock(p.error, "  - Error: ".length)}`);
+    });
+
+    console.log();
+
+    console.log("## Bad Webpack Finds");
+    report.badWebpackFinds.forEach(p => console.log("- " + toCodeBlock(p, "- ".length)));
+
+    console.log();
+
+    console.log("## Bad Starts");
+    report.badStarts.forEach(p => {
+        console.log(`- ${p.plugin}`);
+        console.log(`  - Error: ${toCodeBlock(p.error, "  - Error: ".length)}`);
+    });
+
+    console.log();
+
+    console.log("## Discord Errors");
+    report.otherErrors.forEach(e => {
+        console.log(`- ${toCodeBlock(e, "- ".length)}`);
+    });
+
+    console.log();
+
+    console.log("## Ignored Discord Errors");
+    report.ignoredErrors.forEach(e => {
+        console.log(`- ${toCodeBlock(e, "- ".length)}`);
+    });
+
+    console.log();
+
+    if (process.env.DISCORD_WEBHOOK) {
+        await fetch(process.env.DISCORD_WEBHOOK, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json"
+            },
+            body: JSON.stringify({
+                description: "Here's the latest Vencord Report!",
+                username: "Vencord Reporter" + suffix,
+                embeds: [
+                    {
+                        title: "Bad Patches",
+                        description: report.badPatches.map(p => {
+                            const lines = [
+                                `**__${p.plugin} (${p.type}):__**`,
+                                `ID: \`${p.id}\``,
+                                `Match: ${toCodeBlock(p.match, "Match: ".length, true)}`
+                            ];
+                            if (p.error) lines.push(`Error: ${toCodeBlock(p.error, "Error: ".length, true)}`);
+                            return lines.join("\n");
+                        }).join("\n\n") || "None",
+                        color: report.badPatches.length ? 0xff0000 : 0x00ff00
+                    },
+                    {
+                        title: "Bad Webpack Finds",
+                        description: report.badWebpackFinds.map(f => toCodeBlock(f, 0, true)).join("\n") || "None",
+                        color: report.badWebpackFinds.length ? 0xff0000 : 0x00ff00
+                    },
+                    {
+                        title: "Bad Starts",
+                        description: report.badStarts.map(p => {
+                            const lines = [
+                                `**__${p.plugin}:__**`,
+                                toCodeBlock(p.error, 0, true)
+                            ];
+                            return lines.join("\n");
+                        }
+                        ).join("\n\n") || "None",
+                        color: report.badStarts.length ? 0xff0000 : 0x00ff00
+                    },
+                    {
+                        title: "Discord Errors",
+                        description: report.otherErrors.length ? toCodeBlock(report.otherErrors.join("\n"), 0, true) : "None",
+                        color: report.otherErrors.length ? 0xff0000 : 0x00ff00
+                    }
+                ]
+            })
+        }).then(res => {
+            if (!res.ok) console.error(`Webhook failed with status ${res.status}`);
+            else console.error("Posted to Discord Webhook successfully");
+        });
+    }
+}
@@ -0,0 +1,176 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// Syncs settings between simulated devices through a local mock of the cloud's /v1/settings endpoint,
+// using the same functions src/utils/settingsSync.ts syncs with
+
+import assert from "assert/strict";
+import { inflateSync, strFromU8 } from "fflate";
+import { createServer, IncomingMessage } from "http";
+import { AddressInfo } from "net";
+
+import { CloudSettingsClient, pullCloudSettings, pushCloudSettings, SyncedSettings } from "../src/utils/cloudSettingsSync";
+
+type TestSettings = SyncedSettings & { settings: { plugins: Record<string, { enabled: boolean; [key: string]: unknown; }>; }; };
+
+// Versions are timestamps in the real thing. A counter keeps them in order without depending on the clock
+let clock = 1;
+const now = () => clock++;
+
+let stored: { data: Uint8Array; written: number; } | undefined;
+
+async function readBody(req: IncomingMessage) {
+    const chunks = [] as Buffer[];
+    for await (const chunk of req) chunks.push(chunk);
+    return new Uint8Array(Buffer.concat(chunks));
+}
+
+const server = createServer(async (req, res) => {
+    if (req.url !== "/v1/settings") return void res.writeHead(404).end();
+
+    switch (req.method) {
+        case "GET":
+            if (!stored) return void res.writeHead(404).end();
+            if (req.headers["if-none-match"] === String(stored.written)) return void res.writeHead(304).end();
+
+            return void res.writeHead(200, { ETag: String(stored.written) }).end(stored.data);
+        case "PUT":
+            stored = { data: await readBody(req), written: now() };
+            return void res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ written: stored.written }));
+        default:
+            res.writeHead(405).end();
+    }
+});
+
+let url: URL;
+
+const getStoredSettings = (): TestSettings => JSON.parse(strFromU8(inflateSync(stored!.data)));
+
+/**
+ * Keeps what Discord would keep in the settings file and the DataStore in memory
+ */
+class Device implements CloudSettingsClient {
+    /** Same as Settings.cloud.settingsSyncVersion, which every local change sets to the current time */
+    version = 0;
+    snapshot: TestSettings | undefined;
+
+    constructor(public settings: TestSettings) { }
+
+    change(update: (settings: TestSettings) => void) {
+        update(this.settings);
+        this.version = now();
+    }
+
+    getUrl = () => url;
+    getAuth = async () => "test";
+    getSettings = async () => structuredClone(this.settings);
+    setSettings = async (settings: SyncedSettings) => void (this.settings = structuredClone(settings) as TestSettings);
+    getVersion = () => this.version;
+    setVersion = (written: number) => void (this.version = written);
+    getSnapshot = async () => structuredClone(this.snapshot);
+    setSnapshot = async (snapshot: SyncedSettings) => void (this.snapshot = structuredClone(snapshot) as TestSettings);
+
+    pull() {
+        return pullCloudSettings(this);
+    }
+
+    /**
+     * @returns Whether the local settings are in the cloud now
+     */
+    async put() {
+        return (await pushCloudSettings(this, true)).inCloud;
+    }
+}
+
+const initial = () => ({ settings: { plugins: { Foo: { enabled: false }, Bar: { enabled: false } }, cloud: {} }, quickCss: "" }) as unknown as TestSettings;
+
+const tests = [] as Array<[name: string, run: () => Promise<void>]>;
+
+function test(name: string, run: () => Promise<void>) {
+    tests.push([name, run]);
+}
+
+test("the first sync copies the cloud settings", async () => {
+    const a = new Device(initial());
+    const b = new Device(initial());
+
+    a.change(s => s.settings.plugins.Foo.enabled = true);
+    assert.ok(await a.put());
+
+    assert.equal((await b.pull()).type, "overwritten");
+    assert.deepEqual(b.settings, a.settings);
+});
+
+test("local changes don't overwrite changes another device synced", async () => {
+    const a = new Device(initial());
+    const b = new Device(initial());
+    await a.put();
+    await b.pull();
+
+    a.change(s => s.settings.plugins.Foo.enabled = true);
+    assert.ok(await a.put());
+
+    // B's version is newer than the cloud's now, which used to make it skip the pull and overwrite A's change
+    b.change(s => s.settings.plugins.Bar.enabled = true);
+    assert.ok(await b.put());
+    assert.equal(b.settings.settings.plugins.Foo.enabled, true);
+
+    await a.pull();
+    assert.deepEqual(a.settings, b.settings);
+    assert.equal(a.settings.settings.plugins.Bar.enabled, true);
+});
+
+test("changes are uploaded if the cloud didn't change", async () => {
+    const a = new Device(initial());
+    const b = new Device(initial());
+    await a.put();
+    await b.pull();
+
+    b.change(s => s.quickCss = "body { color: red; }");
+    assert.equal((await b.pull()).type, "upToDate");
+    assert.ok(await b.put());
+
+    await a.pull();
+    assert.equal(a.settings.quickCss, "body { color: red; }");
+});
+
+test("the same setting changed on both devices is a conflict", async () => {
+    const a = new Device(initial());
+    const b = new Device(initial());
+    await a.put();
+    await b.pull();
+
+    a.change(s => s.quickCss = "a {}");
+    await a.put();
+
+    b.change(s => s.settings.plugins.Foo.enabled = true);
+    b.change(s => s.quickCss = "b {}");
+
+    const pull = await b.pull();
+    assert.equal(pull.type, "conflicts");
+    assert.deepEqual(pull.type === "conflicts" && pull.pending.result.conflicts.map(c => c.path), [["quickCss"]]);
+
+    // Nothing is uploaded until the conflict is resolved
+    assert.equal(await b.put(), false);
+    assert.equal(getStoredSettings().quickCss, "a {}");
+});
+
+server.listen(0, "127.0.0.1", async () => {
+    url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+
+    for (const [name, run] of tests) {
+        stored = undefined;
+        try {
+            await run();
+            console.log(`✓ ${name}`);
+        } catch (err) {
+            console.error(`✘ ${name}\n`, err);
+            process.exitCode = 1;
+        }
+    }
+
+    server.close();
+});
@@ -68,8 +68,8 @@ async function syncSettings() {
         Settings.cloud.authenticated // if cloud integrations are enabled
     ) {
         if (localStorage.Vencord_settingsDirty) {
-            await putCloudSettings();
-            delete localStorage.Vencord_settingsDirty;
+            if (await putCloudSettings())
+                delete localStorage.Vencord_settingsDirty;
         } else if (await getCloudSettings(false)) { // if we synchronized something (false means no sync)
             // we show a notification here instead of allowing getCloudSettings() to show one to declutter the amount of
             // potential notifications that might occur. getCloudSettings() will always send a notification regardless if
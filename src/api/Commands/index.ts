@@ -16,11 +16,13 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { insertTextIntoChatInputBox, sendMessage } from "@utils/discord";
 import { Logger } from "@utils/Logger";
 import { makeCodeblock } from "@utils/text";
+import { ChannelStore, ComponentDispatch, FluxDispatcher, GuildStore } from "@webpack/common";
 
 import { sendBotMessage } from "./commandHelpers";
-import { ApplicationCommandInputType, ApplicationCommandOptionType, ApplicationCommandType, Argument, Command, CommandContext, Option } from "./types";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, ApplicationCommandType, Argument, ChoicesOption, Command, CommandContext, CommandResult, CommandReturnValue, Option } from "./types";
 
 export * from "./commandHelpers";
 export * from "./types";
@@ -55,33 +57,84 @@ export const _init = function (cmds: Command[]) {
     return cmds;
 } as never;
 
+function sendErrorMessage(channelId: string, msg: string, err: any) {
+    const reason = err instanceof Error ? err.stack || err.message : String(err);
+
+    console.error(msg, err);
+    sendBotMessage(channelId, {
+        content: `${msg}:\n${makeCodeblock(reason)}`,
+        author: {
+            username: "Vencord"
+        }
+    });
+}
+
+function replaceDraft(text: string) {
+    ComponentDispatch.dispatchToLastSubscribed("CLEAR_TEXT");
+    insertTextIntoChatInputBox(text);
+}
+
+async function sendMessages(cmd: Command, channelId: string, messages: string[]) {
+    for (const [i, content] of messages.entries()) {
+        try {
+            await sendMessage(channelId, { content });
+        } catch (err) {
+            sendErrorMessage(channelId, `Failed to send message ${i + 1} of ${messages.length} from command "${cmd.name}"`, err);
+            return;
+        }
+    }
+}
+
+/**
+ * Turns what a command returned into what Discord expects, which is either nothing or the content to send
+ */
+function handleResult(cmd: Command, res: void | CommandResult, ctx: CommandContext): CommandReturnValue | void {
+    if (res == null || "cancel" in res && res.cancel) return;
+
+    if ("draft" in res) {
+        if (typeof res.draft !== "string") throw new Error("Command returned a draft that isn't a string");
+
+        // Discord clears the chat input once the command was submitted, so wait for that to happen
+        setTimeout(() => replaceDraft(res.draft));
+        return;
+    }
+
+    if ("messages" in res) {
+        if (!Array.isArray(res.messages) || !res.messages.every(m => typeof m === "string" && m.trim()))
+            throw new Error("Command returned messages that aren't all non-empty strings");
+
+        void sendMessages(cmd, ctx.channel.id, res.messages);
+        return;
+    }
+
+    if (typeof res.content !== "string") throw new Error("Command returned an invalid value: " + JSON.stringify(res));
+
+    return res;
+}
+
 export const _handleCommand = function (cmd: Command, args: Argument[], ctx: CommandContext) {
     if (!cmd.isVencordCommand)
         return cmd.execute(args, ctx);
 
-    const handleError = (err: any) => {
-        // TODO: cancel send if cmd.inputType === BUILT_IN_TEXT
-        const msg = `An Error occurred while executing command "${cmd.name}"`;
-        const reason = err instanceof Error ? err.stack || err.message : String(err);
-
-        console.error(msg, err);
-        sendBotMessage(ctx.channel.id, {
-            content: `${msg}:\n${makeCodeblock(reason)}`,
-            author: {
-                username: "Vencord"
-            }
-        });
+    // Returning nothing makes sure Discord doesn't send anything for BUILT_IN_TEXT commands
+    const handleError = (err: any) => void sendErrorMessage(ctx.channel.id, `An Error occurred while executing command "${cmd.name}"`, err);
+
+    const onResult = (res: void | CommandResult) => {
+        try {
+            return handleResult(cmd, res, ctx);
+        } catch (err) {
+            return handleError(err);
+        }
     };
 
     try {
         const res = cmd.execute(args, ctx);
-        return res instanceof Promise ? res.catch(handleError) : res;
+        return res instanceof Promise ? res.then(onResult, handleError) : onResult(res as void | CommandResult);
     } catch (err) {
         return handleError(err);
     }
 } as never;
 
-
 /**
  * Prepare a Command Option for Discord by filling missing fields
  * @param opt
@@ -100,32 +153,83 @@ export function prepareOption<O extends Option | Command>(opt: O): O {
     return opt;
 }
 
-// Yes, Discord registers individual commands for each subcommand
-// TODO: This probably doesn't support nested subcommands. If that is ever needed,
-// investigate
-function registerSubCommands(cmd: Command, plugin: string) {
-    cmd.options?.forEach(o => {
+interface AutocompleteRequest {
+    type: "APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST";
+    nonce: string;
+    channelId: string;
+    query: string;
+    /** Name of the option being autocompleted */
+    name: string;
+}
+
+async function autocomplete(cmd: Command, { nonce, channelId, query, name }: AutocompleteRequest) {
+    let choices = [] as ChoicesOption[];
+    try {
+        const channel = ChannelStore.getChannel(channelId);
+        const option = cmd.options?.find(o => o.name === name);
+        choices = await option?.autocomplete?.({ channel, guild: GuildStore.getGuild(channel.guild_id) }, query ?? "") ?? [];
+    } catch (err) {
+        new Logger("CommandsAPI").error(`Failed to autocomplete option "${name}" of command "${cmd.name}"`, err);
+    }
+
+    FluxDispatcher.dispatch({
+        type: "APPLICATION_COMMAND_AUTOCOMPLETE_RESPONSE",
+        nonce,
+        choices: choices.slice(0, 25).map(c => ({ name: c.displayName || c.name, value: c.value }))
+    });
+}
+
+/**
+ * Answers autocomplete requests for Vencord commands ourselves instead of Discord sending them to the API,
+ * which doesn't know about our commands
+ * @param cmd The command whose option is autocompleted
+ */
+export function _handleAutocomplete(cmd: Command, request: AutocompleteRequest) {
+    FluxDispatcher.dispatch({ ...request });
+    autocomplete(cmd, request);
+}
+
+// Yes, Discord registers individual commands for each subcommand, and for each subcommand of each group
+function registerSubCommands(cmd: Command, plugin: string, options: Option[], path: Option[] = []) {
+    options.forEach(o => {
+        if (o.type === ApplicationCommandOptionType.SUB_COMMAND_GROUP) {
+            if (path.length)
+                throw new Error("Sub-command groups can't be nested in other sub-command groups.");
+            if (!o.options?.length || o.options.some(so => so.type !== ApplicationCommandOptionType.SUB_COMMAND))
+                throw new Error("Sub-command groups must only contain sub-commands.");
+
+            registerSubCommands(cmd, plugin, o.options, [o]);
+            return;
+        }
+
         if (o.type !== ApplicationCommandOptionType.SUB_COMMAND)
-            throw new Error("When specifying sub-command options, all options must be sub-commands.");
+            throw new Error("When specifying sub-command options, all options must be sub-commands or sub-command groups.");
+
+        const subCommandPath = [...path, o];
+        const name = [cmd.name, ...subCommandPath.map(p => p.name)].join(" ");
         const subCmd = {
             ...cmd,
             ...o,
             options: o.options !== undefined ? o.options : undefined,
             type: ApplicationCommandType.CHAT_INPUT,
-            name: `${cmd.name} ${o.name}`,
-            id: `${o.name}-${cmd.id}`,
-            displayName: `${cmd.name} ${o.name}`,
-            subCommandPath: [{
-                name: o.name,
-                type: o.type,
-                displayName: o.name
-            }],
+            name,
+            id: `${subCommandPath.map(p => p.name).join("-")}-${cmd.id}`,
+            displayName: name,
+            subCommandPath: subCommandPath.map(p => ({
+                name: p.name,
+                type: p.type,
+                displayName: p.name
+            })),
             rootCommand: cmd
         };
         registerCommand(subCmd as any, plugin);
     });
 }
 
+function isSubCommand(option?: Option) {
+    return option?.type === ApplicationCommandOptionType.SUB_COMMAND || option?.type === ApplicationCommandOptionType.SUB_COMMAND_GROUP;
+}
+
 export function registerCommand<C extends Command>(command: C, plugin: string) {
     if (!BUILT_IN) {
         console.warn(
@@ -150,8 +254,8 @@ export function registerCommand<C extends Command>(command: C, plugin: string) {
 
     prepareOption(command);
 
-    if (command.options?.[0]?.type === ApplicationCommandOptionType.SUB_COMMAND) {
-        registerSubCommands(command, plugin);
+    if (isSubCommand(command.options?.[0])) {
+        registerSubCommands(command, plugin, command.options!);
         return;
     }
 
@@ -160,12 +264,15 @@ export function registerCommand<C extends Command>(command: C, plugin: string) {
 }
 
 export function unregisterCommand(name: string) {
-    const idx = BUILT_IN.findIndex(c => c.name === name);
-    if (idx === -1)
+    // Commands with sub-commands are only registered as their sub-commands
+    const toRemove = BUILT_IN.filter(c => c.name === name || (c as any).rootCommand?.name === name);
+    if (!toRemove.length)
         return false;
 
-    BUILT_IN.splice(idx, 1);
-    delete commands[name];
+    for (const cmd of toRemove) {
+        BUILT_IN.splice(BUILT_IN.indexOf(cmd), 1);
+        delete commands[cmd.name];
+    }
 
     return true;
 }
@@ -55,6 +55,12 @@ export interface Option {
     required?: boolean;
     options?: Option[];
     choices?: Array<ChoicesOption>;
+    /**
+     * Suggests values while the user is typing this option, for when the choices aren't known up front.
+     * Only the first 25 choices are shown
+     * @param partial What the user typed into this option so far
+     */
+    autocomplete?(ctx: CommandContext, partial: string): Promisable<ChoicesOption[]>;
 }
 
 export interface ChoicesOption {
@@ -72,10 +78,26 @@ export const enum ApplicationCommandType {
 
 export interface CommandReturnValue {
     content: string;
-    /** TODO: implement */
+    /** Don't send anything after all, same as returning {@link CommandCancelReturnValue} */
     cancel?: boolean;
 }
 
+export interface CommandCancelReturnValue {
+    cancel: true;
+}
+
+export interface CommandDraftReturnValue {
+    /** Replaces the chat input's content with this instead of sending anything */
+    draft: string;
+}
+
+export interface CommandMultiMessageReturnValue {
+    /** Sent one after another, each one only after the previous one was sent */
+    messages: string[];
+}
+
+export type CommandResult = CommandReturnValue | CommandCancelReturnValue | CommandDraftReturnValue | CommandMultiMessageReturnValue;
+
 export interface Argument {
     type: ApplicationCommandOptionType;
     name: string;
@@ -102,5 +124,5 @@ export interface Command {
     options?: Option[];
     predicate?(ctx: CommandContext): boolean;
 
-    execute(args: Argument[], ctx: CommandContext): Promisable<void | CommandReturnValue>;
+    execute(args: Argument[], ctx: CommandContext): Promisable<void | CommandResult>;
 }
@@ -36,15 +36,18 @@ export default ErrorBoundary.wrap(function NotificationComponent({
     image,
     permanent,
     className,
-    dismissOnClick
-}: NotificationData & { className?: string; }) {
+    dismissOnClick,
+    actions,
+    count = 1
+}: NotificationData & { className?: string; count?: number; }) {
     const { timeout, position } = useSettings(["notifications.timeout", "notifications.position"]).notifications;
     const hasFocus = useStateFromStores([WindowStore], () => WindowStore.isFocused());
 
     const [isHover, setIsHover] = useState(false);
     const [elapsed, setElapsed] = useState(0);
 
-    const start = useMemo(() => Date.now(), [timeout, isHover, hasFocus]);
+    // restart the timeout when a notification of the same group arrives
+    const start = useMemo(() => Date.now(), [timeout, isHover, hasFocus, count]);
 
     useEffect(() => {
         if (isHover || !hasFocus || timeout === 0 || permanent) return void setElapsed(0);
@@ -58,7 +61,7 @@ export default ErrorBoundary.wrap(function NotificationComponent({
         }, 10);
 
         return () => clearInterval(intervalId);
-    }, [timeout, isHover, hasFocus]);
+    }, [timeout, isHover, hasFocus, count]);
 
     const timeoutProgress = elapsed / timeout;
 
@@ -83,7 +86,10 @@ export default ErrorBoundary.wrap(function NotificationComponent({
                 {icon && <img className="vc-notification-icon" src={icon} alt="" />}
                 <div className="vc-notification-content">
                     <div className="vc-notification-header">
-                        <h2 className="vc-notification-title">{title}</h2>
+                        <h2 className="vc-notification-title">
+                            {title}
+                            {count > 1 && <span className="vc-notification-count">{count}</span>}
+                        </h2>
                         <button
                             className="vc-notification-close-btn"
                             onClick={e => {
@@ -107,6 +113,26 @@ export default ErrorBoundary.wrap(function NotificationComponent({
                     <div>
                         {richBody ?? <p className="vc-notification-p">{body}</p>}
                     </div>
+                    {!!actions?.length && (
+                        <div className="vc-notification-actions">
+                            {actions.map(action => (
+                                <button
+                                    key={action.label}
+                                    className="vc-notification-action"
+                                    style={action.color ? { backgroundColor: action.color } : undefined}
+                                    onClick={e => {
+                                        e.preventDefault();
+                                        e.stopPropagation();
+                                        action.onClick();
+                                        if (action.dismiss !== false)
+                                            onClose!();
+                                    }}
+                                >
+                                    {action.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
             {image && <img className="vc-notification-img" src={image} alt="" />}
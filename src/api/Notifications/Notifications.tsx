@@ -40,6 +40,15 @@ function getRoot() {
     return reactRoot;
 }
 
+export interface NotificationAction {
+    label: string;
+    onClick(): void;
+    /** Background color of the button */
+    color?: string;
+    /** Whether clicking this action should dismiss the notification (defaults to true) */
+    dismiss?: boolean;
+}
+
 export interface NotificationData {
     title: string;
     body: string;
@@ -61,18 +70,41 @@ export interface NotificationData {
     noPersist?: boolean;
     /** Whether this notification should be dismissed when clicked (defaults to true) */
     dismissOnClick?: boolean;
+    /** Buttons shown below the body. Not supported on desktop notifications */
+    actions?: NotificationAction[];
+    /** Name of the plugin showing this notification, so users can mute it and filter the log by it */
+    plugin?: string;
+    /**
+     * Notifications with the same group key collapse into one, showing the latest of them along with how many there were.
+     * Should be unique to your plugin, for example `"MyPlugin:new-message"`
+     */
+    groupKey?: string;
 }
 
-function _showNotification(notification: NotificationData, id: number) {
+interface NotificationGroup {
+    data: NotificationData;
+    count: number;
+    /** Re-renders the notification if it is currently shown */
+    update?(): void;
+}
+
+const groups = new Map<string, NotificationGroup>();
+
+function _showNotification(group: NotificationGroup, id: number) {
     const root = getRoot();
     return new Promise<void>(resolve => {
-        root.render(
-            <NotificationComponent key={id} {...notification} onClose={() => {
-                notification.onClose?.();
-                root.render(null);
-                resolve();
-            }} />,
-        );
+        group.update = () => {
+            const { data: notification, count } = group;
+            root.render(
+                <NotificationComponent key={id} {...notification} count={count} onClose={() => {
+                    if (notification.groupKey) groups.delete(notification.groupKey);
+                    notification.onClose?.();
+                    root.render(null);
+                    resolve();
+                }} />,
+            );
+        };
+        group.update();
     });
 }
 
@@ -85,6 +117,48 @@ function shouldBeNative() {
     return false;
 }
 
+function parseTime(time: string) {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+}
+
+export function isInQuietHours(date = new Date()) {
+    const { enabled, start, end } = Settings.notifications.quietHours;
+    if (!enabled) return false;
+
+    const now = date.getHours() * 60 + date.getMinutes();
+    const startTime = parseTime(start);
+    const endTime = parseTime(end);
+    if (isNaN(startTime) || isNaN(endTime)) return false;
+
+    // quiet hours may span midnight, like 22:00 - 08:00
+    return startTime <= endTime
+        ? now >= startTime && now < endTime
+        : now >= startTime || now < endTime;
+}
+
+/**
+ * Whether a notification should only be logged, because of snoozing, quiet hours or because its plugin was muted
+ */
+export function isNotificationMuted(data: Pick<NotificationData, "plugin">) {
+    const { snoozedUntil, mutedPlugins } = Settings.notifications;
+
+    return snoozedUntil > Date.now()
+        || (data.plugin != null && mutedPlugins.includes(data.plugin))
+        || isInQuietHours();
+}
+
+export function snoozeNotifications(duration: number) {
+    Settings.notifications.snoozedUntil = duration > 0 ? Date.now() + duration : 0;
+}
+
+export function setPluginMuted(plugin: string, muted: boolean) {
+    const { mutedPlugins } = Settings.notifications;
+    Settings.notifications.mutedPlugins = muted
+        ? [...new Set([...mutedPlugins, plugin])]
+        : mutedPlugins.filter(p => p !== plugin);
+}
+
 export async function requestPermission() {
     return (
         Notification.permission === "granted" ||
@@ -95,17 +169,33 @@ export async function requestPermission() {
 export async function showNotification(data: NotificationData) {
     persistNotification(data);
 
+    if (isNotificationMuted(data)) return;
+
     if (shouldBeNative() && await requestPermission()) {
-        const { title, body, icon, image, onClick = null, onClose = null } = data;
+        const { title, body, icon, image, groupKey, onClick = null, onClose = null } = data;
         const n = new Notification(title, {
             body,
             icon,
+            // replaces the previous notification with the same tag
+            tag: groupKey,
             // @ts-expect-error ts is drunk
             image
         });
         n.onclick = onClick;
         n.onclose = onClose;
-    } else {
-        NotificationQueue.push(() => _showNotification(data, id++));
+        return;
+    }
+
+    const existing = data.groupKey && groups.get(data.groupKey);
+    if (existing) {
+        existing.data = data;
+        existing.count++;
+        existing.update?.();
+        return;
     }
+
+    const group: NotificationGroup = { data, count: 1 };
+    if (data.groupKey) groups.set(data.groupKey, group);
+
+    NotificationQueue.push(() => _showNotification(group, id++));
 }
@@ -23,16 +23,19 @@ import { Flex } from "@components/Flex";
 import { openNotificationSettingsModal } from "@components/VencordSettings/NotificationSettings";
 import { closeModal, ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
 import { useAwaiter } from "@utils/react";
-import { Alerts, Button, Forms, React, Text, Timestamp, useEffect, useReducer, useState } from "@webpack/common";
+import { saveFile } from "@utils/web";
+import { Alerts, Button, Forms, moment, React, Select, Text, TextInput, Timestamp, useEffect, useMemo, useReducer, useState } from "@webpack/common";
 import { nanoid } from "nanoid";
 import type { DispatchWithoutAction } from "react";
 
 import NotificationComponent from "./NotificationComponent";
 import type { NotificationData } from "./Notifications";
 
-interface PersistentNotificationData extends Pick<NotificationData, "title" | "body" | "image" | "icon" | "color"> {
+interface PersistentNotificationData extends Pick<NotificationData, "title" | "body" | "image" | "icon" | "color" | "plugin" | "groupKey"> {
     timestamp: number;
     id: string;
+    /** How many notifications of the same group this entry stands for */
+    count?: number;
 }
 
 const KEY = "notification-log";
@@ -56,14 +59,19 @@ export async function persistNotification(notification: NotificationData) {
 
         // Omit stuff we don't need
         const {
-            onClick, onClose, richBody, permanent, noPersist, dismissOnClick,
+            onClick, onClose, richBody, permanent, noPersist, dismissOnClick, actions,
             ...pureNotification
         } = notification;
 
+        // Collapse into the previous notification of the same group
+        const groupIndex = notification.groupKey ? log.findIndex(n => n.groupKey === notification.groupKey) : -1;
+        const count = groupIndex === -1 ? 1 : (log.splice(groupIndex, 1)[0].count ?? 1) + 1;
+
         log.unshift({
             ...pureNotification,
             timestamp: Date.now(),
-            id: nanoid()
+            id: nanoid(),
+            count
         });
 
         if (log.length > limit && limit !== 200)
@@ -120,6 +128,7 @@ function NotificationEntry({ data }: { data: PersistentNotificationData; }) {
         <div className={cl("wrapper", { removing })} ref={ref}>
             <NotificationComponent
                 {...data}
+                count={data.count}
                 permanent={true}
                 dismissOnClick={false}
                 onClose={() => {
@@ -139,13 +148,13 @@ function NotificationEntry({ data }: { data: PersistentNotificationData; }) {
     );
 }
 
-export function NotificationLog({ log, pending }: { log: PersistentNotificationData[], pending: boolean; }) {
+export function NotificationLog({ log, pending, filtered }: { log: PersistentNotificationData[], pending: boolean; filtered?: boolean; }) {
     if (!log.length && !pending)
         return (
             <div className={cl("container")}>
                 <div className={cl("empty")} />
                 <Forms.FormText style={{ textAlign: "center" }}>
-                    No notifications yet
+                    {filtered ? "No notifications match your search" : "No notifications yet"}
                 </Forms.FormText>
             </div>
         );
@@ -157,8 +166,34 @@ export function NotificationLog({ log, pending }: { log: PersistentNotificationD
     );
 }
 
+// Notifications from Vencord itself, like update notifications, don't have a plugin
+const NO_PLUGIN = "Vencord";
+const ALL_PLUGINS = "";
+
+function exportLog(log: PersistentNotificationData[]) {
+    const filename = `vencord-notifications-${moment().format("YYYY-MM-DD")}.json`;
+    const data = JSON.stringify(log, null, 4);
+
+    if (IS_DISCORD_DESKTOP) {
+        DiscordNative.fileManager.saveWithDialog(new TextEncoder().encode(data), filename);
+    } else {
+        saveFile(new File([data], filename, { type: "application/json" }));
+    }
+}
+
 function LogModal({ modalProps, close }: { modalProps: ModalProps; close(): void; }) {
     const [log, pending] = useLogs();
+    const [search, setSearch] = useState("");
+    const [plugin, setPlugin] = useState(ALL_PLUGINS);
+
+    const plugins = useMemo(() => [...new Set(log.map(n => n.plugin ?? NO_PLUGIN))].sort(), [log]);
+
+    const query = search.toLowerCase();
+    const filteredLog = log.filter(n =>
+        (plugin === ALL_PLUGINS || (n.plugin ?? NO_PLUGIN) === plugin)
+        && (n.title.toLowerCase().includes(query) || n.body.toLowerCase().includes(query))
+    );
+    const isFiltered = filteredLog.length !== log.length;
 
     return (
         <ModalRoot {...modalProps} size={ModalSize.LARGE}>
@@ -168,7 +203,27 @@ function LogModal({ modalProps, close }: { modalProps: ModalProps; close(): void
             </ModalHeader>
 
             <ModalContent>
-                <NotificationLog log={log} pending={pending} />
+                <Flex className={cl("filters")}>
+                    <div className={cl("search")}>
+                        <TextInput
+                            placeholder="Search notifications..."
+                            value={search}
+                            onChange={setSearch}
+                        />
+                    </div>
+                    <div className={cl("plugin-filter")}>
+                        <Select
+                            options={[
+                                { label: "All plugins", value: ALL_PLUGINS },
+                                ...plugins.map(p => ({ label: p, value: p }))
+                            ]}
+                            isSelected={v => v === plugin}
+                            select={setPlugin}
+                            serialize={String}
+                        />
+                    </div>
+                </Flex>
+                <NotificationLog log={filteredLog} pending={pending} filtered={isFiltered} />
             </ModalContent>
 
             <ModalFooter>
@@ -177,6 +232,14 @@ function LogModal({ modalProps, close }: { modalProps: ModalProps; close(): void
                         Notification Settings
                     </Button>
 
+                    <Button
+                        disabled={filteredLog.length === 0}
+                        color={Button.Colors.PRIMARY}
+                        onClick={() => exportLog(filteredLog)}
+                    >
+                        {isFiltered ? "Export Shown as JSON" : "Export as JSON"}
+                    </Button>
+
                     <Button
                         disabled={log.length === 0}
                         color={Button.Colors.RED}
@@ -16,8 +16,9 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import type { ThemeVariableValue } from "@main/themes";
 import { debounce } from "@shared/debounce";
-import { SettingsStore as SettingsStoreClass } from "@shared/SettingsStore";
+import { SettingsPath, SettingsStore as SettingsStoreClass } from "@shared/SettingsStore";
 import { localStorage } from "@utils/localStorage";
 import { Logger } from "@utils/Logger";
 import { mergeDefaults } from "@utils/mergeDefaults";
@@ -35,6 +36,12 @@ export interface Settings {
     enableReactDevtools: boolean;
     themeLinks: string[];
     enabledThemes: string[];
+    /** Values of the variables themes declare with `@var`, by theme file name and variable name */
+    themeVariables: {
+        [fileName: string]: {
+            [name: string]: ThemeVariableValue;
+        };
+    };
     frameless: boolean;
     transparent: boolean;
     winCtrlQ: boolean;
@@ -66,6 +73,16 @@ export interface Settings {
         position: "top-right" | "bottom-right";
         useNative: "always" | "never" | "not-focused";
         logLimit: number;
+        /** Don't show notifications between these times of day, formatted as HH:MM. They are still logged */
+        quietHours: {
+            enabled: boolean;
+            start: string;
+            end: string;
+        };
+        /** Timestamp until which no notifications are shown */
+        snoozedUntil: number;
+        /** Plugins whose notifications are only logged, but never shown */
+        mutedPlugins: string[];
     };
 
     cloud: {
@@ -82,6 +99,7 @@ const DefaultSettings: Settings = {
     useQuickCss: true,
     themeLinks: [],
     enabledThemes: [],
+    themeVariables: {},
     enableReactDevtools: false,
     frameless: false,
     transparent: false,
@@ -95,7 +113,14 @@ const DefaultSettings: Settings = {
         timeout: 5000,
         position: "bottom-right",
         useNative: "not-focused",
-        logLimit: 50
+        logLimit: 50,
+        quietHours: {
+            enabled: false,
+            start: "22:00",
+            end: "08:00"
+        },
+        snoozedUntil: 0,
+        mutedPlugins: []
     },
 
     cloud: {
@@ -111,8 +136,8 @@ mergeDefaults(settings, DefaultSettings);
 
 const saveSettingsOnFrequentAction = debounce(async () => {
     if (Settings.cloud.settingsSync && Settings.cloud.authenticated) {
-        await putCloudSettings();
-        delete localStorage.Vencord_settingsDirty;
+        if (await putCloudSettings())
+            delete localStorage.Vencord_settingsDirty;
     }
 }, 60_000);
 
@@ -127,15 +152,15 @@ export const SettingsStore = new SettingsStoreClass(settings, {
         const v = target[key];
         if (!plugins) return v; // plugins not initialised yet. this means this path was reached by being called on the top level
 
-        if (path === "plugins" && key in plugins)
+        if (path.length === 1 && path[0] === "plugins" && key in plugins)
             return target[key] = {
                 enabled: IS_REPORTER || plugins[key].required || plugins[key].enabledByDefault || false
             };
 
         // Since the property is not set, check if this is a plugin's setting and if so, try to resolve
         // the default value.
-        if (path.startsWith("plugins.")) {
-            const plugin = path.slice("plugins.".length);
+        if (path.length === 2 && path[0] === "plugins") {
+            const plugin = path[1];
             if (plugin in plugins) {
                 const setting = plugins[plugin].options?.[key];
                 if (!setting) return v;
@@ -157,11 +182,11 @@ export const SettingsStore = new SettingsStoreClass(settings, {
 });
 
 if (!IS_REPORTER) {
-    SettingsStore.addGlobalChangeListener((_, path) => {
+    SettingsStore.addGlobalChangeListener((_, path, change) => {
         SettingsStore.plain.cloud.settingsSyncVersion = Date.now();
         localStorage.Vencord_settingsDirty = true;
         saveSettingsOnFrequentAction();
-        VencordNative.settings.set(SettingsStore.plain, path);
+        VencordNative.settings.set(SettingsStore.plain, change?.path ?? path);
     });
 }
 
@@ -185,11 +210,10 @@ export const Settings = SettingsStore.store;
  * Settings hook for React components. Returns a smart settings
  * object that automagically triggers a rerender if any properties
  * are altered
- * @param paths An optional list of paths to whitelist for rerenders
+ * @param paths An optional list of paths to whitelist for rerenders. Paths with keys containing dots have to be passed as arrays
  * @returns Settings
  */
-// TODO: Representing paths as essentially "string[].join('.')" wont allow dots in paths, change to "paths?: string[][]" later
-export function useSettings(paths?: UseSettings<Settings>[]) {
+export function useSettings(paths?: (UseSettings<Settings> | SettingsPath)[]) {
     const [, forceUpdate] = React.useReducer(() => ({}), {});
 
     useEffect(() => {
@@ -231,6 +255,24 @@ export function migratePluginSetting(pluginName: string, oldSetting: string, new
     SettingsStore.markAsChanged();
 }
 
+/**
+ * Settings migrations record the version they brought a plugin's settings to as its `settingsVersion`.
+ * Imported settings, like from a backup, the cloud or a profile, can't lower it, since data the migrations
+ * moved elsewhere, like to the DataStore, stays migrated and would be migrated again otherwise
+ * @param plugins The plugin settings about to be imported, which are changed in place
+ */
+export function keepSettingsVersions(plugins: Record<string, Record<string, any>>) {
+    for (const [name, current] of Object.entries(PlainSettings.plugins)) {
+        const version = current?.settingsVersion;
+        if (typeof version !== "number") continue;
+
+        const imported = plugins[name] ??= {};
+        if (!(imported.settingsVersion >= version)) imported.settingsVersion = version;
+    }
+
+    return plugins;
+}
+
 export function definePluginSettings<
     Def extends SettingsDefinition,
     Checks extends SettingsChecks<Def>,
@@ -246,7 +288,7 @@ export function definePluginSettings<
             return PlainSettings.plugins[definedSettings.pluginName] as any;
         },
         use: settings => useSettings(
-            settings?.map(name => `plugins.${definedSettings.pluginName}.${name}`) as UseSettings<Settings>[]
+            settings?.map(name => ["plugins", definedSettings.pluginName, ...typeof name === "string" ? [name] : name])
         ).plugins[definedSettings.pluginName] as any,
         def,
         checks: checks ?? {} as any,
@@ -254,6 +296,12 @@ export function definePluginSettings<
 
         withPrivateSettings<T extends object>() {
             return this as DefinedSettings<Def, Checks, T>;
+        },
+
+        withMigrations(migrations, settingsVersion) {
+            definedSettings.migrations = migrations;
+            definedSettings.settingsVersion = settingsVersion;
+            return definedSettings;
         }
     };
 
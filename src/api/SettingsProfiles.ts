@@ -0,0 +1,181 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { Settings, SettingsStore } from "@api/Settings";
+import { proxyLazy } from "@utils/lazy";
+import { Logger } from "@utils/Logger";
+import { useAwaiter } from "@utils/react";
+import { useEffect, useReducer } from "@webpack/common";
+import type { DispatchWithoutAction } from "react";
+
+// Avoid circular dependency
+const PluginManager = proxyLazy(() => require("../plugins")) as typeof import("../plugins");
+
+export interface SettingsProfile {
+    name: string;
+    /**
+     * The enabled flag and options of every plugin, as they were when the profile was saved
+     */
+    plugins: Record<string, Record<string, any>>;
+    enabledThemes: string[];
+    quickCss: string;
+}
+
+interface ProfileData {
+    active: string | null;
+    profiles: SettingsProfile[];
+}
+
+export interface ProfileSwitchResult {
+    /**
+     * Plugins that were toggled, but need a restart to actually start or stop
+     */
+    restartNeeded: string[];
+    /**
+     * Plugins that failed to start or stop
+     */
+    failed: string[];
+}
+
+const KEY = "settings-profiles";
+const logger = new Logger("SettingsProfiles");
+const signals = new Set<DispatchWithoutAction>();
+
+let restartNeeded = [] as string[];
+
+async function getData(): Promise<ProfileData> {
+    return await DataStore.get<ProfileData>(KEY) ?? { active: null, profiles: [] };
+}
+
+async function setData(data: ProfileData) {
+    await DataStore.set(KEY, data);
+    signals.forEach(x => x());
+}
+
+export async function getProfiles() {
+    return (await getData()).profiles;
+}
+
+export async function getActiveProfile() {
+    return (await getData()).active;
+}
+
+/**
+ * Snapshots the current plugin settings, enabled themes and QuickCSS into a profile, replacing any profile with the same name
+ */
+export async function saveProfile(name: string) {
+    name = name.trim();
+    if (!name) throw new Error("Profile must have a name!");
+
+    const profile: SettingsProfile = {
+        name,
+        plugins: structuredClone(VencordNative.settings.get().plugins),
+        enabledThemes: [...Settings.enabledThemes],
+        quickCss: await VencordNative.quickCss.get()
+    };
+
+    const data = await getData();
+    await setData({
+        active: name,
+        profiles: [...data.profiles.filter(p => p.name !== name), profile]
+    });
+}
+
+export async function deleteProfile(name: string) {
+    const data = await getData();
+    await setData({
+        active: data.active === name ? null : data.active,
+        profiles: data.profiles.filter(p => p.name !== name)
+    });
+}
+
+/**
+ * Switches to a profile. Plugins without patches are started and stopped right away,
+ * everything else only takes effect after a restart.
+ */
+export async function applyProfile(name: string): Promise<ProfileSwitchResult> {
+    const data = await getData();
+    const profile = data.profiles.find(p => p.name === name);
+    if (!profile) throw new Error(`No profile named ${name}`);
+
+    const { plugins, isPluginEnabled, resolveDependencyOrder, startPlugins, stopPlugins } = PluginManager;
+
+    // Plugins the profile doesn't know about, for example ones installed after it was saved, are left alone
+    const wanted = Object.keys(plugins).filter(p => profile.plugins[p]?.enabled ?? isPluginEnabled(p));
+    // Dependencies have to stay enabled even if the profile turned them off, as long as something needs them
+    const target = new Set(resolveDependencyOrder(wanted, { onCycle: e => logger.warn(e), onUnresolved: e => logger.warn(e) }));
+
+    const toStart = [] as string[];
+    const toStop = [] as string[];
+    const switchRestartNeeded = [] as string[];
+
+    for (const p of Object.values(plugins)) {
+        if (p.required) continue;
+
+        const enable = target.has(p.name);
+        if (enable === isPluginEnabled(p.name)) continue;
+
+        if (p.patches?.length) switchRestartNeeded.push(p.name);
+        else if (enable) toStart.push(p.name);
+        else if (p.started) toStop.push(p.name);
+    }
+
+    const failed = stopPlugins(toStop);
+
+    // Written to the plain settings and saved once at the end, instead of saving and notifying listeners for every single key
+    const { plain } = SettingsStore;
+    for (const p of Object.values(plugins)) {
+        const settings = plain.plugins[p.name] ??= { enabled: false };
+        const { enabled, ...options } = profile.plugins[p.name] ?? {};
+        for (const [key, value] of Object.entries(options)) {
+            // See keepSettingsVersions, the version the profile was saved at is never newer than the current one
+            if (key === "settingsVersion") continue;
+            settings[key] = structuredClone(value);
+        }
+
+        if (p.required) continue;
+
+        const enable = target.has(p.name);
+        settings.enabled = enable;
+        p.isDependency = enable && !wanted.includes(p.name);
+    }
+
+    plain.enabledThemes = [...profile.enabledThemes];
+    // Saves once, and also notifies the enabledThemes listeners so the themes are switched right away
+    SettingsStore.setData(plain, "enabledThemes");
+
+    failed.push(...startPlugins(toStart));
+
+    await VencordNative.quickCss.set(profile.quickCss);
+
+    restartNeeded = [...new Set([...restartNeeded, ...switchRestartNeeded])];
+    await setData({ ...data, active: name });
+
+    if (failed.length) logger.error(`Failed to toggle plugins while switching to ${name}: ${failed.join(", ")}`);
+    logger.info(`Switched to profile ${name}`);
+
+    return { restartNeeded: switchRestartNeeded, failed };
+}
+
+/**
+ * @returns all profiles, the active one, and the plugins waiting for a restart after switching profiles
+ */
+export function useProfiles() {
+    const [signal, setSignal] = useReducer(x => x + 1, 0);
+
+    useEffect(() => {
+        signals.add(setSignal);
+        return () => void signals.delete(setSignal);
+    }, []);
+
+    const [data, _, pending] = useAwaiter(getData, {
+        fallbackValue: { active: null, profiles: [] },
+        deps: [signal]
+    });
+
+    return { ...data, restartNeeded, pending };
+}
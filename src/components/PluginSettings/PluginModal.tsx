@@ -55,6 +55,9 @@ const UserSummaryItem = findComponentByCodeLazy("defaultRenderUser", "showDefaul
 const AvatarStyles = findByPropsLazy("moreUsers", "emptyUser", "avatarContainer", "clickableAvatar");
 const UserRecord: Constructor<Partial<User>> = proxyLazy(() => UserStore.getCurrentUser().constructor) as any;
 
+// Avoid circular dependency
+const { getDependencyChains, getEnabledDependentChains } = proxyLazy(() => require("../../plugins"));
+
 interface PluginModalProps extends ModalProps {
     plugin: Plugin;
     onRestartNeeded(): void;
@@ -267,6 +270,7 @@ export default function PluginModal({ plugin, onRestartNeeded, onClose, transiti
                         />
                     </div>
                 </Forms.FormSection>
+                <DependencyChains plugin={plugin} />
                 {!!plugin.settingsAboutComponent && (
                     <div className={classes(Margins.bottom8, "vc-text-selectable")}>
                         <Forms.FormSection>
@@ -323,3 +327,36 @@ export function openPluginModal(plugin: Plugin, onRestartNeeded?: (pluginName: s
         />
     ));
 }
+
+function DependencyChains({ plugin }: { plugin: Plugin; }) {
+    const dependencies: string[][] = getDependencyChains(plugin.name);
+    // listed from the enabled plugin down to this one, the same direction as the dependencies
+    const dependents: string[][] = getEnabledDependentChains(plugin.name).map((chain: string[]) => [...chain].reverse());
+
+    if (!dependencies.length && !dependents.length) return null;
+
+    return (
+        <Forms.FormSection className={Margins.bottom8}>
+            {!!dependencies.length && (
+                <>
+                    <Forms.FormTitle tag="h3">Depends on</Forms.FormTitle>
+                    {dependencies.map(chain => (
+                        <Forms.FormText key={chain.join()} className={cl("dependency-chain")}>
+                            {[plugin.name, ...chain].join(" → ")}
+                        </Forms.FormText>
+                    ))}
+                </>
+            )}
+            {!!dependents.length && (
+                <>
+                    <Forms.FormTitle tag="h3" className={classes(!!dependencies.length && Margins.top8)}>Required by</Forms.FormTitle>
+                    {dependents.map(chain => (
+                        <Forms.FormText key={chain.join()} className={cl("dependency-chain")}>
+                            {[...chain, plugin.name].join(" → ")}
+                        </Forms.FormText>
+                    ))}
+                </>
+            )}
+        </Forms.FormSection>
+    );
+}
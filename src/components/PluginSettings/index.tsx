@@ -40,7 +40,7 @@ import { JSX } from "react";
 import Plugins, { ExcludedPlugins } from "~plugins";
 
 // Avoid circular dependency
-const { startDependenciesRecursive, startPlugin, stopPlugin } = proxyLazy(() => require("../../plugins"));
+const { startDependenciesRecursive, startPlugin, stopPlugin, getDirectDependents, getEnabledDependentChains } = proxyLazy(() => require("../../plugins"));
 
 const cl = classNameFactory("vc-plugins-");
 const logger = new Logger("PluginSettings", "#a6d189");
@@ -99,9 +99,27 @@ export function PluginCard({ plugin, disabled, onRestartNeeded, onMouseEnter, on
     function toggleEnabled() {
         const wasEnabled = isEnabled();
 
+        // Plugins which are still needed by other enabled plugins can't be turned off
+        if (wasEnabled) {
+            const dependents = [...new Set(getEnabledDependentChains(plugin.name).map(chain => chain[0]))];
+            if (dependents.length) {
+                showErrorToast(`Cannot disable ${plugin.name} while ${dependents.join(", ")} depend${dependents.length === 1 ? "s" : ""} on it`);
+                return;
+            }
+        }
+
         // If we're enabling a plugin, make sure all deps are enabled recursively.
         if (!wasEnabled) {
-            const { restartNeeded, failures } = startDependenciesRecursive(plugin);
+            let result: { restartNeeded: boolean; failures: string[]; };
+            try {
+                result = startDependenciesRecursive(plugin);
+            } catch (e) {
+                logger.error(`Failed to resolve dependencies for ${plugin.name}`, e);
+                showNotice(String(e instanceof Error ? e.message : e), "Close", () => null);
+                return;
+            }
+
+            const { restartNeeded, failures } = result;
             if (failures.length) {
                 logger.error(`Failed to start dependencies for ${plugin.name}: ${failures.join(", ")}`);
                 showNotice("Failed to start dependencies: " + failures.join(", "), "Close", () => null);
@@ -228,20 +246,6 @@ export default function PluginSettings() {
         }));
     }, []);
 
-    const depMap = React.useMemo(() => {
-        const o = {} as Record<string, string[]>;
-        for (const plugin in Plugins) {
-            const deps = Plugins[plugin].dependencies;
-            if (deps) {
-                for (const dep of deps) {
-                    o[dep] ??= [];
-                    o[dep].push(plugin);
-                }
-            }
-        }
-        return o;
-    }, []);
-
     const sortedPlugins = useMemo(() => Object.values(Plugins)
         .sort((a, b) => a.name.localeCompare(b.name)), []);
 
@@ -293,12 +297,13 @@ export default function PluginSettings() {
 
         if (!pluginFilter(p)) continue;
 
-        const isRequired = p.required || p.isDependency || depMap[p.name]?.some(d => settings.plugins[d].enabled);
+        const dependents: string[] = getDirectDependents(p.name);
+        const isRequired = p.required || p.isDependency || dependents.some(d => settings.plugins[d].enabled);
 
         if (isRequired) {
-            const tooltipText = p.required || !depMap[p.name]
+            const tooltipText = p.required || !dependents.length
                 ? "This plugin is required for Vencord to function."
-                : makeDependencyList(depMap[p.name]?.filter(d => settings.plugins[d].enabled));
+                : makeDependencyList(dependents.filter(d => settings.plugins[d].enabled));
 
             requiredPlugins.push(
                 <Tooltip text={tooltipText} key={p.name}>
@@ -17,49 +17,106 @@
 */
 
 import { Flex } from "@components/Flex";
+import { Backup, BACKUP_SECTIONS, BackupSection } from "@utils/backup";
 import { Margins } from "@utils/margins";
 import { classes } from "@utils/misc";
-import { downloadSettingsBackup, uploadSettingsBackup } from "@utils/settingsSync";
-import { Button, Card, Text } from "@webpack/common";
+import { downloadSettingsBackup, loadSettingsBackup, restoreSettingsBackup } from "@utils/settingsSync";
+import { Button, Card, Forms, moment, Switch, Text, useState } from "@webpack/common";
 
 import { SettingsTab, wrapTab } from "./shared";
 
+function RestoreSections({ backup, onClose }: { backup: Backup; onClose(): void; }) {
+    const included = Object.keys(backup.manifest.sections) as BackupSection[];
+    const [selected, setSelected] = useState(included);
+    const [restoring, setRestoring] = useState(false);
+
+    async function restore() {
+        setRestoring(true);
+        const success = await restoreSettingsBackup(backup, selected);
+        setRestoring(false);
+        if (success) onClose();
+    }
+
+    return (
+        <Card className={classes("vc-settings-card", Margins.top16)}>
+            <Forms.FormTitle tag="h5">Restore Backup</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom16}>
+                Made on {moment(backup.manifest.createdAt).format("LLL")}. Choose which parts of it should replace your current data.
+            </Forms.FormText>
+            {included.map(section => (
+                <Switch
+                    key={section}
+                    value={selected.includes(section)}
+                    onChange={(enabled: boolean) => setSelected(s => enabled ? [...s, section] : s.filter(x => x !== section))}
+                    note={BACKUP_SECTIONS[section].description}
+                    hideBorder
+                >
+                    {BACKUP_SECTIONS[section].name}
+                </Switch>
+            ))}
+            <Flex>
+                <Button
+                    onClick={restore}
+                    disabled={!selected.length || restoring}
+                    size={Button.Sizes.SMALL}
+                >
+                    Restore Selected
+                </Button>
+                <Button
+                    onClick={onClose}
+                    disabled={restoring}
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.PRIMARY}
+                >
+                    Cancel
+                </Button>
+            </Flex>
+        </Card>
+    );
+}
+
 function BackupRestoreTab() {
+    const [backup, setBackup] = useState<Backup | null>(null);
+
     return (
         <SettingsTab title="Backup & Restore">
             <Card className={classes("vc-settings-card", "vc-backup-restore-card")}>
                 <Flex flexDirection="column">
                     <strong>Warning</strong>
-                    <span>Importing a settings file will overwrite your current settings.</span>
+                    <span>Restoring a backup will overwrite the parts of your current data you choose to restore.</span>
                 </Flex>
             </Card>
             <Text variant="text-md/normal" className={Margins.bottom8}>
-                You can import and export your Vencord settings as a JSON file.
-                This allows you to easily transfer your settings to another device,
-                or recover your settings after reinstalling Vencord or Discord.
+                You can import and export your Vencord data as a backup archive.
+                This allows you to easily transfer your setup to another device,
+                or recover it after reinstalling Vencord or Discord.
+                Older JSON settings exports can still be imported.
             </Text>
             <Text variant="text-md/normal" className={Margins.bottom8}>
-                Settings Export contains:
+                Backups contain:
                 <ul>
+                    <li>&mdash; Plugin Settings and Theme Links</li>
                     <li>&mdash; Custom QuickCSS</li>
-                    <li>&mdash; Theme Links</li>
-                    <li>&mdash; Plugin Settings</li>
+                    <li>&mdash; Plugin Data, like message tags and DM categories</li>
+                    <li>&mdash; Local Themes</li>
+                    <li>&mdash; Files plugins keep outside of Discord</li>
                 </ul>
             </Text>
             <Flex>
                 <Button
-                    onClick={() => uploadSettingsBackup()}
+                    onClick={async () => setBackup(await loadSettingsBackup())}
                     size={Button.Sizes.SMALL}
                 >
-                    Import Settings
+                    Import Backup
                 </Button>
                 <Button
-                    onClick={downloadSettingsBackup}
+                    onClick={() => downloadSettingsBackup()}
                     size={Button.Sizes.SMALL}
                 >
-                    Export Settings
+                    Export Backup
                 </Button>
             </Flex>
+            {backup && <RestoreSections key={backup.manifest.createdAt} backup={backup} onClose={() => setBackup(null)} />}
         </SettingsTab>
     );
 }
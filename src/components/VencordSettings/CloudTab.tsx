@@ -23,8 +23,9 @@ import { Grid } from "@components/Grid";
 import { Link } from "@components/Link";
 import { authorizeCloud, cloudLogger, deauthorizeCloud, getCloudAuth, getCloudUrl } from "@utils/cloud";
 import { Margins } from "@utils/margins";
-import { deleteCloudSettings, getCloudSettings, putCloudSettings } from "@utils/settingsSync";
-import { Alerts, Button, Forms, Switch, Tooltip } from "@webpack/common";
+import { classes } from "@utils/misc";
+import { deleteCloudSettings, getCloudSettings, PendingCloudMerge, putCloudSettings, resolveCloudConflicts, useCloudConflicts } from "@utils/settingsSync";
+import { Alerts, Button, Clickable, Forms, Switch, Tooltip, useState } from "@webpack/common";
 
 import { SettingsTab, wrapTab } from "./shared";
 
@@ -116,6 +117,88 @@ function SettingsSyncSection() {
     );
 }
 
+type ConflictSide = "local" | "remote";
+
+function describeConflict([section, ...path]: string[]) {
+    if (section === "quickCss") return "QuickCSS";
+    if (path[0] === "plugins") return `${path[1]} plugin: ${path.slice(2).join(".") || "all settings"}`;
+    return path.join(".");
+}
+
+function formatConflictValue(value: unknown) {
+    return value === undefined ? "Not set" : JSON.stringify(value, null, 2);
+}
+
+function ConflictChooser({ pending }: { pending: PendingCloudMerge; }) {
+    const { conflicts } = pending.result;
+    const [choices, setChoices] = useState<Record<number, ConflictSide>>({});
+    const [applying, setApplying] = useState(false);
+
+    const chooseAll = (side: ConflictSide) => setChoices(Object.fromEntries(conflicts.map((_, i) => [i, side])));
+
+    return (
+        <Forms.FormSection title="Sync Conflicts" className={Margins.top16}>
+            <Forms.FormText variant="text-md/normal" className={Margins.bottom8}>
+                These settings were changed both on this device and on the cloud since they were last synchronized.
+                Choose which version of each to keep, everything else has already been merged.
+            </Forms.FormText>
+            {conflicts.map(({ path, local, remote }, i) => (
+                <div key={path.join(".")} className={Margins.bottom16}>
+                    <Forms.FormTitle tag="h5">{describeConflict(path)}</Forms.FormTitle>
+                    <div className="vc-cloud-conflict-sides">
+                        {([["local", "This device", local], ["remote", "Cloud", remote]] as const).map(([side, label, value]) => (
+                            <Clickable
+                                key={side}
+                                className={classes("vc-cloud-conflict-side", choices[i] === side && "vc-cloud-conflict-chosen")}
+                                onClick={() => setChoices(c => ({ ...c, [i]: side }))}
+                            >
+                                <Forms.FormText>{label}</Forms.FormText>
+                                <code className="vc-cloud-conflict-value">{formatConflictValue(value)}</code>
+                            </Clickable>
+                        ))}
+                    </div>
+                </div>
+            ))}
+            <div className="vc-cloud-settings-sync-grid">
+                <Button
+                    size={Button.Sizes.SMALL}
+                    disabled={applying || Object.keys(choices).length !== conflicts.length}
+                    onClick={async () => {
+                        setApplying(true);
+                        await resolveCloudConflicts(choices);
+                        setApplying(false);
+                    }}
+                >
+                    Apply Choices
+                </Button>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.PRIMARY}
+                    disabled={applying}
+                    onClick={() => chooseAll("local")}
+                >
+                    Keep All From This Device
+                </Button>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.PRIMARY}
+                    disabled={applying}
+                    onClick={() => chooseAll("remote")}
+                >
+                    Use All From Cloud
+                </Button>
+            </div>
+        </Forms.FormSection>
+    );
+}
+
+function SettingsConflicts() {
+    const pending = useCloudConflicts(s => s.pending);
+    if (!pending) return null;
+
+    return <ConflictChooser key={pending.written} pending={pending} />;
+}
+
 function CloudTab() {
     const settings = useSettings(["cloud.authenticated", "cloud.url"]);
 
@@ -188,6 +271,7 @@ function CloudTab() {
                 <Forms.FormDivider className={Margins.top16} />
             </Forms.FormSection >
             <SettingsSyncSection />
+            <SettingsConflicts />
         </SettingsTab>
     );
 }
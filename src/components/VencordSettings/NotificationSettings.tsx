@@ -4,14 +4,22 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { setPluginMuted, snoozeNotifications } from "@api/Notifications";
 import { useSettings } from "@api/Settings";
+import { Flex } from "@components/Flex";
 import { Margins } from "@utils/margins";
 import { identity } from "@utils/misc";
 import { ModalCloseButton, ModalContent, ModalHeader, ModalRoot, ModalSize, openModal } from "@utils/modal";
-import { Forms, Select, Slider, Text } from "@webpack/common";
+import { Button, Forms, Select, Slider, Switch, Text, TextInput } from "@webpack/common";
 
 import { ErrorCard } from "..";
 
+const SNOOZE_DURATIONS = [
+    { label: "1 hour", duration: 60 * 60 * 1000 },
+    { label: "8 hours", duration: 8 * 60 * 60 * 1000 },
+    { label: "24 hours", duration: 24 * 60 * 60 * 1000 }
+];
+
 export function NotificationSettings() {
     const settings = useSettings().notifications;
 
@@ -86,10 +94,91 @@ export function NotificationSettings() {
                 onValueRender={v => v === 200 ? "∞" : v}
                 onMarkerRender={v => v === 200 ? "∞" : v}
             />
+
+            <DoNotDisturbSettings />
         </div>
     );
 }
 
+function DoNotDisturbSettings() {
+    const settings = useSettings().notifications;
+    const { quietHours, snoozedUntil, mutedPlugins } = settings;
+
+    const isSnoozed = snoozedUntil > Date.now();
+    const pluginOptions = Object.keys(Vencord.Plugins.plugins)
+        .filter(p => !mutedPlugins.includes(p))
+        .sort()
+        .map(p => ({ label: p, value: p }));
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>Do Not Disturb</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Notifications received while snoozed, during quiet hours or from muted plugins are not shown, but still saved in the Notification Log.
+            </Forms.FormText>
+
+            <Flex className={Margins.bottom16} style={{ alignItems: "center" }}>
+                {isSnoozed
+                    ? <>
+                        <Forms.FormText style={{ flexGrow: 1 }}>
+                            Snoozed until {new Date(snoozedUntil).toLocaleString()}
+                        </Forms.FormText>
+                        <Button size={Button.Sizes.SMALL} onClick={() => snoozeNotifications(0)}>
+                            Stop Snoozing
+                        </Button>
+                    </>
+                    : SNOOZE_DURATIONS.map(({ label, duration }) => (
+                        <Button key={duration} size={Button.Sizes.SMALL} onClick={() => snoozeNotifications(duration)}>
+                            Snooze for {label}
+                        </Button>
+                    ))
+                }
+            </Flex>
+
+            <Switch
+                value={quietHours.enabled}
+                onChange={v => quietHours.enabled = v}
+                note="Don't show notifications between these times every day"
+            >
+                Quiet Hours
+            </Switch>
+            <Flex className={Margins.bottom16} style={{ alignItems: "center" }}>
+                <Forms.FormText>From</Forms.FormText>
+                <TextInput
+                    type="time"
+                    disabled={!quietHours.enabled}
+                    value={quietHours.start}
+                    onChange={v => quietHours.start = v}
+                />
+                <Forms.FormText>to</Forms.FormText>
+                <TextInput
+                    type="time"
+                    disabled={!quietHours.enabled}
+                    value={quietHours.end}
+                    onChange={v => quietHours.end = v}
+                />
+            </Flex>
+
+            <Forms.FormTitle tag="h5" className={Margins.bottom8}>Muted Plugins</Forms.FormTitle>
+            <Select
+                placeholder="Mute notifications of a plugin"
+                options={pluginOptions}
+                isSelected={() => false}
+                select={p => setPluginMuted(p, true)}
+                serialize={identity}
+            />
+            {mutedPlugins.map(p => (
+                <Flex key={p} className={Margins.top8} style={{ alignItems: "center" }}>
+                    <Forms.FormText style={{ flexGrow: 1 }}>{p}</Forms.FormText>
+                    <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} onClick={() => setPluginMuted(p, false)}>
+                        Unmute
+                    </Button>
+                </Flex>
+            ))}
+        </>
+    );
+}
+
 export function openNotificationSettingsModal() {
     openModal(props => (
         <ModalRoot {...props} size={ModalSize.MEDIUM}>
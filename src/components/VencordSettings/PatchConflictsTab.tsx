@@ -0,0 +1,51 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { CodeBlock } from "@components/CodeBlock";
+import { Margins } from "@utils/margins";
+import { classes } from "@utils/misc";
+import { useForceUpdater } from "@utils/react";
+import { addPatchConflictListener, describePatchConflict, PatchConflict, patchConflicts, PatchConflictType } from "@webpack";
+import { Card, Forms, useEffect } from "@webpack/common";
+
+import { SettingsTab, wrapTab } from "./shared";
+
+function ConflictCard({ conflict }: { conflict: PatchConflict; }) {
+    return (
+        <Card className={classes("vc-settings-card", Margins.bottom8)}>
+            <Forms.FormTitle tag="h5">
+                {conflict.conflictingPlugin} → {conflict.plugin}
+            </Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                {describePatchConflict(conflict)}
+                {conflict.type === PatchConflictType.BrokenMatch && `, so ${conflict.plugin} may not work properly.`}
+                {conflict.type === PatchConflictType.Overlap && `, so ${conflict.conflictingPlugin} may not work properly.`}
+            </Forms.FormText>
+            <CodeBlock lang="js" content={conflict.match} />
+        </Card>
+    );
+}
+
+function PatchConflictsTab() {
+    const forceUpdate = useForceUpdater();
+    useEffect(() => addPatchConflictListener(forceUpdate), []);
+
+    return (
+        <SettingsTab title="Patch Conflicts">
+            <Forms.FormText className={Margins.bottom16}>
+                Plugins which patch the same part of Discord can break each other. These conflicts were found while
+                patching Discord since it was started. Disabling one of the plugins involved usually fixes the other one.
+            </Forms.FormText>
+
+            {patchConflicts.length === 0
+                ? <Forms.FormText>No conflicts found 🎉</Forms.FormText>
+                : patchConflicts.map((conflict, i) => <ConflictCard key={i} conflict={conflict} />)
+            }
+        </SettingsTab>
+    );
+}
+
+export default wrapTab(PatchConflictsTab, "Patch Conflicts");
@@ -19,10 +19,9 @@
 import { CodeBlock } from "@components/CodeBlock";
 import { debounce } from "@shared/debounce";
 import { Margins } from "@utils/margins";
-import { canonicalizeMatch, canonicalizeReplace } from "@utils/patches";
+import { generatePatchCode, generatePluginCode, ModuleTestResult, PatchTestResult, ReplacementStatus, TestPatch, testPatch } from "@utils/patchTesting";
 import { makeCodeblock } from "@utils/text";
 import { Patch, ReplaceFn } from "@utils/types";
-import { search } from "@webpack";
 import { Button, Clipboard, Forms, Parser, React, Switch, TextArea, TextInput } from "@webpack/common";
 
 import { SettingsTab, wrapTab } from "./shared";
@@ -32,131 +31,104 @@ if (IS_DEV) {
     var differ = require("diff") as typeof import("diff");
 }
 
-const findCandidates = debounce(function ({ find, setModule, setError }) {
-    const candidates = search(find);
-    const keys = Object.keys(candidates);
-    const len = keys.length;
-    if (len === 0)
-        setError("No match. Perhaps that module is lazy loaded?");
-    else if (len !== 1)
-        setError("Multiple matches. Please refine your filter");
-    else
-        setModule([keys[0], candidates[keys[0]]]);
-});
-
-interface ReplacementComponentProps {
-    module: [id: number, factory: Function];
+interface ReplacementState {
     match: string;
-    replacement: string | ReplaceFn;
-    setReplacementError(error: any): void;
+    replace: string | ReplaceFn;
 }
 
-function ReplacementComponent({ module, match, replacement, setReplacementError }: ReplacementComponentProps) {
-    const [id, fact] = module;
-    const [compileResult, setCompileResult] = React.useState<[boolean, string]>();
-
-    const [patchedCode, matchResult, diff] = React.useMemo(() => {
-        const src: string = fact.toString().replaceAll("\n", "");
-
-        try {
-            new RegExp(match);
-        } catch (e) {
-            return ["", [], []];
-        }
-        const canonicalMatch = canonicalizeMatch(new RegExp(match));
-        try {
-            const canonicalReplace = canonicalizeReplace(replacement, "YourPlugin");
-            var patched = src.replace(canonicalMatch, canonicalReplace as string);
-            setReplacementError(void 0);
-        } catch (e) {
-            setReplacementError((e as Error).message);
-            return ["", [], []];
-        }
-        const m = src.match(canonicalMatch);
-        return [patched, m, makeDiff(src, patched, m)];
-    }, [id, match, replacement]);
-
-    function makeDiff(original: string, patched: string, match: RegExpMatchArray | null) {
-        if (!match || original === patched) return null;
+const runTest = debounce(function ({ patch, setResult, setError }) {
+    try {
+        setResult(testPatch(patch));
+        setError(void 0);
+    } catch (e) {
+        setResult(void 0);
+        setError((e as Error).message);
+    }
+});
 
-        const changeSize = patched.length - original.length;
+/**
+ * Parses the match field, which is either the source of a regex or a full regex literal like /foo/g
+ */
+function parseMatch(match: string) {
+    const literal = /^\/(.+)\/([dgimsuy]*)$/.exec(match);
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(match);
+}
 
-        // Use 200 surrounding characters of context
-        const start = Math.max(0, match.index! - 200);
-        const end = Math.min(original.length, match.index! + match[0].length + 200);
-        // (changeSize may be negative)
-        const endPatched = end + changeSize;
+function stringifyMatch(match: string | RegExp) {
+    if (typeof match === "string") return match;
+    return match.flags ? match.toString() : match.source;
+}
 
-        const context = original.slice(start, end);
-        const patchedContext = patched.slice(start, endPatched);
+function makeDiff(original: string, patched: string) {
+    if (original === patched) return null;
 
-        return differ.diffWordsWithSpace(context, patchedContext);
-    }
+    let start = 0;
+    while (original[start] === patched[start]) start++;
 
-    function renderMatch() {
-        if (!matchResult)
-            return <Forms.FormText>Regex doesn't match!</Forms.FormText>;
+    let end = 0;
+    while (end < original.length - start && end < patched.length - start && original.at(-1 - end) === patched.at(-1 - end)) end++;
 
-        const fullMatch = matchResult[0] ? makeCodeblock(matchResult[0], "js") : "";
-        const groups = matchResult.length > 1
-            ? makeCodeblock(matchResult.slice(1).map((g, i) => `Group ${i + 1}: ${g}`).join("\n"), "yml")
-            : "";
+    // Use 200 surrounding characters of context
+    const contextStart = Math.max(0, start - 200);
+    const context = original.slice(contextStart, Math.min(original.length, original.length - end + 200));
+    const patchedContext = patched.slice(contextStart, Math.min(patched.length, patched.length - end + 200));
 
-        return (
-            <>
-                <div style={{ userSelect: "text" }}>{Parser.parse(fullMatch)}</div>
-                <div style={{ userSelect: "text" }}>{Parser.parse(groups)}</div>
-            </>
-        );
-    }
+    return differ.diffWordsWithSpace(context, patchedContext);
+}
 
-    function renderDiff() {
-        return diff?.map((p, idx) => {
-            const color = p.added ? "lime" : p.removed ? "red" : "grey";
-            return <div key={idx} style={{ color, userSelect: "text", wordBreak: "break-all", lineBreak: "anywhere" }}>{p.value}</div>;
-        });
+function ModuleResult({ result }: { result: ModuleTestResult; }) {
+    const { id, original, patched, replacements, groupUndone, compileError } = result;
+    const diff = React.useMemo(() => makeDiff(original, patched), [original, patched]);
+
+    function renderReplacement({ status, matched, error }: ModuleTestResult["replacements"][number], idx: number) {
+        switch (status) {
+            case ReplacementStatus.Applied:
+                return (
+                    <div key={idx} style={{ userSelect: "text" }}>
+                        <Forms.FormText>Replacement {idx + 1} matched:</Forms.FormText>
+                        {Parser.parse(makeCodeblock(matched ?? "", "js"))}
+                    </div>
+                );
+            case ReplacementStatus.NoEffect:
+                return <Forms.FormText key={idx} style={{ color: "var(--text-danger)" }}>Replacement {idx + 1} had no effect</Forms.FormText>;
+            case ReplacementStatus.Errored:
+                return <Forms.FormText key={idx} style={{ color: "var(--text-danger)" }}>Replacement {idx + 1} errored: {error}</Forms.FormText>;
+        }
     }
 
     return (
-        <>
+        <div className={Margins.top16}>
             <Forms.FormTitle>Module {id}</Forms.FormTitle>
 
-            {!!matchResult?.[0]?.length && (
-                <>
-                    <Forms.FormTitle>Match</Forms.FormTitle>
-                    {renderMatch()}
-                </>)
-            }
+            {replacements.map(renderReplacement)}
 
-            {!!diff?.length && (
-                <>
-                    <Forms.FormTitle>Diff</Forms.FormTitle>
-                    {renderDiff()}
-                </>
+            {groupUndone && (
+                <Forms.FormText style={{ color: "var(--text-danger)" }}>
+                    Not all replacements of this group applied, so all changes to this module were undone
+                </Forms.FormText>
             )}
 
-            {!!diff?.length && (
-                <Button className={Margins.top20} onClick={() => {
-                    try {
-                        Function(patchedCode.replace(/^function\(/, "function patchedModule("));
-                        setCompileResult([true, "Compiled successfully"]);
-                    } catch (err) {
-                        setCompileResult([false, (err as Error).message]);
-                    }
-                }}>Compile</Button>
+            {compileError && (
+                <Forms.FormText style={{ color: "var(--text-danger)" }}>
+                    The patched module doesn't compile: {compileError}
+                </Forms.FormText>
             )}
 
-            {compileResult &&
-                <Forms.FormText style={{ color: compileResult[0] ? "var(--text-positive)" : "var(--text-danger)" }}>
-                    {compileResult[1]}
-                </Forms.FormText>
-            }
-        </>
+            {!!diff?.length && (
+                <>
+                    <Forms.FormTitle className={Margins.top8}>Diff</Forms.FormTitle>
+                    {diff.map((p, idx) => {
+                        const color = p.added ? "lime" : p.removed ? "red" : "grey";
+                        return <div key={idx} style={{ color, userSelect: "text", wordBreak: "break-all", lineBreak: "anywhere" }}>{p.value}</div>;
+                    })}
+                </>
+            )}
+        </div>
     );
 }
 
 function ReplacementInput({ replacement, setReplacement, replacementError }) {
-    const [isFunc, setIsFunc] = React.useState(false);
+    const [isFunc, setIsFunc] = React.useState(typeof replacement === "function");
     const [error, setError] = React.useState<string>();
 
     function onChange(v: string) {
@@ -179,7 +151,7 @@ function ReplacementInput({ replacement, setReplacement, replacementError }) {
     }
 
     React.useEffect(
-        () => void (isFunc ? onChange(replacement) : setError(void 0)),
+        () => void (isFunc ? onChange(replacement.toString()) : setError(void 0)),
         [isFunc]
     );
 
@@ -226,12 +198,12 @@ function ReplacementInput({ replacement, setReplacement, replacementError }) {
 
 interface FullPatchInputProps {
     setFind(v: string): void;
-    setParsedFind(v: string | RegExp): void;
-    setMatch(v: string): void;
-    setReplacement(v: string | ReplaceFn): void;
+    setReplacements(v: ReplacementState[]): void;
+    setAll(v: boolean): void;
+    setGroup(v: boolean): void;
 }
 
-function FullPatchInput({ setFind, setParsedFind, setMatch, setReplacement }: FullPatchInputProps) {
+function FullPatchInput({ setFind, setReplacements, setAll, setGroup }: FullPatchInputProps) {
     const [fullPatch, setFullPatch] = React.useState<string>("");
     const [fullPatchError, setFullPatchError] = React.useState<string>("");
 
@@ -240,9 +212,9 @@ function FullPatchInput({ setFind, setParsedFind, setMatch, setReplacement }: Fu
             setFullPatchError("");
 
             setFind("");
-            setParsedFind("");
-            setMatch("");
-            setReplacement("");
+            setReplacements([{ match: "", replace: "" }]);
+            setAll(false);
+            setGroup(false);
             return;
         }
 
@@ -252,22 +224,18 @@ function FullPatchInput({ setFind, setParsedFind, setMatch, setReplacement }: Fu
             if (!parsed.find) throw new Error("No 'find' field");
             if (!parsed.replacement) throw new Error("No 'replacement' field");
 
-            if (parsed.replacement instanceof Array) {
-                if (parsed.replacement.length === 0) throw new Error("Invalid replacement");
+            const replacements = Array.isArray(parsed.replacement) ? parsed.replacement : [parsed.replacement];
+            if (replacements.length === 0) throw new Error("Invalid replacement");
 
-                parsed.replacement = {
-                    match: parsed.replacement[0].match,
-                    replace: parsed.replacement[0].replace
-                };
+            for (const { match, replace } of replacements) {
+                if (!match) throw new Error("No 'replacement.match' field");
+                if (!replace) throw new Error("No 'replacement.replace' field");
             }
 
-            if (!parsed.replacement.match) throw new Error("No 'replacement.match' field");
-            if (!parsed.replacement.replace) throw new Error("No 'replacement.replace' field");
-
             setFind(parsed.find instanceof RegExp ? parsed.find.toString() : parsed.find);
-            setParsedFind(parsed.find);
-            setMatch(parsed.replacement.match instanceof RegExp ? parsed.replacement.match.source : parsed.replacement.match);
-            setReplacement(parsed.replacement.replace);
+            setReplacements(replacements.map(({ match, replace }) => ({ match: stringifyMatch(match), replace })));
+            setAll(!!parsed.all);
+            setGroup(!!parsed.group);
             setFullPatchError("");
         } catch (e) {
             setFullPatchError((e as Error).message);
@@ -284,26 +252,40 @@ function FullPatchInput({ setFind, setParsedFind, setMatch, setReplacement }: Fu
 function PatchHelper() {
     const [find, setFind] = React.useState<string>("");
     const [parsedFind, setParsedFind] = React.useState<string | RegExp>("");
-    const [match, setMatch] = React.useState<string>("");
-    const [replacement, setReplacement] = React.useState<string | ReplaceFn>("");
+    const [replacements, setReplacements] = React.useState<ReplacementState[]>([{ match: "", replace: "" }]);
+    const [all, setAll] = React.useState(false);
+    const [group, setGroup] = React.useState(false);
 
-    const [replacementError, setReplacementError] = React.useState<string>();
-
-    const [module, setModule] = React.useState<[number, Function]>();
     const [findError, setFindError] = React.useState<string>();
-    const [matchError, setMatchError] = React.useState<string>();
-
-    const code = React.useMemo(() => {
-        return `
-{
-    find: ${parsedFind instanceof RegExp ? parsedFind.toString() : JSON.stringify(parsedFind)},
-    replacement: {
-        match: /${match.replace(/(?<!\\)\//g, "\\/")}/,
-        replace: ${typeof replacement === "function" ? replacement.toString() : JSON.stringify(replacement)}
-    }
-}
-        `.trim();
-    }, [parsedFind, match, replacement]);
+    const [testError, setTestError] = React.useState<string>();
+    const [result, setResult] = React.useState<PatchTestResult>();
+    const [pluginCode, setPluginCode] = React.useState<string>();
+
+    const [patch, matchErrors] = React.useMemo(() => {
+        const matchErrors = [] as Array<string | undefined>;
+        const replacement = [] as TestPatch["replacement"];
+
+        for (const { match, replace } of replacements) {
+            try {
+                replacement.push({ match: parseMatch(match), replace });
+                matchErrors.push(match ? void 0 : "Match is empty");
+            } catch (e) {
+                matchErrors.push((e as Error).message);
+            }
+        }
+
+        const isValid = parsedFind !== "" && !findError && matchErrors.every(e => e == null) && replacements.every(r => r.replace !== "");
+        return [isValid ? { find: parsedFind, replacement, all, group } satisfies TestPatch : null, matchErrors] as const;
+    }, [parsedFind, findError, replacements, all, group]);
+
+    const code = React.useMemo(() => patch && generatePatchCode(patch), [patch]);
+
+    React.useEffect(() => {
+        setPluginCode(void 0);
+
+        if (patch) runTest({ patch, setResult, setError: setTestError });
+        else setResult(void 0);
+    }, [patch]);
 
     function onFindChange(v: string) {
         setFind(v);
@@ -314,24 +296,34 @@ function PatchHelper() {
 
             setFindError(void 0);
             setParsedFind(parsedFind);
-
-            if (v.length) {
-                findCandidates({ find: parsedFind, setModule, setError: setFindError });
-            }
         } catch (e: any) {
             setFindError((e as Error).message);
         }
     }
 
-    function onMatchChange(v: string) {
-        setMatch(v);
+    function updateReplacement(idx: number, changes: Partial<ReplacementState>) {
+        setReplacements(replacements.map((r, i) => i === idx ? { ...r, ...changes } : r));
+    }
 
-        try {
-            new RegExp(v);
-            setMatchError(void 0);
-        } catch (e: any) {
-            setMatchError((e as Error).message);
-        }
+    function renderResult() {
+        if (testError)
+            return <Forms.FormText style={{ color: "var(--text-danger)" }}>{testError}</Forms.FormText>;
+        if (!result)
+            return null;
+        if (!result.modules.length)
+            return <Forms.FormText style={{ color: "var(--text-danger)" }}>No match. Perhaps that module is lazy loaded?</Forms.FormText>;
+
+        return (
+            <>
+                {result.skipped.length > 0 && (
+                    <Forms.FormText style={{ color: "var(--text-warning)" }}>
+                        The find also matches {result.skipped.length} other module(s) ({result.skipped.join(", ")}).
+                        Only the first one is patched unless you refine your find or enable 'all'
+                    </Forms.FormText>
+                )}
+                {result.modules.map(m => <ModuleResult key={m.id} result={m} />)}
+            </>
+        );
     }
 
     return (
@@ -339,9 +331,9 @@ function PatchHelper() {
             <Forms.FormTitle>full patch</Forms.FormTitle>
             <FullPatchInput
                 setFind={onFindChange}
-                setParsedFind={setParsedFind}
-                setMatch={onMatchChange}
-                setReplacement={setReplacement}
+                setReplacements={setReplacements}
+                setAll={setAll}
+                setGroup={setGroup}
             />
 
             <Forms.FormTitle className={Margins.top8}>find</Forms.FormTitle>
@@ -352,37 +344,91 @@ function PatchHelper() {
                 error={findError}
             />
 
-            <Forms.FormTitle className={Margins.top8}>match</Forms.FormTitle>
-            <TextInput
-                type="text"
-                value={match}
-                onChange={onMatchChange}
-                error={matchError}
-            />
+            <Switch
+                className={Margins.top8}
+                value={all}
+                onChange={setAll}
+                note="Apply the patch to every module the find matches, instead of only the first one"
+                hideBorder={true}
+            >
+                all
+            </Switch>
+            <Switch
+                value={group}
+                onChange={setGroup}
+                note="Undo all replacements in a module if any of them fails"
+                hideBorder={true}
+            >
+                group
+            </Switch>
 
-            <div className={Margins.top8} />
-            <ReplacementInput
-                replacement={replacement}
-                setReplacement={setReplacement}
-                replacementError={replacementError}
-            />
+            {replacements.map((r, idx) => (
+                // The inputs keep state, so removing a replacement before the last one resets the ones after it
+                <React.Fragment key={`${idx}-${replacements.length}`}>
+                    <Forms.FormDivider className={Margins.bottom8} />
+                    <Forms.FormTitle className={Margins.top8}>match {replacements.length > 1 && idx + 1}</Forms.FormTitle>
+                    <TextInput
+                        type="text"
+                        value={r.match}
+                        onChange={v => updateReplacement(idx, { match: v })}
+                        error={r.match ? matchErrors[idx] : void 0}
+                    />
+
+                    <div className={Margins.top8} />
+                    <ReplacementInput
+                        replacement={r.replace}
+                        setReplacement={(v: string | ReplaceFn) => updateReplacement(idx, { replace: v })}
+                        replacementError={result?.modules.map(m => m.replacements[idx]?.error).find(Boolean)}
+                    />
+
+                    {replacements.length > 1 && (
+                        <Button
+                            className={Margins.bottom8}
+                            color={Button.Colors.RED}
+                            size={Button.Sizes.SMALL}
+                            onClick={() => setReplacements(replacements.filter((_, i) => i !== idx))}
+                        >
+                            Remove Replacement
+                        </Button>
+                    )}
+                </React.Fragment>
+            ))}
+
+            <Button
+                className={Margins.top8}
+                size={Button.Sizes.SMALL}
+                onClick={() => setReplacements([...replacements, { match: "", replace: "" }])}
+            >
+                Add Replacement
+            </Button>
 
-            <Forms.FormDivider />
-            {module && (
-                <ReplacementComponent
-                    module={module}
-                    match={match}
-                    replacement={replacement}
-                    setReplacementError={setReplacementError}
-                />
-            )}
+            <Forms.FormDivider className={Margins.top8} />
+            {renderResult()}
 
-            {!!(find && match && replacement) && (
+            {code && (
                 <>
                     <Forms.FormTitle className={Margins.top20}>Code</Forms.FormTitle>
                     <CodeBlock lang="js" content={code} />
                     <Button onClick={() => Clipboard.copy(code)}>Copy to Clipboard</Button>
                     <Button className={Margins.top8} onClick={() => Clipboard.copy("```ts\n" + code + "\n```")}>Copy as Codeblock</Button>
+                    <Button
+                        className={Margins.top8}
+                        disabled={!result?.modules.length}
+                        onClick={() => setPluginCode(generatePluginCode(patch!, result!.modules.map(m => m.original)))}
+                    >
+                        Generate Plugin Skeleton
+                    </Button>
+                </>
+            )}
+
+            {pluginCode && (
+                <>
+                    <Forms.FormTitle className={Margins.top20}>Plugin</Forms.FormTitle>
+                    <Forms.FormText className={Margins.bottom8}>
+                        Literal minified names in the matches were replaced with \i wherever that still matches the same code
+                    </Forms.FormText>
+                    <CodeBlock lang="ts" content={pluginCode} />
+                    <Button onClick={() => Clipboard.copy(pluginCode)}>Copy to Clipboard</Button>
                 </>
             )}
         </SettingsTab>
@@ -0,0 +1,198 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import "./patchInspector.css";
+
+import { classNameFactory } from "@api/Styles";
+import { Flex } from "@components/Flex";
+import { Margins } from "@utils/margins";
+import { classes } from "@utils/misc";
+import { ModalCloseButton, ModalContent, ModalHeader, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { useForceUpdater } from "@utils/react";
+import { addPatchedModuleListener, getOriginalSource, getPatchedSource, getPatchingPlugins, PatchedModuleRecord, patchedModules, ReplacementRecord, ReplacementRecordStatus } from "@webpack";
+import { Button, Card, Clipboard, Forms, Select, showToast, Text, TextInput, Toasts, useEffect, useMemo, useState } from "@webpack/common";
+
+import { SettingsTab, wrapTab } from "./shared";
+
+const cl = classNameFactory("vc-patch-inspector-");
+
+// Rendering hundreds of modules makes the tab lag, the search is the way to find the rest
+const MAX_SHOWN_MODULES = 50;
+
+const enum ModuleStatusFilter {
+    ALL,
+    PATCHED,
+    FAILED,
+    UNCHANGED
+}
+
+const STATUS_LABELS: Record<ReplacementRecordStatus, string> = {
+    [ReplacementRecordStatus.Applied]: "Applied",
+    [ReplacementRecordStatus.NoEffect]: "No effect",
+    [ReplacementRecordStatus.Errored]: "Errored",
+    [ReplacementRecordStatus.Undone]: "Undone (group)"
+};
+
+const isPatched = (record: PatchedModuleRecord) => record.replacements.some(r => r.status === ReplacementRecordStatus.Applied);
+const hasFailures = (record: PatchedModuleRecord) => record.replacements.some(r => r.status !== ReplacementRecordStatus.Applied);
+
+function matchesFilter(record: PatchedModuleRecord, query: string, status: ModuleStatusFilter) {
+    switch (status) {
+        case ModuleStatusFilter.PATCHED:
+            if (!isPatched(record)) return false;
+            break;
+        case ModuleStatusFilter.FAILED:
+            if (!hasFailures(record)) return false;
+            break;
+        case ModuleStatusFilter.UNCHANGED:
+            if (isPatched(record)) return false;
+            break;
+    }
+
+    if (!query) return true;
+
+    return record.moduleId === query || record.replacements.some(r =>
+        r.plugin.toLowerCase().includes(query) || r.match.toLowerCase().includes(query)
+    );
+}
+
+function ReplacementDiff({ replacement }: { replacement: ReplacementRecord; }) {
+    const { hunk } = replacement;
+    if (!hunk) return null;
+
+    return (
+        <pre className={cl("diff")}>
+            <span className={cl("context")}>{hunk.before}</span>
+            <span className={cl("removed")}>{hunk.removed}</span>
+            <span className={cl("added")}>{hunk.added}</span>
+            <span className={cl("context")}>{hunk.after}</span>
+        </pre>
+    );
+}
+
+function openDiffModal(record: PatchedModuleRecord) {
+    const applied = record.replacements.filter(r => r.hunk != null);
+
+    openModal(props => (
+        <ModalRoot {...props} size={ModalSize.LARGE}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Changes to module {record.moduleId}</Text>
+                <ModalCloseButton onClick={props.onClose} />
+            </ModalHeader>
+
+            <ModalContent>
+                <Forms.FormText className={Margins.top8}>
+                    Every replacement is shown on the code as it was right before it was applied, so later replacements include the changes of earlier ones.
+                </Forms.FormText>
+                {applied.map((replacement, i) => (
+                    <div key={i} className={Margins.top16}>
+                        <Forms.FormTitle tag="h5">
+                            {replacement.plugin}
+                            {replacement.status === ReplacementRecordStatus.Undone && ` (${STATUS_LABELS[replacement.status]})`}
+                        </Forms.FormTitle>
+                        <code className={cl("match")}>{replacement.match}</code>
+                        <ReplacementDiff replacement={replacement} />
+                    </div>
+                ))}
+            </ModalContent>
+        </ModalRoot>
+    ));
+}
+
+function copySource(source: string, name: string) {
+    Clipboard.copy(source);
+    showToast(`Copied ${name} source to the clipboard`, Toasts.Type.SUCCESS);
+}
+
+function ModuleCard({ record }: { record: PatchedModuleRecord; }) {
+    const plugins = getPatchingPlugins(record);
+
+    return (
+        <Card className={classes("vc-settings-card", Margins.bottom8)}>
+            <Forms.FormTitle tag="h5">
+                Module {record.moduleId}
+                {plugins.length > 0 && ` · Patched by ${plugins.join(", ")}`}
+            </Forms.FormTitle>
+
+            {record.replacements.map((replacement, i) => (
+                <div key={i} className={cl("replacement")}>
+                    <span className={cl("status", replacement.status)}>{STATUS_LABELS[replacement.status]}</span>
+                    <span>{replacement.plugin}</span>
+                    <code className={cl("match")}>{replacement.match}</code>
+                    {replacement.error && <span className={cl("error")}>{replacement.error}</span>}
+                </div>
+            ))}
+
+            <Flex className={Margins.top8}>
+                <Button size={Button.Sizes.SMALL} disabled={!isPatched(record)} onClick={() => openDiffModal(record)}>
+                    Open Diff
+                </Button>
+                <Button size={Button.Sizes.SMALL} disabled={!isPatched(record)} onClick={() => copySource(getPatchedSource(record), "patched")}>
+                    Copy Patched Source
+                </Button>
+                <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} onClick={() => copySource(getOriginalSource(record), "original")}>
+                    Copy Original Source
+                </Button>
+            </Flex>
+        </Card>
+    );
+}
+
+function PatchInspectorTab() {
+    const forceUpdate = useForceUpdater();
+    useEffect(() => addPatchedModuleListener(forceUpdate), []);
+
+    const [query, setQuery] = useState("");
+    const [status, setStatus] = useState(ModuleStatusFilter.ALL);
+
+    const records = [...patchedModules.values()];
+    const filtered = useMemo(
+        () => records.filter(r => matchesFilter(r, query.trim().toLowerCase(), status)),
+        [records.length, query, status]
+    );
+
+    return (
+        <SettingsTab title="Patch Inspector">
+            <Forms.FormText className={Margins.bottom16}>
+                Every Discord module which plugins tried to patch since Discord was started, and what each replacement did.
+                When something broke after a Discord update, this shows which patches no longer apply.
+            </Forms.FormText>
+
+            <Forms.FormText className={Margins.bottom8}>
+                {records.length} modules, {records.filter(isPatched).length} patched, {records.filter(hasFailures).length} with failed replacements
+            </Forms.FormText>
+
+            <div className={classes(Margins.bottom20, cl("filter-controls"))}>
+                <TextInput value={query} placeholder="Search by module id, plugin or match..." onChange={setQuery} />
+                <Select
+                    options={[
+                        { label: "Show All", value: ModuleStatusFilter.ALL, default: true },
+                        { label: "Show Patched", value: ModuleStatusFilter.PATCHED },
+                        { label: "Show Failed", value: ModuleStatusFilter.FAILED },
+                        { label: "Show Unchanged", value: ModuleStatusFilter.UNCHANGED }
+                    ]}
+                    serialize={String}
+                    select={setStatus}
+                    isSelected={v => v === status}
+                    closeOnSelect={true}
+                />
+            </div>
+
+            {filtered.length === 0
+                ? <Forms.FormText>No modules found</Forms.FormText>
+                : filtered.slice(0, MAX_SHOWN_MODULES).map(record => <ModuleCard key={record.moduleId} record={record} />)
+            }
+
+            {filtered.length > MAX_SHOWN_MODULES && (
+                <Forms.FormText>
+                    {filtered.length - MAX_SHOWN_MODULES} more modules aren't shown, refine your search to find them
+                </Forms.FormText>
+            )}
+        </SettingsTab>
+    );
+}
+
+export default wrapTab(PatchInspectorTab, "Patch Inspector");
@@ -0,0 +1,134 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { showNotification } from "@api/Notifications";
+import { applyProfile, deleteProfile, saveProfile, useProfiles } from "@api/SettingsProfiles";
+import { Flex } from "@components/Flex";
+import { Margins } from "@utils/margins";
+import { relaunch } from "@utils/native";
+import { Button, Card, Forms, Select, TextInput, Toasts, useState } from "@webpack/common";
+
+/**
+ * Switches to a profile and lets the user know whether anything still needs a restart
+ */
+export async function switchProfile(name: string) {
+    try {
+        const { restartNeeded, failed } = await applyProfile(name);
+
+        if (failed.length) {
+            showNotification({
+                title: "Settings Profiles",
+                body: `Switched to ${name}, but failed to toggle ${failed.join(", ")}. Check the console for details.`,
+                color: "var(--red-360)"
+            });
+        } else if (restartNeeded.length) {
+            showNotification({
+                title: "Settings Profiles",
+                body: `Switched to ${name}. Click here to restart to apply changes to ${restartNeeded.join(", ")}!`,
+                color: "var(--yellow-360)",
+                onClick: IS_WEB ? () => location.reload() : relaunch,
+                noPersist: true
+            });
+        } else {
+            Toasts.show({
+                message: `Switched to ${name}`,
+                type: Toasts.Type.SUCCESS,
+                id: Toasts.genId()
+            });
+        }
+    } catch (err) {
+        Toasts.show({
+            message: `Failed to switch profile: ${String(err)}`,
+            type: Toasts.Type.FAILURE,
+            id: Toasts.genId()
+        });
+    }
+}
+
+export function SettingsProfilesSection() {
+    const { active, profiles, restartNeeded } = useProfiles();
+    const [selected, setSelected] = useState<string | null>(null);
+    const [newName, setNewName] = useState("");
+
+    const current = selected ?? active;
+
+    return (
+        <Forms.FormSection className={Margins.top16} title="Settings Profiles" tag="h5">
+            <Forms.FormText className={Margins.bottom8}>
+                Profiles save which plugins are enabled along with their settings, your enabled themes and QuickCSS,
+                so you can switch between different setups. Plugins which patch Discord need a restart to be toggled.
+            </Forms.FormText>
+
+            {profiles.length > 0 && (
+                <Flex className={Margins.bottom8} style={{ alignItems: "center" }}>
+                    <div style={{ flexGrow: 1 }}>
+                        <Select
+                            placeholder="Select a profile"
+                            options={profiles.map(p => ({ label: p.name === active ? `${p.name} (active)` : p.name, value: p.name }))}
+                            isSelected={v => v === current}
+                            select={setSelected}
+                            serialize={String}
+                        />
+                    </div>
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        disabled={!current}
+                        onClick={() => switchProfile(current!)}
+                    >
+                        Switch
+                    </Button>
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        color={Button.Colors.RED}
+                        disabled={!current}
+                        onClick={() => {
+                            deleteProfile(current!);
+                            setSelected(null);
+                        }}
+                    >
+                        Delete
+                    </Button>
+                </Flex>
+            )}
+
+            <Flex className={Margins.bottom8} style={{ alignItems: "center" }}>
+                <div style={{ flexGrow: 1 }}>
+                    <TextInput
+                        placeholder="Profile name, e.g. Streaming"
+                        value={newName}
+                        onChange={setNewName}
+                    />
+                </div>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    disabled={!newName.trim()}
+                    onClick={async () => {
+                        await saveProfile(newName);
+                        setNewName("");
+                        setSelected(null);
+                    }}
+                >
+                    {profiles.some(p => p.name === newName.trim()) ? "Overwrite Profile" : "Save Current Setup"}
+                </Button>
+            </Flex>
+
+            {restartNeeded.length > 0 && (
+                <Card className="vc-settings-card">
+                    <Forms.FormTitle tag="h5">Restart required</Forms.FormTitle>
+                    <Forms.FormText className={Margins.bottom8}>
+                        These plugins were toggled by switching profiles and need a restart to apply: {restartNeeded.join(", ")}
+                    </Forms.FormText>
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        onClick={IS_WEB ? () => location.reload() : relaunch}
+                    >
+                        Restart Now
+                    </Button>
+                </Card>
+            )}
+        </Forms.FormSection>
+    );
+}
@@ -0,0 +1,142 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { Badge } from "@components/Badge";
+import { Flex } from "@components/Flex";
+import { DiffLine, diffLines } from "@utils/lineDiff";
+import { Margins } from "@utils/margins";
+import { ModalCloseButton, ModalContent, ModalHeader, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { acceptThemeUpdate, checkThemeUpdates, getThemeLinkUrl, setThemeLinkPinned, ThemeLinkState, useThemeLinkStates } from "@utils/themeUpdates";
+import { Button, Card, Forms, showToast, Text, Toasts, useMemo, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-settings-theme-update-");
+
+// Unchanged lines further than this from a change are collapsed
+const DIFF_CONTEXT = 3;
+
+type DiffChunk = DiffLine | { type: "collapsed"; count: number; };
+
+function collapseUnchanged(lines: DiffLine[]) {
+    const isNearChange = (i: number) =>
+        lines.slice(Math.max(0, i - DIFF_CONTEXT), i + DIFF_CONTEXT + 1).some(l => l.type !== "unchanged");
+
+    const chunks = [] as DiffChunk[];
+    lines.forEach((line, i) => {
+        if (line.type !== "unchanged" || isNearChange(i)) return void chunks.push(line);
+
+        const last = chunks[chunks.length - 1];
+        if (last?.type === "collapsed") last.count++;
+        else chunks.push({ type: "collapsed", count: 1 });
+    });
+    return chunks;
+}
+
+function ThemeDiff({ oldCss, newCss }: { oldCss: string; newCss: string; }) {
+    const chunks = useMemo(() => collapseUnchanged(diffLines(oldCss, newCss)), [oldCss, newCss]);
+
+    return (
+        <pre className={cl("diff")}>
+            {chunks.map((chunk, i) => chunk.type === "collapsed"
+                ? <div key={i} className={cl("collapsed")}>{`… ${chunk.count} unchanged line${chunk.count === 1 ? "" : "s"}`}</div>
+                : <div key={i} className={cl(chunk.type)}>{`${chunk.type === "added" ? "+" : chunk.type === "removed" ? "-" : " "} ${chunk.text}`}</div>
+            )}
+        </pre>
+    );
+}
+
+function openThemeDiffModal(url: string, state: ThemeLinkState) {
+    openModal(props => (
+        <ModalRoot {...props} size={ModalSize.LARGE}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Changes to {url}</Text>
+                <ModalCloseButton onClick={props.onClose} />
+            </ModalHeader>
+
+            <ModalContent>
+                <ThemeDiff oldCss={state.css} newCss={state.update!.css} />
+            </ModalContent>
+        </ModalRoot>
+    ));
+}
+
+function describeVersion({ version, hash }: { version?: string; hash: string; }) {
+    return `${version ? `v${version} · ` : ""}${hash.slice(0, 8)}`;
+}
+
+function ThemeLinkUpdateCard({ url, state }: { url: string; state?: ThemeLinkState; }) {
+    return (
+        <Card className={cl("card")}>
+            <Flex style={{ alignItems: "center" }}>
+                <Forms.FormTitle tag="h5" className={cl("url")}>{url}</Forms.FormTitle>
+                {state?.update && <Badge text="UPDATE AVAILABLE" color="var(--status-positive)" />}
+            </Flex>
+
+            {!state
+                ? <Forms.FormText>Not checked yet</Forms.FormText>
+                : <>
+                    <Forms.FormText>
+                        {state.pinned ? "Pinned to " : "Current version: "}{describeVersion(state)}
+                        {state.update && <> → {describeVersion(state.update)}</>}
+                    </Forms.FormText>
+
+                    <Flex className={Margins.top8}>
+                        {state.update && <>
+                            <Button size={Button.Sizes.SMALL} onClick={() => openThemeDiffModal(url, state)}>
+                                View Changes
+                            </Button>
+                            <Button size={Button.Sizes.SMALL} color={Button.Colors.GREEN} onClick={() => acceptThemeUpdate(url)}>
+                                {state.pinned ? "Move Pin to Latest" : "Mark as Seen"}
+                            </Button>
+                        </>}
+                        <Button
+                            size={Button.Sizes.SMALL}
+                            color={state.pinned ? Button.Colors.RED : Button.Colors.PRIMARY}
+                            onClick={() => setThemeLinkPinned(url, !state.pinned)}
+                        >
+                            {state.pinned ? "Unpin" : "Pin This Version"}
+                        </Button>
+                    </Flex>
+                </>
+            }
+        </Card>
+    );
+}
+
+export function ThemeLinkUpdates({ themeLinks }: { themeLinks: string[]; }) {
+    const [states] = useThemeLinkStates();
+    const [checking, setChecking] = useState(false);
+
+    if (!themeLinks.length) return null;
+
+    const urls = [...new Set(themeLinks.map(getThemeLinkUrl))];
+
+    async function check() {
+        setChecking(true);
+        try {
+            const updates = await checkThemeUpdates();
+            showToast(updates ? `${updates} theme update${updates === 1 ? "" : "s"} available` : "All themes are up to date", Toasts.Type.SUCCESS);
+        } catch (err) {
+            showToast(`Failed to check for updates: ${String(err)}`, Toasts.Type.FAILURE);
+        } finally {
+            setChecking(false);
+        }
+    }
+
+    return (
+        <>
+            <Forms.FormTitle className={Margins.top20} tag="h5">Updates</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Online themes are checked for changes every 30 minutes. Pin a theme to keep using the version you have now,
+                even if the link starts serving something else.
+            </Forms.FormText>
+            <Button size={Button.Sizes.SMALL} className={Margins.bottom8} disabled={checking} onClick={check}>
+                {checking ? "Checking..." : "Check for Updates"}
+            </Button>
+            {urls.map(url => <ThemeLinkUpdateCard key={url} url={url} state={states[url]} />)}
+        </>
+    );
+}
@@ -0,0 +1,140 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { useSettings } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import { Switch } from "@components/Switch";
+import type { ThemeVariable, ThemeVariableValue, UserThemeHeader } from "@main/themes";
+import { clampThemeNumber, formatThemeVariable } from "@utils/quickCss";
+import { Button, Forms, Select, Slider, TextInput } from "@webpack/common";
+
+const cl = classNameFactory("vc-settings-theme-vars-");
+
+interface VariableInputProps<V extends ThemeVariable = ThemeVariable> {
+    variable: V;
+    value: V["default"];
+    setValue(value: V["default"]): void;
+}
+
+function ColorInput({ variable, value, setValue }: VariableInputProps<ThemeVariable & { type: "color"; }>) {
+    return (
+        <div className={cl("color")}>
+            {/* The native picker only understands hex colors, anything else can still be typed in */}
+            <input
+                type="color"
+                className={cl("swatch")}
+                value={/^#[\da-f]{6}$/i.test(value) ? value : "#000000"}
+                onChange={e => setValue(e.currentTarget.value)}
+            />
+            <TextInput
+                value={value}
+                placeholder={variable.default}
+                onChange={setValue}
+                error={formatThemeVariable(variable, value) == null ? "Invalid color" : undefined}
+            />
+        </div>
+    );
+}
+
+function NumberInput({ variable, value, setValue }: VariableInputProps<ThemeVariable & { type: "number"; }>) {
+    const { min, max, step, unit = "" } = variable;
+
+    if (min != null && max != null)
+        return (
+            <Slider
+                minValue={min}
+                maxValue={max}
+                initialValue={clampThemeNumber(variable, value)}
+                markers={[min, max]}
+                stickToMarkers={false}
+                onValueChange={v => setValue(step ? Math.round(v / step) * step : v)}
+                onValueRender={v => `${step ? Math.round(v / step) * step : v.toFixed(2)}${unit}`}
+                onMarkerRender={v => `${v}${unit}`}
+            />
+        );
+
+    return (
+        <TextInput
+            type="number"
+            value={String(value)}
+            step={step}
+            min={min}
+            max={max}
+            onChange={v => {
+                const n = Number(v);
+                if (v !== "" && isFinite(n)) setValue(clampThemeNumber(variable, n));
+            }}
+        />
+    );
+}
+
+function VariableInput(props: VariableInputProps) {
+    const { variable, value, setValue } = props;
+
+    switch (variable.type) {
+        case "color":
+            return <ColorInput {...props as VariableInputProps<typeof variable>} />;
+        case "number":
+            return <NumberInput {...props as VariableInputProps<typeof variable>} />;
+        case "select":
+            return (
+                <Select
+                    options={variable.options}
+                    isSelected={v => v === value}
+                    select={setValue}
+                    serialize={String}
+                />
+            );
+        case "boolean":
+            return <Switch checked={value as boolean} onChange={setValue} />;
+    }
+}
+
+export function ThemeVariablesEditor({ theme }: { theme: UserThemeHeader; }) {
+    const settings = useSettings([["themeVariables"]]);
+    const overrides = settings.themeVariables[theme.fileName] ?? {};
+
+    function setOverrides(newOverrides: Record<string, ThemeVariableValue>) {
+        const { [theme.fileName]: _, ...rest } = settings.themeVariables;
+        settings.themeVariables = Object.keys(newOverrides).length
+            ? { ...rest, [theme.fileName]: newOverrides }
+            : rest;
+    }
+
+    return (
+        <div className={cl("editor")}>
+            {theme.vars.map(variable => {
+                const isOverridden = Object.hasOwn(overrides, variable.name);
+
+                return (
+                    <div key={variable.name} className={cl("variable")}>
+                        <Forms.FormTitle tag="h5" className={cl("label")}>
+                            {variable.label}
+                            {isOverridden && (
+                                <Button
+                                    size={Button.Sizes.NONE}
+                                    look={Button.Looks.LINK}
+                                    color={Button.Colors.LINK}
+                                    onClick={() => {
+                                        const { [variable.name]: _, ...rest } = overrides;
+                                        setOverrides(rest);
+                                    }}
+                                >
+                                    Reset
+                                </Button>
+                            )}
+                        </Forms.FormTitle>
+                        <VariableInput
+                            variable={variable}
+                            value={isOverridden ? overrides[variable.name] : variable.default}
+                            setValue={value => setOverrides({ ...overrides, [variable.name]: value })}
+                        />
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
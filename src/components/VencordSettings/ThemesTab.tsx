@@ -36,6 +36,8 @@ import Plugins from "~plugins";
 import { AddonCard } from "./AddonCard";
 import { QuickAction, QuickActionCard } from "./quickActions";
 import { SettingsTab, wrapTab } from "./shared";
+import { ThemeLinkUpdates } from "./ThemeUpdates";
+import { ThemeVariablesEditor } from "./ThemeVariables";
 
 type FileInput = ComponentType<{
     ref: Ref<HTMLInputElement>;
@@ -112,6 +114,8 @@ interface ThemeCardProps {
 }
 
 function ThemeCard({ theme, enabled, onChange, onDelete }: ThemeCardProps) {
+    const [showVariables, setShowVariables] = useState(false);
+
     return (
         <AddonCard
             name={theme.name}
@@ -126,8 +130,20 @@ function ThemeCard({ theme, enabled, onChange, onDelete }: ThemeCardProps) {
                     </div>
                 )
             }
-            footer={
+            footer={<>
                 <Flex flexDirection="row" style={{ gap: "0.2em" }}>
+                    {theme.vars.length > 0 && (
+                        <Link
+                            href="#"
+                            onClick={e => {
+                                e.preventDefault();
+                                setShowVariables(v => !v);
+                            }}
+                        >
+                            {showVariables ? "Hide Variables" : `Customize (${theme.vars.length})`}
+                        </Link>
+                    )}
+                    {theme.vars.length > 0 && !!(theme.website || theme.invite) && " • "}
                     {!!theme.website && <Link href={theme.website}>Website</Link>}
                     {!!(theme.website && theme.invite) && " • "}
                     {!!theme.invite && (
@@ -142,7 +158,8 @@ function ThemeCard({ theme, enabled, onChange, onDelete }: ThemeCardProps) {
                         </Link>
                     )}
                 </Flex>
-            }
+                {showVariables && <ThemeVariablesEditor theme={theme} />}
+            </>}
         />
     );
 }
@@ -319,6 +336,7 @@ function ThemesTab() {
                         rows={10}
                     />
                     <Validators themeLinks={settings.themeLinks} />
+                    <ThemeLinkUpdates themeLinks={settings.themeLinks} />
                 </Forms.FormSection>
             </>
         );
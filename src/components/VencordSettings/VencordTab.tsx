@@ -31,6 +31,7 @@ import { Button, Card, Forms, React, Select, Switch } from "@webpack/common";
 import { Flex, FolderIcon, GithubIcon, LogIcon, PaintbrushIcon, RestartIcon } from "..";
 import { openNotificationSettingsModal } from "./NotificationSettings";
 import { QuickAction, QuickActionCard } from "./quickActions";
+import { SettingsProfilesSection } from "./SettingsProfiles";
 import { SettingsTab, wrapTab } from "./shared";
 
 const cl = classNameFactory("vc-settings-");
@@ -136,6 +137,10 @@ function VencordSettings() {
 
             <Forms.FormDivider />
 
+            <SettingsProfilesSection />
+
+            <Forms.FormDivider className={Margins.top16} />
+
             <Forms.FormSection className={Margins.top16} title="Settings" tag="h5">
                 <Forms.FormText className={Margins.bottom20} style={{ color: "var(--text-muted)" }}>
                     Hint: You can change the position of this settings section in the
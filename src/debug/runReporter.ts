@@ -9,18 +9,29 @@ import * as Webpack from "@webpack";
 import { patches } from "plugins";
 
 import { loadLazyChunks } from "./loadLazyChunks";
+import { loadWebpackSnapshot, takeWebpackSnapshot, WebpackSnapshot } from "./webpackSnapshot";
 
 const ReporterLogger = new Logger("Reporter");
 
-async function runReporter() {
+// Used by scripts/generateReport.ts to save a snapshot for the offline reporter, after the test finished
+window.$$vencordTakeWebpackSnapshot = takeWebpackSnapshot;
+
+/**
+ * @param snapshot If set, test against this snapshot instead of Discord's webpack. Passed in by scripts/generateOfflineReport.ts
+ */
+async function runReporter(snapshot?: WebpackSnapshot) {
     try {
-        ReporterLogger.log("Starting test...");
+        ReporterLogger.log(snapshot ? "Starting offline test..." : "Starting test...");
 
-        let loadLazyChunksResolve: (value: void | PromiseLike<void>) => void;
-        const loadLazyChunksDone = new Promise<void>(r => loadLazyChunksResolve = r);
+        if (snapshot) {
+            loadWebpackSnapshot(snapshot);
+        } else {
+            let loadLazyChunksResolve: (value: void | PromiseLike<void>) => void;
+            const loadLazyChunksDone = new Promise<void>(r => loadLazyChunksResolve = r);
 
-        Webpack.beforeInitListeners.add(() => loadLazyChunks().then((loadLazyChunksResolve)));
-        await loadLazyChunksDone;
+            Webpack.beforeInitListeners.add(() => loadLazyChunks().then((loadLazyChunksResolve)));
+            await loadLazyChunksDone;
+        }
 
         for (const patch of patches) {
             if (!patch.all) {
@@ -88,4 +99,4 @@ async function runReporter() {
     }
 }
 
-runReporter();
+runReporter(window.$$vencordWebpackSnapshot);
@@ -0,0 +1,220 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { WEBPACK_CHUNK } from "@utils/constants";
+import { _initWebpack, wreq } from "@webpack";
+import type { WebpackInstance } from "discord-types/other";
+
+/**
+ * A copy of Discord's webpack modules, which allows testing patches and finds without loading Discord
+ */
+export interface WebpackSnapshot {
+    version: 1;
+    createdAt: number;
+    /** Source of every module factory, by module id */
+    factories: Record<string, string>;
+    /** Exports of every module that was loaded, by module id */
+    exports: Record<string, SerializedValue>;
+}
+
+export type SerializedValue =
+    | { type: "primitive"; value: string | number | boolean | null; }
+    | { type: "undefined"; }
+    | { type: "bigint"; value: string; }
+    | { type: "symbol"; key?: string; }
+    | { type: "function"; source: string; props: Record<string, SerializedValue>; }
+    | {
+        type: "object";
+        props: Record<string, SerializedValue>;
+        /** Non enumerable members of the prototype chain, like the methods of a store */
+        inherited?: Record<string, SerializedValue>;
+        constructorName?: string;
+    }
+    /** Something that was too deeply nested to be saved */
+    | { type: "unknown"; };
+
+// module.exports -> export -> memo component -> forwardRef render function, which is as deep as the filters look
+const MAX_DEPTH = 3;
+
+function getInheritedKeys(value: object) {
+    const keys = new Set<string>();
+
+    for (let proto = Object.getPrototypeOf(value); proto != null && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+        for (const key of Object.getOwnPropertyNames(proto)) {
+            if (key !== "constructor" && !Object.getOwnPropertyDescriptor(proto, key)!.enumerable) keys.add(key);
+        }
+    }
+
+    return keys;
+}
+
+function serializeValue(value: any, depth = 0): SerializedValue {
+    switch (typeof value) {
+        case "undefined":
+            return { type: "undefined" };
+        case "bigint":
+            return { type: "bigint", value: String(value) };
+        case "symbol":
+            return { type: "symbol", key: Symbol.keyFor(value) };
+        case "string":
+        case "number":
+        case "boolean":
+            return { type: "primitive", value };
+    }
+
+    if (value === null) return { type: "primitive", value: null };
+    if (depth > MAX_DEPTH) return { type: "unknown" };
+
+    const serializeProps = (keys: Iterable<string>) => {
+        const props = {} as Record<string, SerializedValue>;
+        for (const key of keys) {
+            try {
+                props[key] = serializeValue(value[key], depth + 1);
+            } catch {
+                props[key] = { type: "unknown" };
+            }
+        }
+        return props;
+    };
+
+    if (typeof value === "function") {
+        return {
+            type: "function",
+            source: Function.prototype.toString.call(value),
+            props: serializeProps(Object.keys(value))
+        };
+    }
+
+    const enumerableKeys = [] as string[];
+    for (const key in value) enumerableKeys.push(key);
+
+    const inheritedKeys = getInheritedKeys(value);
+    const constructorName = value.constructor?.displayName;
+
+    return {
+        type: "object",
+        props: serializeProps(enumerableKeys),
+        inherited: inheritedKeys.size ? serializeProps(inheritedKeys) : undefined,
+        constructorName: typeof constructorName === "string" ? constructorName : undefined
+    };
+}
+
+/**
+ * Saves the source of every module factory and the exports of every loaded module.
+ * Should be taken after all lazy chunks were loaded, so the snapshot contains every module
+ */
+export function takeWebpackSnapshot(): WebpackSnapshot {
+    const factories = {} as Record<string, string>;
+    for (const id in wreq.m) {
+        // Patched factories return the original source
+        factories[id] = String(wreq.m[id]);
+    }
+
+    const exports = {} as Record<string, SerializedValue>;
+    // Modules exporting the window are non enumerable, so they are skipped here
+    for (const id in wreq.c) {
+        const mod = wreq.c[id];
+        if (!mod?.loaded || mod.exports == null) continue;
+
+        exports[id] = serializeValue(mod.exports);
+    }
+
+    return {
+        version: 1,
+        createdAt: Date.now(),
+        factories,
+        exports
+    };
+}
+
+/**
+ * Turns function source into a function again, without running it.
+ * Falls back to an empty function if the source can't be parsed, like for native functions
+ */
+function compileFunction(source: string): (...args: any[]) => any {
+    try {
+        return (0, eval)(`0,${source}`);
+    } catch { }
+
+    try {
+        // Method shorthands, like `foo(){}`
+        return Object.values((0, eval)(`({${source}})`))[0] as any;
+    } catch { }
+
+    return function () { };
+}
+
+function restoreValue(value: SerializedValue) {
+    const restoreProps = (target: any, props: Record<string, SerializedValue>, enumerable: boolean) => {
+        for (const key in props) {
+            Object.defineProperty(target, key, {
+                value: restoreValue(props[key]),
+                configurable: true,
+                enumerable,
+                writable: true
+            });
+        }
+        return target;
+    };
+
+    switch (value.type) {
+        case "primitive":
+            return value.value;
+        case "undefined":
+            return undefined;
+        case "bigint":
+            return BigInt(value.value);
+        case "symbol":
+            return value.key != null ? Symbol.for(value.key) : Symbol();
+        case "unknown":
+            return {};
+        case "function":
+            return restoreProps(compileFunction(value.source), value.props, true);
+        case "object": {
+            const proto = restoreProps({}, value.inherited ?? {}, false);
+            if (value.constructorName != null) {
+                Object.defineProperty(proto, "constructor", {
+                    value: { displayName: value.constructorName },
+                    configurable: true,
+                    writable: true
+                });
+            }
+
+            return restoreProps(Object.create(proto), value.props, true);
+        }
+    }
+}
+
+/**
+ * Loads a snapshot in place of Discord's webpack.
+ * The factories are pushed to the webpack chunk array like Discord does, so they get patched by the same logic,
+ * and the exports are restored to the module cache so webpack finds can be tested against them.
+ */
+export function loadWebpackSnapshot(snapshot: WebpackSnapshot) {
+    const factories = {} as Record<string, any>;
+    for (const id in snapshot.factories) {
+        factories[id] = compileFunction(snapshot.factories[id]);
+    }
+
+    window[WEBPACK_CHUNK] = [] as any;
+    window[WEBPACK_CHUNK].push([[], factories]);
+
+    const cache = {} as WebpackInstance["c"];
+    for (const id in snapshot.exports) {
+        cache[id] = { id, loaded: true, exports: restoreValue(snapshot.exports[id]) } as any;
+    }
+
+    // Factories can't run without Discord, so requiring a module only works if its exports were saved
+    const snapshotRequire = Object.assign((id: PropertyKey) => cache[id]?.exports, {
+        m: factories,
+        c: cache,
+        p: "/assets/",
+        e: () => Promise.resolve(),
+        u: () => "undefined.js"
+    });
+
+    _initWebpack(snapshotRequire as any as WebpackInstance);
+}
@@ -39,7 +39,7 @@ RendererSettings.addGlobalChangeListener(() => {
 ipcMain.handle(IpcEvents.GET_SETTINGS_DIR, () => SETTINGS_DIR);
 ipcMain.on(IpcEvents.GET_SETTINGS, e => e.returnValue = RendererSettings.plain);
 
-ipcMain.handle(IpcEvents.SET_SETTINGS, (_, data: Settings, pathToNotify?: string) => {
+ipcMain.handle(IpcEvents.SET_SETTINGS, (_, data: Settings, pathToNotify?: string | string[]) => {
     RendererSettings.setData(data, pathToNotify);
 });
 
@@ -21,6 +21,26 @@
 const splitRegex = /[^\S\r\n]*?\r?(?:\r\n|\n)[^\S\r\n]*?\*[^\S\r\n]?/;
 const escapedAtRegex = /^\\@/;
 
+export interface ThemeVariableOption {
+    label: string;
+    value: string;
+}
+
+interface ThemeVariableBase {
+    /** Name of the CSS custom property, without the leading dashes */
+    name: string;
+    label: string;
+}
+
+export type ThemeVariable = ThemeVariableBase & (
+    | { type: "color"; default: string; }
+    | { type: "number"; default: number; min?: number; max?: number; step?: number; unit?: string; }
+    | { type: "select"; default: string; options: ThemeVariableOption[]; }
+    | { type: "boolean"; default: boolean; }
+);
+
+export type ThemeVariableValue = ThemeVariable["default"];
+
 export interface UserThemeHeader {
     fileName: string;
     name: string;
@@ -31,6 +51,8 @@ export interface UserThemeHeader {
     source?: string;
     website?: string;
     invite?: string;
+    /** Variables the theme lets users change, declared with `@var` */
+    vars: ThemeVariable[];
 }
 
 function makeHeader(fileName: string, opts: Partial<UserThemeHeader> = {}): UserThemeHeader {
@@ -43,10 +65,79 @@ function makeHeader(fileName: string, opts: Partial<UserThemeHeader> = {}): User
         license: opts.license,
         source: opts.source,
         website: opts.website,
-        invite: opts.invite
+        invite: opts.invite,
+        vars: opts.vars ?? []
     };
 }
 
+// @var <type> <name> <label> <default>
+const varRegex = /^(\S+)\s+(?:--)?([\w-]+)\s+("(?:[^"\\]|\\.)*"|\S+)\s*(.*)$/s;
+
+function parseJSON(text: string) {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Parses the value of an `@var` header field, for example:
+ * - `@var color accent "Accent color" #5865f2`
+ * - `@var number radius "Corner radius" [8, 0, 24, 1, "px"]` (default, min, max, step, unit)
+ * - `@var select font "Font" ["Inter*", "Arial"]` (default marked with *) or `{"Label": "value*"}`
+ * - `@var boolean compact "Compact mode" true`
+ * @returns the variable, or undefined if it is malformed
+ */
+export function parseThemeVariable(text: string): ThemeVariable | undefined {
+    const match = varRegex.exec(text.trim());
+    if (!match) return;
+
+    const [, type, name, rawLabel, rawDefault] = match;
+    const label = rawLabel.startsWith('"') ? parseJSON(rawLabel) ?? name : rawLabel;
+
+    switch (type) {
+        case "color":
+            return rawDefault ? { type, name, label, default: rawDefault } : undefined;
+        case "number": {
+            const value = parseJSON(rawDefault);
+            const [def, min, max, step, unit] = Array.isArray(value) ? value : [value];
+            if (typeof def !== "number" || [min, max, step].some(n => n != null && typeof n !== "number")) return;
+            if (min != null && max != null && min > max) return;
+
+            return {
+                type, name, label,
+                default: Math.min(Math.max(def, min ?? -Infinity), max ?? Infinity),
+                min, max, step,
+                unit: typeof unit === "string" ? unit : undefined
+            };
+        }
+        case "select": {
+            const value = parseJSON(rawDefault);
+            if (typeof value !== "object" || value === null) return;
+
+            const entries: [string, string][] = Array.isArray(value)
+                ? value.map(v => [String(v), String(v)])
+                : Object.entries(value).map(([k, v]) => [k, String(v)]);
+
+            let def: string | undefined;
+            const options = entries.map(([label, value]) => {
+                const isDefault = label.endsWith("*") || value.endsWith("*");
+                label = label.replace(/\*$/, "");
+                value = value.replace(/\*$/, "");
+                if (isDefault) def ??= value;
+                return { label, value };
+            });
+            if (!options.length) return;
+
+            return { type, name, label, default: def ?? options[0].value, options };
+        }
+        case "boolean":
+        case "checkbox":
+            return { type: "boolean", name, label, default: rawDefault === "true" || rawDefault === "1" };
+    }
+}
+
 export function stripBOM(fileContent: string) {
     if (fileContent.charCodeAt(0) === 0xFEFF) {
         fileContent = fileContent.slice(1);
@@ -61,12 +152,21 @@ export function getThemeInfo(css: string, fileName: string): UserThemeHeader {
     if (!block) return makeHeader(fileName);
 
     const header: Partial<UserThemeHeader> = {};
+    const vars = [] as ThemeVariable[];
     let field = "";
     let accum = "";
+
+    const addField = () => {
+        if (field !== "var") return void (header[field] = accum.trim());
+
+        const variable = parseThemeVariable(accum);
+        if (variable && !vars.some(v => v.name === variable.name)) vars.push(variable);
+    };
+
     for (const line of block.split(splitRegex)) {
         if (line.length === 0) continue;
         if (line.charAt(0) === "@" && line.charAt(1) !== " ") {
-            header[field] = accum.trim();
+            addField();
             const l = line.indexOf(" ");
             field = line.substring(1, l);
             accum = line.substring(l + 1);
@@ -75,7 +175,8 @@ export function getThemeInfo(css: string, fileName: string): UserThemeHeader {
             accum += " " + line.replace("\\n", "\n").replace(escapedAtRegex, "@");
         }
     }
-    header[field] = accum.trim();
+    addField();
     delete header[""];
+    header.vars = vars;
     return makeHeader(fileName, header);
 }
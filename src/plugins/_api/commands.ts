@@ -48,6 +48,16 @@ export default definePlugin({
                 replace: (_, cmd, args, ctx) => `,Vencord.Api.Commands._handleCommand(${cmd}, ${args}, ${ctx})`
             }
         },
+        // autocomplete options of Vencord commands
+        {
+            find: 'type:"APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST"',
+            replacement: {
+                // dispatch({ type: "APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST", nonce, channelId, query, name }); ... post({ body: { application_id: cmd.applicationId, ... } })
+                // Vencord commands return before any of that, so what the user typed is never sent to the API
+                match: /(?<=[;{])(?=\i\.\i\.dispatch\((\{type:"APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST",[^{}]+?\})\).{0,500}?application_id:(\i)\.applicationId)/,
+                replace: (_, request, cmd) => `if(${cmd}?.isVencordCommand)return void Vencord.Api.Commands._handleAutocomplete(${cmd},${request});`
+            }
+        },
         // Show plugin name instead of "Built-In"
         {
             find: ".source,children",
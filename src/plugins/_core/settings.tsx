@@ -19,7 +19,9 @@
 import { Settings } from "@api/Settings";
 import BackupAndRestoreTab from "@components/VencordSettings/BackupAndRestoreTab";
 import CloudTab from "@components/VencordSettings/CloudTab";
+import PatchConflictsTab from "@components/VencordSettings/PatchConflictsTab";
 import PatchHelperTab from "@components/VencordSettings/PatchHelperTab";
+import PatchInspectorTab from "@components/VencordSettings/PatchInspectorTab";
 import PluginsTab from "@components/VencordSettings/PluginsTab";
 import ThemesTab from "@components/VencordSettings/ThemesTab";
 import UpdaterTab from "@components/VencordSettings/UpdaterTab";
@@ -124,6 +126,18 @@ export default definePlugin({
                 element: BackupAndRestoreTab,
                 className: "vc-backup-restore"
             },
+            {
+                section: "VencordPatchConflicts",
+                label: "Patch Conflicts",
+                element: PatchConflictsTab,
+                className: "vc-patch-conflicts"
+            },
+            {
+                section: "VencordPatchInspector",
+                label: "Patch Inspector",
+                element: PatchInspectorTab,
+                className: "vc-patch-inspector"
+            },
             IS_DEV && {
                 section: "VencordPatchHelper",
                 label: "Patch Helper",
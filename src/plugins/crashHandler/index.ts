@@ -91,6 +91,7 @@ export default definePlugin({
                         showNotification({
                             color: "#eed202",
                             title: "Discord has crashed!",
+                            plugin: "CrashHandler",
                             body: "Awn :( Discord has crashed two times rapidly, not attempting to recover.",
                             noPersist: true
                         });
@@ -126,6 +127,7 @@ export default definePlugin({
             showNotification({
                 color: "#eed202",
                 title: "Discord has crashed!",
+                plugin: "CrashHandler",
                 body: "Attempting to recover...",
                 noPersist: true
             });
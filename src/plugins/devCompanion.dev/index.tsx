@@ -100,6 +100,7 @@ function initWs(isManual = false) {
 
         (settings.store.notifyOnAutoConnect || isManual) && showNotification({
             title: "Dev Companion Connected",
+            plugin: "DevCompanion",
             body: "Connected to WebSocket",
             noPersist: true
         });
@@ -114,6 +115,7 @@ function initWs(isManual = false) {
 
         showNotification({
             title: "Dev Companion Error",
+            plugin: "DevCompanion",
             body: (e as ErrorEvent).message || "No Error Message",
             color: "var(--status-danger, red)",
             noPersist: true,
@@ -127,6 +129,7 @@ function initWs(isManual = false) {
 
         showNotification({
             title: "Dev Companion Disconnected",
+            plugin: "DevCompanion",
             body: e.reason || "No Reason provided",
             color: "var(--status-danger, red)",
             noPersist: true,
@@ -45,6 +45,10 @@ export const patches = [] as Patch[];
 /** Whether we have subscribed to flux events of all the enabled plugins when FluxDispatcher was ready */
 let enabledPluginsSubscribedFlux = false;
 const subscribedFluxEventsPlugins = new Set<string>();
+/**
+ * Plugins whose settings migrations are still running, which start once they are done unless they were stopped in the meantime
+ */
+const migratingPlugins = new Map<string, { migration: Promise<void>; cancelled: boolean; }>();
 
 const pluginsValues = Object.values(Plugins);
 const settings = Settings.plugins;
@@ -95,48 +99,161 @@ const pluginKeysToBind: Array<keyof PluginDef & `${"on" | "render"}${string}`> =
     "renderChatBarButton", "renderMemberListDecorator", "renderMessageAccessory", "renderMessageDecoration", "renderMessagePopoverButton"
 ];
 
-const neededApiPlugins = new Set<string>();
+/**
+ * Thrown (or reported) when plugins depend on each other in a loop, which makes it impossible to pick what goes first.
+ */
+export class DependencyCycleError extends Error {
+    /**
+     * @param cycle the plugins involved, in order of dependence, ending with the one it started at
+     */
+    constructor(public readonly cycle: string[]) {
+        super(`Plugins depend on each other in a cycle: ${cycle.join(" → ")}`);
+        this.name = "DependencyCycleError";
+    }
+}
 
-// First round-trip to mark and force enable dependencies
-//
-// FIXME: might need to revisit this if there's ever nested (dependencies of dependencies) dependencies since this only
-// goes for the top level and their children, but for now this works okay with the current API plugins
-for (const p of pluginsValues) if (isPluginEnabled(p.name)) {
-    p.dependencies?.forEach(d => {
-        const dep = Plugins[d];
+/**
+ * @returns the API plugins which a plugin needs for the features it uses, without having to list them itself
+ */
+function getImpliedDependencies(p: Plugin): string[] {
+    const implied = [] as string[];
+    if (p.commands?.length) implied.push("CommandsAPI");
+    if (p.onBeforeMessageEdit || p.onBeforeMessageSend || p.onMessageClick) implied.push("MessageEventsAPI");
+    if (p.renderChatBarButton) implied.push("ChatInputButtonAPI");
+    if (p.renderMemberListDecorator) implied.push("MemberListDecoratorsAPI");
+    if (p.renderMessageAccessory) implied.push("MessageAccessoriesAPI");
+    if (p.renderMessageDecoration) implied.push("MessageDecorationsAPI");
+    if (p.renderMessagePopoverButton) implied.push("MessagePopoverAPI");
+    if (p.userProfileBadge) implied.push("BadgeAPI");
+    return implied;
+}
 
-        if (!dep) {
-            const error = new Error(`Plugin ${p.name} has unresolved dependency ${d}`);
+/**
+ * @returns the plugins which a plugin directly depends on, both listed and implied
+ */
+export function getDependencies(p: Plugin): string[] {
+    const dependencies = new Set([...p.dependencies ?? [], ...getImpliedDependencies(p)]);
+    dependencies.delete(p.name);
+    return [...dependencies];
+}
 
-            if (IS_DEV) {
-                throw error;
-            }
+function reportDependencyError(error: Error) {
+    if (IS_DEV) {
+        throw error;
+    }
 
-            logger.warn(error);
+    logger.warn(error);
+}
+
+export interface DependencyResolutionHandlers {
+    onCycle?(error: DependencyCycleError): void;
+    onUnresolved?(error: Error, plugin: string, dependency: string): void;
+}
+
+const enum VisitState {
+    Visiting,
+    Visited
+}
+
+/**
+ * Orders the given plugins along with everything they transitively depend on, so that every plugin comes after its dependencies.
+ * Cycles are reported and then broken at the dependency which closes them; missing dependencies are reported and skipped.
+ */
+export function resolveDependencyOrder(names: Iterable<string>, {
+    onCycle = reportDependencyError,
+    onUnresolved = reportDependencyError
+}: DependencyResolutionHandlers = {}): string[] {
+    const order = [] as string[];
+    const states = new Map<string, VisitState>();
+    const path = [] as string[];
+
+    function visit(name: string) {
+        const state = states.get(name);
+        if (state === VisitState.Visited) return;
+        if (state === VisitState.Visiting) {
+            onCycle(new DependencyCycleError([...path.slice(path.indexOf(name)), name]));
             return;
         }
 
-        settings[d].enabled = true;
-        dep.isDependency = true;
-    });
+        states.set(name, VisitState.Visiting);
+        path.push(name);
+        for (const d of getDependencies(Plugins[name])) {
+            if (!Plugins[d]) {
+                onUnresolved(new Error(`Plugin ${name} has unresolved dependency ${d}`), name, d);
+                continue;
+            }
+            visit(d);
+        }
+        path.pop();
+        states.set(name, VisitState.Visited);
+        order.push(name);
+    }
 
-    if (p.commands?.length) neededApiPlugins.add("CommandsAPI");
-    if (p.onBeforeMessageEdit || p.onBeforeMessageSend || p.onMessageClick) neededApiPlugins.add("MessageEventsAPI");
-    if (p.renderChatBarButton) neededApiPlugins.add("ChatInputButtonAPI");
-    if (p.renderMemberListDecorator) neededApiPlugins.add("MemberListDecoratorsAPI");
-    if (p.renderMessageAccessory) neededApiPlugins.add("MessageAccessoriesAPI");
-    if (p.renderMessageDecoration) neededApiPlugins.add("MessageDecorationsAPI");
-    if (p.renderMessagePopoverButton) neededApiPlugins.add("MessagePopoverAPI");
-    if (p.userProfileBadge) neededApiPlugins.add("BadgeAPI");
+    for (const name of names) {
+        if (Plugins[name]) visit(name);
+    }
+    return order;
+}
 
-    for (const key of pluginKeysToBind) {
-        p[key] &&= p[key].bind(p) as any;
+let dependentsMap: Record<string, string[]> | undefined;
+/**
+ * @returns the plugins which directly depend on the given plugin
+ */
+export function getDirectDependents(name: string): string[] {
+    if (!dependentsMap) {
+        dependentsMap = {};
+        for (const p of pluginsValues) {
+            for (const d of getDependencies(p)) {
+                (dependentsMap[d] ??= []).push(p.name);
+            }
+        }
     }
+    return dependentsMap[name] ?? [];
+}
+
+/**
+ * @returns every path from the given plugin to the plugins at the end of its dependency chains, excluding the plugin itself
+ */
+export function getDependencyChains(name: string, seen = new Set([name])): string[][] {
+    return getDependencies(Plugins[name])
+        .filter(d => Plugins[d] && !seen.has(d))
+        .flatMap(d => {
+            const chains = getDependencyChains(d, new Set(seen).add(d));
+            return chains.length ? chains.map(chain => [d, ...chain]) : [[d]];
+        });
+}
+
+/**
+ * @returns every path from the given plugin to the enabled plugins which (transitively) depend on it, excluding the plugin itself
+ */
+export function getEnabledDependentChains(name: string, seen = new Set([name])): string[][] {
+    return getDirectDependents(name)
+        .filter(d => isPluginEnabled(d) && !seen.has(d))
+        .flatMap(d => {
+            const chains = getEnabledDependentChains(d, new Set(seen).add(d));
+            return chains.length ? chains.map(chain => [d, ...chain]) : [[d]];
+        });
 }
 
-for (const p of neededApiPlugins) {
-    Plugins[p].isDependency = true;
-    settings[p].enabled = true;
+/**
+ * The order in which plugins have to be started, so that dependencies are always started before their dependents.
+ */
+export const pluginLoadOrder = resolveDependencyOrder(Object.keys(Plugins), { onCycle() { }, onUnresolved() { } });
+
+// Mark and force enable the dependencies of enabled plugins, including dependencies of dependencies
+for (const name of resolveDependencyOrder(pluginsValues.filter(p => isPluginEnabled(p.name)).map(p => p.name))) {
+    const p = Plugins[name];
+
+    for (const d of getDependencies(p)) {
+        if (!Plugins[d]) continue;
+
+        settings[d].enabled = true;
+        Plugins[d].isDependency = true;
+    }
+
+    for (const key of pluginKeysToBind) {
+        p[key] &&= p[key].bind(p) as any;
+    }
 }
 
 for (const p of pluginsValues) {
@@ -155,7 +272,7 @@ for (const p of pluginsValues) {
         for (const name in p.options) {
             const opt = p.options[name];
             if (opt.onChange != null) {
-                SettingsStore.addChangeListener(`plugins.${p.name}.${name}`, opt.onChange);
+                SettingsStore.addChangeListener(["plugins", p.name, name], opt.onChange);
             }
         }
     }
@@ -171,7 +288,7 @@ for (const p of pluginsValues) {
 
 export const startAllPlugins = traceFunction("startAllPlugins", function startAllPlugins(target: StartAt) {
     logger.info(`Starting plugins (stage ${target})`);
-    for (const name in Plugins) {
+    for (const name of pluginLoadOrder) {
         if (isPluginEnabled(name) && (!IS_REPORTER || isReporterTestable(Plugins[name], ReporterTestable.Start))) {
             const p = Plugins[name];
 
@@ -183,33 +300,64 @@ export const startAllPlugins = traceFunction("startAllPlugins", function startAl
     }
 });
 
+/**
+ * Enables and starts everything the plugin transitively depends on, dependencies first.
+ * @throws {DependencyCycleError} if the plugin's dependencies form a cycle
+ */
 export function startDependenciesRecursive(p: Plugin) {
     let restartNeeded = false;
     const failures: string[] = [];
 
-    p.dependencies?.forEach(d => {
-        if (!settings[d].enabled) {
-            const dep = Plugins[d];
-            startDependenciesRecursive(dep);
+    const order = resolveDependencyOrder([p.name], {
+        onCycle(error) { throw error; },
+        onUnresolved(error, _, dependency) {
+            logger.warn(error);
+            failures.push(dependency);
+        }
+    });
 
-            // If the plugin has patches, don't start the plugin, just enable it.
-            settings[d].enabled = true;
-            dep.isDependency = true;
+    for (const d of order) {
+        if (d === p.name || isPluginEnabled(d)) continue;
+        const dep = Plugins[d];
 
-            if (dep.patches) {
-                logger.warn(`Enabling dependency ${d} requires restart.`);
-                restartNeeded = true;
-                return;
-            }
+        // If the plugin has patches, don't start the plugin, just enable it.
+        settings[d].enabled = true;
+        dep.isDependency = true;
 
-            const result = startPlugin(dep);
-            if (!result) failures.push(d);
+        if (dep.patches) {
+            logger.warn(`Enabling dependency ${d} requires restart.`);
+            restartNeeded = true;
+            continue;
         }
-    });
+
+        const result = startPlugin(dep);
+        if (!result) failures.push(d);
+    }
 
     return { restartNeeded, failures };
 }
 
+/**
+ * Starts the given plugins, making sure dependencies are started before the plugins depending on them.
+ * @returns the plugins which failed to start
+ */
+export function startPlugins(names: string[]) {
+    const requested = new Set(names);
+    return resolveDependencyOrder(names)
+        .filter(name => requested.has(name) && !startPlugin(Plugins[name]));
+}
+
+/**
+ * Stops the given plugins, in the reverse of the order they would be started in.
+ * @returns the plugins which failed to stop
+ */
+export function stopPlugins(names: string[]) {
+    const requested = new Set(names);
+    return resolveDependencyOrder(names)
+        .reverse()
+        .filter(name => requested.has(name) && !stopPlugin(Plugins[name]));
+}
+
 export function subscribePluginFluxEvents(p: Plugin, fluxDispatcher: typeof FluxDispatcher) {
     if (p.flux && !subscribedFluxEventsPlugins.has(p.name) && (!IS_REPORTER || isReporterTestable(p, ReporterTestable.FluxEvents))) {
         subscribedFluxEventsPlugins.add(p.name);
@@ -247,12 +395,90 @@ export function subscribeAllPluginsFluxEvents(fluxDispatcher: typeof FluxDispatc
     enabledPluginsSubscribedFlux = true;
 
     for (const name in Plugins) {
-        if (!isPluginEnabled(name)) continue;
+        if (!isPluginEnabled(name) || migratingPlugins.has(name)) continue;
         subscribePluginFluxEvents(Plugins[name], fluxDispatcher);
     }
 }
 
+/**
+ * Runs the settings migrations of a plugin which weren't applied yet, in order, recording the version reached after each.
+ * A failing migration is logged and stops the ones after it, so they are retried the next time the plugin starts.
+ * @returns a promise if any of the migrations is asynchronous, so that starting the plugin can wait for it
+ */
+function runSettingsMigrations(p: Plugin): Promise<void> | void {
+    const migrations = p.migrations ?? p.settings?.migrations;
+    if (!migrations?.length) return;
+
+    const store = settings[p.name];
+    const currentVersion: number = store.settingsVersion ?? 0;
+    const targetVersion = p.settingsVersion ?? p.settings?.settingsVersion ?? migrations[migrations.length - 1].version;
+    const pending = migrations.filter(m => m.version > currentVersion && m.version <= targetVersion);
+    if (!pending.length) return;
+
+    const onError = (version: number, e: unknown) =>
+        logger.error(`Failed to migrate settings of ${p.name} to version ${version}, staying at version ${store.settingsVersion ?? 0}\n`, e);
+
+    const runFrom = (index: number): Promise<void> | void => {
+        for (let i = index; i < pending.length; i++) {
+            const { version, migrate } = pending[i];
+
+            let result: ReturnType<typeof migrate>;
+            try {
+                result = migrate(store);
+            } catch (e) {
+                return onError(version, e);
+            }
+
+            if (result instanceof Promise) {
+                return result.then(
+                    () => {
+                        store.settingsVersion = version;
+                        return runFrom(i + 1);
+                    },
+                    e => onError(version, e)
+                );
+            }
+
+            store.settingsVersion = version;
+        }
+
+        logger.info(`Migrated settings of ${p.name} to version ${store.settingsVersion}`);
+    };
+
+    return runFrom(0);
+}
+
 export const startPlugin = traceFunction("startPlugin", function startPlugin(p: Plugin) {
+    const pending = migratingPlugins.get(p.name);
+    if (pending) {
+        if (!pending.cancelled) {
+            logger.warn(`${p.name} is already starting`);
+            return false;
+        }
+
+        // Stopped and started again before the migration finished, so it starts once that migration is done
+        pending.cancelled = false;
+        return true;
+    }
+
+    const migration = p.started ? undefined : runSettingsMigrations(p);
+    if (!migration) return startMigratedPlugin(p);
+
+    // Nothing of the plugin, not even its commands or flux handlers, may run before its settings are in the shape it expects
+    logger.info(`Starting ${p.name} once its settings are migrated`);
+    const entry = { migration, cancelled: false };
+    migratingPlugins.set(p.name, entry);
+    migration
+        .then(() => {
+            migratingPlugins.delete(p.name);
+            if (!entry.cancelled) startMigratedPlugin(p);
+        })
+        .catch(e => logger.error(`Failed to start ${p.name}\n`, e));
+
+    return true;
+}, p => `startPlugin ${p.name}`);
+
+function startMigratedPlugin(p: Plugin) {
     const {
         name, commands, contextMenus, userProfileBadge,
         onBeforeMessageEdit, onBeforeMessageSend, onMessageClick,
@@ -311,7 +537,7 @@ export const startPlugin = traceFunction("startPlugin", function startPlugin(p:
     if (renderMessagePopoverButton) addMessagePopoverButton(name, renderMessagePopoverButton);
 
     return true;
-}, p => `startPlugin ${p.name}`);
+}
 
 export const stopPlugin = traceFunction("stopPlugin", function stopPlugin(p: Plugin) {
     const {
@@ -320,6 +546,14 @@ export const stopPlugin = traceFunction("stopPlugin", function stopPlugin(p: Plu
         renderChatBarButton, renderMemberListDecorator, renderMessageAccessory, renderMessageDecoration, renderMessagePopoverButton
     } = p;
 
+    const pending = migratingPlugins.get(name);
+    if (pending) {
+        // The migration itself keeps running, only starting the plugin afterwards is cancelled
+        pending.cancelled = true;
+        logger.info(`Cancelled starting ${name}, which was still migrating its settings`);
+        return true;
+    }
+
     if (p.stop) {
         logger.info("Stopping plugin", name);
         if (!p.started) {
@@ -16,7 +16,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { ApplicationCommandInputType, ApplicationCommandOptionType, findOption, registerCommand, sendBotMessage, unregisterCommand } from "@api/Commands";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, CommandContext, findOption, registerCommand, sendBotMessage, unregisterCommand } from "@api/Commands";
 import * as DataStore from "@api/DataStore";
 import { definePluginSettings } from "@api/Settings";
 import { Devs } from "@utils/constants";
@@ -47,6 +47,13 @@ function removeTag(name: string) {
     delete settings.store.tagsList[name];
 }
 
+function autocompleteTagName(_: CommandContext, partial: string) {
+    const query = partial.toLowerCase();
+    return Object.keys(getTags())
+        .filter(name => name.toLowerCase().includes(query))
+        .map(name => ({ name, label: name, value: name }));
+}
+
 function createTagCommand(tag: Tag) {
     registerCommand({
         name: tag.name,
@@ -80,7 +87,20 @@ const settings = definePluginSettings({
         type: OptionType.CUSTOM,
         default: {} as Record<string, Tag>,
     }
-});
+}).withMigrations([
+    {
+        // Tags used to be kept in the DataStore
+        version: 1,
+        async migrate(store) {
+            const oldTags = await DataStore.get<Tag[]>(DATA_KEY);
+            if (oldTags != null) {
+                // @ts-ignore
+                store.tagsList = Object.fromEntries(oldTags.map(oldTag => (delete oldTag.enabled, [oldTag.name, oldTag])));
+                await DataStore.del(DATA_KEY);
+            }
+        }
+    }
+]);
 
 export default definePlugin({
     name: "MessageTags",
@@ -88,15 +108,7 @@ export default definePlugin({
     authors: [Devs.Luna],
     settings,
 
-    async start() {
-        // TODO: Remove DataStore tags migration once enough time has passed
-        const oldTags = await DataStore.get<Tag[]>(DATA_KEY);
-        if (oldTags != null) {
-            // @ts-ignore
-            settings.store.tagsList = Object.fromEntries(oldTags.map(oldTag => (delete oldTag.enabled, [oldTag.name, oldTag])));
-            await DataStore.del(DATA_KEY);
-        }
-
+    start() {
         const tags = getTags();
         for (const tagName in tags) {
             createTagCommand(tags[tagName]);
@@ -143,7 +155,22 @@ export default definePlugin({
                             name: "tag-name",
                             description: "The name of the tag to trigger the response",
                             type: ApplicationCommandOptionType.STRING,
-                            required: true
+                            required: true,
+                            autocomplete: autocompleteTagName
+                        }
+                    ]
+                },
+                {
+                    name: "use",
+                    description: "Send a tag",
+                    type: ApplicationCommandOptionType.SUB_COMMAND,
+                    options: [
+                        {
+                            name: "tag-name",
+                            description: "The name of the tag to send",
+                            type: ApplicationCommandOptionType.STRING,
+                            required: true,
+                            autocomplete: autocompleteTagName
                         }
                     ]
                 },
@@ -156,7 +183,8 @@ export default definePlugin({
                             name: "tag-name",
                             description: "The name of the tag to trigger the response",
                             type: ApplicationCommandOptionType.STRING,
-                            required: true
+                            required: true,
+                            autocomplete: autocompleteTagName
                         }
                     ]
                 }
@@ -219,6 +247,17 @@ export default definePlugin({
                         });
                         break; // end 'list'
                     }
+                    case "use": {
+                        const name: string = findOption(args[0].options, "tag-name", "");
+                        const tag = getTag(name);
+
+                        if (!tag)
+                            return sendBotMessage(ctx.channel.id, {
+                                content: `${EMOTE} A Tag with the name **${name}** does not exist!`
+                            });
+
+                        return { content: tag.message.replaceAll("\\n", "\n") };
+                    }
                     case "preview": {
                         const name: string = findOption(args[0].options, "tag-name", "");
                         const tag = getTag(name);
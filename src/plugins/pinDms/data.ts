@@ -28,8 +28,6 @@ let forceUpdateDms: (() => void) | undefined = undefined;
 export let currentUserCategories: Category[] = [];
 
 export async function init() {
-    await migrateData();
-
     const userId = UserStore.getCurrentUser()?.id;
     if (userId == null) return;
 
@@ -155,8 +153,7 @@ export function moveChannel(channelId: string, direction: -1 | 1) {
     swapElementsInArray(category.channels, a, b);
 }
 
-// TODO: Remove DataStore PinnedDms migration once enough time has passed
-async function migrateData() {
+export async function migrateData() {
     if (Settings.plugins.PinDMs.dmSectioncollapsed != null) {
         settings.store.dmSectionCollapsed = Settings.plugins.PinDMs.dmSectioncollapsed;
         delete Settings.plugins.PinDMs.dmSectioncollapsed;
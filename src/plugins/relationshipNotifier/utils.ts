@@ -114,6 +114,7 @@ export function notify(text: string, icon?: string, onClick?: () => void) {
 
     showNotification({
         title: "Relationship Notifier",
+        plugin: "RelationshipNotifier",
         body: text,
         icon,
         onClick
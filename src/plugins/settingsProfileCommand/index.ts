@@ -0,0 +1,58 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ApplicationCommandInputType, ApplicationCommandOptionType, findOption, sendBotMessage } from "@api/Commands";
+import { applyProfile, getActiveProfile, getProfiles } from "@api/SettingsProfiles";
+import { Devs } from "@utils/constants";
+import definePlugin from "@utils/types";
+
+export default definePlugin({
+    name: "SettingsProfileCommand",
+    description: "Adds /profile to switch between your Vencord settings profiles from the chat",
+    authors: [Devs.Ven],
+    enabledByDefault: true,
+
+    commands: [
+        {
+            name: "profile",
+            description: "Switch to a Vencord settings profile, or list them if no name is given",
+            inputType: ApplicationCommandInputType.BOT,
+            options: [
+                {
+                    name: "name",
+                    description: "Name of the profile to switch to",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false
+                }
+            ],
+            execute: async (args, ctx) => {
+                const name = findOption<string>(args, "name")?.trim();
+                const profiles = await getProfiles();
+
+                if (!name) {
+                    const active = await getActiveProfile();
+                    return void sendBotMessage(ctx.channel.id, {
+                        content: profiles.length
+                            ? "Settings profiles:\n" + profiles.map(p => `- ${p.name}${p.name === active ? " (active)" : ""}`).join("\n")
+                            : "You have no settings profiles yet. Save one in the Vencord settings!"
+                    });
+                }
+
+                const profile = profiles.find(p => p.name.toLowerCase() === name.toLowerCase());
+                if (!profile) {
+                    return void sendBotMessage(ctx.channel.id, { content: `There is no settings profile named ${name}.` });
+                }
+
+                const { restartNeeded, failed } = await applyProfile(profile.name);
+                const lines = [`Switched to the ${profile.name} profile.`];
+                if (restartNeeded.length) lines.push(`Restart to apply changes to: ${restartNeeded.join(", ")}`);
+                if (failed.length) lines.push(`Failed to toggle: ${failed.join(", ")}`);
+
+                sendBotMessage(ctx.channel.id, { content: lines.join("\n") });
+            }
+        }
+    ]
+});
@@ -18,8 +18,9 @@
 
 import ErrorBoundary from "@components/ErrorBoundary";
 import { Flex } from "@components/Flex";
-import { findByPropsLazy } from "@webpack";
-import { Forms, React } from "@webpack/common";
+import { useForceUpdater } from "@utils/react";
+import { clearFindCache, findByPropsLazy, findCacheStats, getFindCacheInfo } from "@webpack";
+import { Button, Forms, React } from "@webpack/common";
 
 interface AppStartPerformance {
     prefix: string;
@@ -129,6 +130,40 @@ function ServerTrace({ trace }: ServerTraceProps) {
     );
 }
 
+function FindCacheStats() {
+    const forceUpdate = useForceUpdater();
+    const { hits, misses, invalidated, hitTime, missTime } = findCacheStats;
+    const { buildHash, size } = getFindCacheInfo();
+
+    const average = (time: number, count: number) => count ? `${(time / count).toFixed(3)}ms` : "-";
+
+    return (
+        <Forms.FormSection title="Webpack Find Cache" tag="h2">
+            <code>
+                <div style={{ color: "var(--header-primary)", display: "grid", gridTemplateColumns: "auto 1fr", gap: "2px 10px", userSelect: "text" }}>
+                    <span>Build</span>
+                    <span>{buildHash ?? "Unknown, caching is disabled"}</span>
+                    <span>Cached finds</span>
+                    <span>{size}</span>
+                    <span>Hits</span>
+                    <span>{hits} (average {average(hitTime, hits)})</span>
+                    <span>Misses</span>
+                    <span>{misses} (average {average(missTime, misses)}), {invalidated} of them were outdated cache entries</span>
+                    <span>Hit rate</span>
+                    <span>{hits + misses ? `${(hits / (hits + misses) * 100).toFixed(1)}%` : "-"}</span>
+                </div>
+            </code>
+            <Button
+                size={Button.Sizes.SMALL}
+                style={{ marginTop: 8 }}
+                onClick={() => clearFindCache().then(forceUpdate)}
+            >
+                Clear Cache
+            </Button>
+        </Forms.FormSection>
+    );
+}
+
 function StartupTimingPage() {
     if (!AppStartPerformance?.logs) return <div>Loading...</div>;
 
@@ -144,6 +179,8 @@ function StartupTimingPage() {
             {/* Lazy Divider */}
             <div style={{ marginTop: 5 }}>&nbsp;</div>
             {serverTrace && <ServerTrace trace={serverTrace} />}
+            <div style={{ marginTop: 5 }}>&nbsp;</div>
+            <FindCacheStats />
         </React.Fragment>
     );
 }
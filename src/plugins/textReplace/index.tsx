@@ -71,7 +71,25 @@ const settings = definePluginSettings({
         type: OptionType.CUSTOM,
         default: makeEmptyRuleArray(),
     }
-});
+}).withMigrations([
+    {
+        // Rules used to be kept in the DataStore
+        version: 1,
+        async migrate(store) {
+            const oldStringRules = await DataStore.get<Rule[]>(STRING_RULES_KEY);
+            if (oldStringRules != null) {
+                store.stringRules = oldStringRules;
+                await DataStore.del(STRING_RULES_KEY);
+            }
+
+            const oldRegexRules = await DataStore.get<Rule[]>(REGEX_RULES_KEY);
+            if (oldRegexRules != null) {
+                store.regexRules = oldRegexRules;
+                await DataStore.del(REGEX_RULES_KEY);
+            }
+        }
+    }
+]);
 
 function stringToRegex(str: string) {
     const match = str.match(/^(\/)?(.+?)(?:\/([gimsuyv]*))?$/); // Regex to match regex
@@ -241,20 +259,5 @@ export default definePlugin({
         // Channel used for sharing rules, applying rules here would be messy
         if (channelId === TEXT_REPLACE_RULES_CHANNEL_ID) return;
         msg.content = applyRules(msg.content);
-    },
-
-    async start() {
-        // TODO: Remove DataStore rules migrations once enough time has passed
-        const oldStringRules = await DataStore.get<Rule[]>(STRING_RULES_KEY);
-        if (oldStringRules != null) {
-            settings.store.stringRules = oldStringRules;
-            await DataStore.del(STRING_RULES_KEY);
-        }
-
-        const oldRegexRules = await DataStore.get<Rule[]>(REGEX_RULES_KEY);
-        if (oldRegexRules != null) {
-            settings.store.regexRules = oldRegexRules;
-            await DataStore.del(REGEX_RULES_KEY);
-        }
     }
 });
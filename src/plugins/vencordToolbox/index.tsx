@@ -20,7 +20,9 @@ import "./index.css";
 
 import { openNotificationLogModal } from "@api/Notifications/notificationLog";
 import { Settings, useSettings } from "@api/Settings";
+import { useProfiles } from "@api/SettingsProfiles";
 import ErrorBoundary from "@components/ErrorBoundary";
+import { switchProfile } from "@components/VencordSettings/SettingsProfiles";
 import { Devs } from "@utils/constants";
 import definePlugin from "@utils/types";
 import { findComponentByCodeLazy } from "@webpack";
@@ -31,6 +33,7 @@ const HeaderBarIcon = findComponentByCodeLazy(".HEADER_BAR_BADGE_TOP:", '.iconBa
 
 function VencordPopout(onClose: () => void) {
     const { useQuickCss } = useSettings(["useQuickCss"]);
+    const { active, profiles } = useProfiles();
 
     const pluginEntries = [] as ReactNode[];
 
@@ -81,6 +84,23 @@ function VencordPopout(onClose: () => void) {
                 label="Open QuickCSS"
                 action={() => VencordNative.quickCss.openEditor()}
             />
+            {profiles.length > 0 && (
+                <Menu.MenuItem
+                    id="vc-toolbox-profiles"
+                    label="Switch Settings Profile"
+                >
+                    {profiles.map(({ name }) => (
+                        <Menu.MenuRadioItem
+                            id={`vc-toolbox-profiles-${name}`}
+                            key={name}
+                            group="vc-toolbox-profiles"
+                            label={name}
+                            checked={name === active}
+                            action={() => switchProfile(name)}
+                        />
+                    ))}
+                </Menu.MenuItem>
+            )}
             {...pluginEntries}
         </Menu.Menu>
     );
@@ -18,13 +18,45 @@ type ResolvePropDeep<T, P> = P extends `${infer Pre}.${infer Suf}`
     ? T[P]
     : any;
 
+// Resolves a path in the form of ["some", "nested", "prop"] to type of T.some.nested.prop
+type ResolvePathDeep<T, P extends readonly string[]> = P extends readonly [infer Head, ...infer Tail extends string[]]
+    ? Head extends keyof T
+    ? ResolvePathDeep<T[Head], Tail>
+    : any
+    : T;
+
+/**
+ * A path to a setting, as the keys leading to it. Unlike dotted strings, this allows keys which contain dots themselves
+ */
+export type SettingsPath = readonly string[];
+
+export interface SettingsChange {
+    /**
+     * The path of the value that was actually changed. For listeners of a setting, this may lead to a value nested inside of it
+     */
+    path: string[];
+    newValue: any;
+    oldValue: any;
+}
+
+/**
+ * Converts a dotted path string to its keys. Arrays are returned as is
+ */
+export function toSettingsPath(path: string | SettingsPath): string[] {
+    if (typeof path !== "string") return [...path];
+    return path ? path.split(".") : [];
+}
+
+// JSON keeps the boundaries between keys intact, no matter which characters they contain
+const getPathKey = (path: SettingsPath) => JSON.stringify(path);
+
 interface SettingsStoreOptions {
     readOnly?: boolean;
     getDefaultValue?: (data: {
         target: any;
         key: string;
         root: any;
-        path: string;
+        path: string[];
     }) => any;
 }
 
@@ -33,7 +65,7 @@ export interface SettingsStore<T extends object> extends SettingsStoreOptions {
 
 interface ProxyContext<T extends object = any> {
     root: T;
-    path: string;
+    path: string[];
 }
 
 /**
@@ -41,8 +73,8 @@ interface ProxyContext<T extends object = any> {
  * has support for global and path-based change listeners.
  */
 export class SettingsStore<T extends object> {
-    private pathListeners = new Map<string, Set<(newData: any) => void>>();
-    private globalListeners = new Set<(newData: T, path: string) => void>();
+    private pathListeners = new Map<string, Set<(newData: any, change: SettingsChange) => void>>();
+    private globalListeners = new Set<(newData: T, path: string, change?: SettingsChange) => void>();
     private readonly proxyContexts = new WeakMap<any, ProxyContext<T>>();
 
     private readonly proxyHandler: ProxyHandler<any> = (() => {
@@ -77,8 +109,7 @@ export class SettingsStore<T extends object> {
                 }
 
                 if (typeof v === "object" && v !== null && !v[SYM_IS_PROXY]) {
-                    const getPath = `${path}${path && "."}${key}`;
-                    return self.makeProxy(v, root, getPath);
+                    return self.makeProxy(v, root, [...path, key]);
                 }
 
                 return v;
@@ -88,7 +119,8 @@ export class SettingsStore<T extends object> {
                     value = value[SYM_GET_RAW_TARGET];
                 }
 
-                if (target[key] === value) {
+                const oldValue = target[key];
+                if (oldValue === value) {
                     return true;
                 }
 
@@ -103,12 +135,12 @@ export class SettingsStore<T extends object> {
 
                 const { root, path } = proxyContext;
 
-                const setPath = `${path}${path && "."}${key}`;
-                self.notifyListeners(setPath, value, root);
+                self.notifyListeners({ path: [...path, key], newValue: value, oldValue }, root);
 
                 return true;
             },
             deleteProperty(target, key: string) {
+                const oldValue = target[key];
                 if (!Reflect.deleteProperty(target, key)) {
                     return false;
                 }
@@ -120,8 +152,7 @@ export class SettingsStore<T extends object> {
 
                 const { root, path } = proxyContext;
 
-                const deletePath = `${path}${path && "."}${key}`;
-                self.notifyListeners(deletePath, undefined, root);
+                self.notifyListeners({ path: [...path, key], newValue: undefined, oldValue }, root);
 
                 return true;
             }
@@ -143,7 +174,7 @@ export class SettingsStore<T extends object> {
         Object.assign(this, options);
     }
 
-    private makeProxy(object: any, root: T = object, path = "") {
+    private makeProxy(object: any, root: T = object, path: string[] = []) {
         this.proxyContexts.set(object, {
             root,
             path
@@ -152,26 +183,25 @@ export class SettingsStore<T extends object> {
         return new Proxy(object, this.proxyHandler);
     }
 
-    private notifyListeners(pathStr: string, value: any, root: T) {
-        const paths = pathStr.split(".");
+    private notifyListeners(change: SettingsChange, root: T) {
+        const { path } = change;
 
         // Because we support any type of settings with OptionType.CUSTOM, and those objects get proxied recursively,
         // the path ends up including all the nested paths (plugins.pluginName.settingName.example.one).
         // So, we need to extract the top-level setting path (plugins.pluginName.settingName),
         // to be able to notify globalListeners and top-level setting name listeners (let { settingName } = settings.use(["settingName"]),
         // with the new value
-        if (paths.length > 2 && paths[0] === "plugins") {
-            const settingPath = paths.slice(0, 3);
-            const settingPathStr = settingPath.join(".");
+        if (path.length > 3 && path[0] === "plugins") {
+            const settingPath = path.slice(0, 3);
             const settingValue = settingPath.reduce((acc, curr) => acc[curr], root);
 
-            this.globalListeners.forEach(cb => cb(root, settingPathStr));
-            this.pathListeners.get(settingPathStr)?.forEach(cb => cb(settingValue));
+            this.globalListeners.forEach(cb => cb(root, settingPath.join("."), change));
+            this.pathListeners.get(getPathKey(settingPath))?.forEach(cb => cb(settingValue, change));
         } else {
-            this.globalListeners.forEach(cb => cb(root, pathStr));
+            this.globalListeners.forEach(cb => cb(root, path.join("."), change));
         }
 
-        this.pathListeners.get(pathStr)?.forEach(cb => cb(value));
+        this.pathListeners.get(getPathKey(path))?.forEach(cb => cb(change.newValue, change));
     }
 
     /**
@@ -182,27 +212,28 @@ export class SettingsStore<T extends object> {
      * @param value New data
      * @param pathToNotify Optional path to notify instead of globally. Used to transfer path via ipc
      */
-    public setData(value: T, pathToNotify?: string) {
+    public setData(value: T, pathToNotify?: string | SettingsPath) {
         if (this.readOnly) throw new Error("SettingsStore is read-only");
 
+        const oldData = this.plain;
         this.plain = value;
         this.store = this.makeProxy(value);
 
-        if (pathToNotify) {
+        const path = toSettingsPath(pathToNotify ?? []);
+        if (path.length) {
             let v = value;
-
-            const path = pathToNotify.split(".");
             for (const p of path) {
                 if (!v) {
                     console.warn(
-                        `Settings#setData: Path ${pathToNotify} does not exist in new data. Not dispatching update`
+                        `Settings#setData: Path ${path.join(".")} does not exist in new data. Not dispatching update`
                     );
                     return;
                 }
                 v = v[p];
             }
 
-            this.pathListeners.get(pathToNotify)?.forEach(cb => cb(v));
+            const oldValue = path.reduce((acc, curr) => acc?.[curr], oldData);
+            this.pathListeners.get(getPathKey(path))?.forEach(cb => cb(v, { path, newValue: v, oldValue }));
         }
 
         this.markAsChanged();
@@ -212,9 +243,10 @@ export class SettingsStore<T extends object> {
      * Add a global change listener, that will fire whenever any setting is changed
      *
      * @param data The new data. This is either the new value set on the path, or the new root object if it was changed
-     * @param path The path of the setting that was changed. Empty string if the root object was changed
+     * @param path The path of the setting that was changed, joined with dots. Empty string if the root object was changed
+     * @param change The exact change, or undefined if the root object was changed
      */
-    public addGlobalChangeListener(cb: (data: any, path: string) => void) {
+    public addGlobalChangeListener(cb: (data: any, path: string, change?: SettingsChange) => void) {
         this.globalListeners.add(cb);
     }
 
@@ -229,23 +261,31 @@ export class SettingsStore<T extends object> {
      * ```js
      * Setting.store.foo.baz = "hi"
      * ```
+     * Keys containing dots can only be listened to by passing the path as an array, like `["foo", "bar.baz"]`
      * @param path
-     * @param cb
+     * @param cb Called with the new value and the change which caused it
      */
     public addChangeListener<P extends LiteralUnion<keyof T, string>>(
         path: P,
-        cb: (data: ResolvePropDeep<T, P>) => void
-    ) {
-        const listeners = this.pathListeners.get(path as string) ?? new Set();
+        cb: (data: ResolvePropDeep<T, P>, change: SettingsChange) => void
+    ): void;
+    public addChangeListener<P extends SettingsPath>(
+        path: readonly [...P],
+        cb: (data: ResolvePathDeep<T, P>, change: SettingsChange) => void
+    ): void;
+    public addChangeListener(path: string | SettingsPath, cb: (data: any, change: SettingsChange) => void): void;
+    public addChangeListener(path: string | SettingsPath, cb: (data: any, change: SettingsChange) => void) {
+        const key = getPathKey(toSettingsPath(path));
+        const listeners = this.pathListeners.get(key) ?? new Set();
         listeners.add(cb);
-        this.pathListeners.set(path as string, listeners);
+        this.pathListeners.set(key, listeners);
     }
 
     /**
      * Remove a global listener
      * @see {@link addGlobalChangeListener}
      */
-    public removeGlobalChangeListener(cb: (data: any, path: string) => void) {
+    public removeGlobalChangeListener(cb: (data: any, path: string, change?: SettingsChange) => void) {
         this.globalListeners.delete(cb);
     }
 
@@ -253,12 +293,13 @@ export class SettingsStore<T extends object> {
      * Remove a scoped listener
      * @see {@link addChangeListener}
      */
-    public removeChangeListener(path: LiteralUnion<keyof T, string>, cb: (data: any) => void) {
-        const listeners = this.pathListeners.get(path as string);
+    public removeChangeListener(path: LiteralUnion<keyof T, string> | SettingsPath, cb: (data: any, change: SettingsChange) => void) {
+        const key = getPathKey(toSettingsPath(path as string | SettingsPath));
+        const listeners = this.pathListeners.get(key);
         if (!listeners) return;
 
         listeners.delete(cb);
-        if (!listeners.size) this.pathListeners.delete(path as string);
+        if (!listeners.size) this.pathListeners.delete(key);
     }
 
     /**
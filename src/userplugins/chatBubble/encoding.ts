@@ -0,0 +1,526 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ChatbubbleExportFormat, Dimensions } from "./shared";
+
+/**
+ * Encoders which run entirely within the renderer, for when FFmpeg isn't available.
+ * Browsers can only produce still images by themselves, so the containers are assembled by hand.
+ */
+export namespace ChatbubbleEncoding {
+    export interface Frame {
+        /**
+         * The fully composited frame. It may be reused for the next frame, so it must be consumed before continuing.
+         */
+        canvas: OffscreenCanvas;
+        /** In seconds, relative to the first frame. */
+        timestamp: number;
+        /** In seconds. */
+        duration: number;
+    }
+
+    export interface Options extends Dimensions {
+        /** 0..=1 */
+        quality?: number;
+    }
+
+    export type Format =
+        | ChatbubbleExportFormat.WEBP
+        | ChatbubbleExportFormat.WEBM
+        | ChatbubbleExportFormat.MP4;
+
+    export function isFormatSupported(format: ChatbubbleExportFormat): format is Format {
+        switch (format) {
+            case ChatbubbleExportFormat.WEBP: return true;
+            case ChatbubbleExportFormat.WEBM:
+            case ChatbubbleExportFormat.MP4: return "VideoEncoder" in window;
+            default: return false;
+        }
+    }
+
+    export async function encode(format: Format, frames: AsyncIterable<Frame>, options: Options): Promise<Uint8Array> {
+        switch (format) {
+            case ChatbubbleExportFormat.WEBP: return encodeWEBP(frames, options);
+            case ChatbubbleExportFormat.WEBM: return encodeWEBM(frames, options);
+            case ChatbubbleExportFormat.MP4: return encodeMP4(frames, options);
+        }
+    }
+
+    class ByteSink {
+        private readonly parts = new Array<Uint8Array>();
+        private _length = 0;
+        public get length() { return this._length; }
+
+        constructor(private readonly littleEndian: boolean) { }
+
+        public bytes(...data: Uint8Array[]) {
+            for (const part of data) {
+                this.parts.push(part);
+                this._length += part.byteLength;
+            }
+            return this;
+        }
+
+        public uint(value: number, size: number) {
+            const data = new Uint8Array(size);
+            for (let i = 0; i < size; i++) {
+                data[this.littleEndian ? i : size - i - 1] = value % 256;
+                value = Math.floor(value / 256);
+            }
+            return this.bytes(data);
+        }
+
+        public ascii(text: string) {
+            return this.bytes(Uint8Array.from(text, character => character.charCodeAt(0)));
+        }
+
+        public finish(): Uint8Array {
+            const out = new Uint8Array(this._length);
+            let offset = 0;
+            for (const part of this.parts) {
+                out.set(part, offset);
+                offset += part.byteLength;
+            }
+            return out;
+        }
+    }
+
+    // #region WEBP
+    // https://developers.google.com/speed/webp/docs/riff_container
+
+    const enum WebPFlags {
+        Animation = 0b0000_0010,
+        Alpha = 0b0001_0000,
+    }
+
+    /**
+     * ANMF flags; don't blend with the previous frame, so transparent areas stay transparent.
+     */
+    const WEBP_FRAME_NO_BLEND = 0b10;
+    const WEBP_MAX_DURATION = 0xFF_FFFF;
+
+    function webpChunk(fourcc: string, payload: Uint8Array) {
+        const sink = new ByteSink(true).ascii(fourcc).uint(payload.byteLength, 4).bytes(payload);
+        if (payload.byteLength % 2 === 1) sink.uint(0, 1);
+        return sink.finish();
+    }
+
+    function* readWebPChunks(file: Uint8Array): Generator<{ fourcc: string, payload: Uint8Array; }> {
+        const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+        const fourcc = (offset: number) => String.fromCharCode(...file.subarray(offset, offset + 4));
+        if (fourcc(0) !== "RIFF" || fourcc(8) !== "WEBP") throw new Error("Browser produced an invalid WEBP file!");
+        for (let offset = 12; offset + 8 <= file.byteLength;) {
+            const size = view.getUint32(offset + 4, true);
+            yield { fourcc: fourcc(offset), payload: file.subarray(offset + 8, offset + 8 + size) };
+            offset += 8 + size + (size % 2);
+        }
+    }
+
+    async function encodeWEBPFrame(canvas: OffscreenCanvas, quality?: number) {
+        const blob = await canvas.convertToBlob({ type: ChatbubbleExportFormat.WEBP, quality });
+        if (blob.type !== ChatbubbleExportFormat.WEBP) throw new Error("This browser cannot encode WEBP images!");
+        return new Uint8Array(await blob.arrayBuffer());
+    }
+
+    async function encodeWEBP(frames: AsyncIterable<Frame>, { width, height, quality }: Options): Promise<Uint8Array> {
+        const encoded = new Array<{ data: Uint8Array, duration: number; }>();
+        for await (const frame of frames) {
+            encoded.push({ data: await encodeWEBPFrame(frame.canvas, quality), duration: frame.duration });
+        }
+        if (encoded.length === 0) throw new Error("Nothing to encode!");
+        if (encoded.length === 1) return encoded[0].data;
+
+        let alpha = false;
+        const animation = new ByteSink(true);
+        for (const { data, duration } of encoded) {
+            const header = new ByteSink(true)
+                .uint(0, 3) // x / 2
+                .uint(0, 3) // y / 2
+                .uint(width - 1, 3)
+                .uint(height - 1, 3)
+                .uint(Math.min(Math.max(1, Math.round(duration * 1000)), WEBP_MAX_DURATION), 3)
+                .uint(WEBP_FRAME_NO_BLEND, 1);
+            for (const { fourcc, payload } of readWebPChunks(data)) {
+                switch (fourcc) {
+                    case "VP8X": alpha ||= (payload[0] & WebPFlags.Alpha) !== 0; break;
+                    case "ALPH": alpha = true; // fallthrough
+                    case "VP8 ":
+                    case "VP8L": header.bytes(webpChunk(fourcc, payload)); break;
+                }
+            }
+            animation.bytes(webpChunk("ANMF", header.finish()));
+        }
+
+        const features = new ByteSink(true)
+            .uint(WebPFlags.Animation | (alpha ? WebPFlags.Alpha : 0), 1)
+            .uint(0, 3)
+            .uint(width - 1, 3)
+            .uint(height - 1, 3)
+            .finish();
+        const parameters = new ByteSink(true)
+            .uint(0, 4) // background color
+            .uint(0, 2) // loop forever
+            .finish();
+        const body = new ByteSink(true)
+            .ascii("WEBP")
+            .bytes(webpChunk("VP8X", features), webpChunk("ANIM", parameters), animation.finish())
+            .finish();
+        return new ByteSink(true).ascii("RIFF").uint(body.byteLength, 4).bytes(body).finish();
+    }
+    // #endregion
+
+    // #region Video
+    interface EncodedFrame {
+        data: Uint8Array;
+        /** In microseconds. */
+        timestamp: number;
+        /** In microseconds. */
+        duration: number;
+        key: boolean;
+        alpha?: Uint8Array;
+    }
+
+    /**
+     * How many frames may pass between keyframes, so that seeking around in the result isn't horribly slow.
+     */
+    const KEYFRAME_INTERVAL = 60;
+    /**
+     * Scaled by the quality; a decent rate for the kinds of clips people send.
+     */
+    const BITS_PER_PIXEL_PER_SECOND = 6;
+
+    function copyBytes(source: BufferSource) {
+        return ArrayBuffer.isView(source)
+            ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+            : new Uint8Array(source).slice();
+    }
+
+    async function pickSupportedConfig(candidates: VideoEncoderConfig[]): Promise<VideoEncoderConfig | null> {
+        for (const config of candidates) {
+            const { supported } = await VideoEncoder.isConfigSupported(config).catch(() => ({ supported: false }));
+            if (supported) return config;
+        }
+        return null;
+    }
+
+    async function encodeVideo(frames: AsyncIterable<Frame>, config: VideoEncoderConfig): Promise<{ chunks: EncodedFrame[], description?: Uint8Array; }> {
+        const chunks = new Array<EncodedFrame>();
+        let description: Uint8Array | undefined;
+        let failure: unknown = null;
+        const encoder = new VideoEncoder({
+            output(chunk, metadata) {
+                const data = new Uint8Array(chunk.byteLength);
+                chunk.copyTo(data);
+                // Not yet part of the typings, as only Chromium provides it.
+                const { alphaSideData } = (metadata ?? {}) as { alphaSideData?: BufferSource; };
+                const alpha = alphaSideData && copyBytes(alphaSideData);
+                if (metadata?.decoderConfig?.description) description = copyBytes(metadata.decoderConfig.description);
+                chunks.push({
+                    data,
+                    timestamp: chunk.timestamp,
+                    duration: chunk.duration ?? 0,
+                    key: chunk.type === "key",
+                    alpha
+                });
+            },
+            error(error) {
+                failure = error;
+            }
+        });
+
+        try {
+            encoder.configure(config);
+            let index = 0;
+            for await (const { canvas, timestamp, duration } of frames) {
+                if (failure) break;
+                const frame = new VideoFrame(canvas, {
+                    timestamp: Math.round(timestamp * 1_000_000),
+                    duration: Math.round(duration * 1_000_000),
+                    visibleRect: { x: 0, y: 0, width: config.width, height: config.height },
+                });
+                encoder.encode(frame, { keyFrame: index++ % KEYFRAME_INTERVAL === 0 });
+                frame.close();
+            }
+            if (!failure) await encoder.flush();
+        } finally {
+            if (encoder.state !== "closed") encoder.close();
+        }
+
+        if (failure) throw failure;
+        if (chunks.length === 0) throw new Error("Nothing to encode!");
+        return { chunks, description };
+    }
+
+    function getBitrate({ width, height, quality = 0.8 }: Options) {
+        return Math.round(width * height * BITS_PER_PIXEL_PER_SECOND * Math.max(quality, 0.05));
+    }
+    // #endregion
+
+    // #region WEBM
+    // https://www.matroska.org/technical/elements.html
+
+    const enum EBML {
+        Header = 0x1A45DFA3,
+        Version = 0x4286,
+        ReadVersion = 0x42F7,
+        MaxIDLength = 0x42F2,
+        MaxSizeLength = 0x42F3,
+        DocType = 0x4282,
+        DocTypeVersion = 0x4287,
+        DocTypeReadVersion = 0x4285,
+        Segment = 0x18538067,
+        Info = 0x1549A966,
+        TimestampScale = 0x2AD7B1,
+        Duration = 0x4489,
+        MuxingApp = 0x4D80,
+        WritingApp = 0x5741,
+        Tracks = 0x1654AE6B,
+        TrackEntry = 0xAE,
+        TrackNumber = 0xD7,
+        TrackUID = 0x73C5,
+        TrackType = 0x83,
+        FlagLacing = 0x9C,
+        CodecID = 0x86,
+        MaxBlockAdditionID = 0x55EE,
+        Video = 0xE0,
+        PixelWidth = 0xB0,
+        PixelHeight = 0xBA,
+        AlphaMode = 0x53C0,
+        Cluster = 0x1F43B675,
+        Timestamp = 0xE7,
+        SimpleBlock = 0xA3,
+        BlockGroup = 0xA0,
+        Block = 0xA1,
+        ReferenceBlock = 0xFB,
+        BlockAdditions = 0x75A1,
+        BlockMore = 0xA6,
+        BlockAddID = 0xEE,
+        BlockAdditional = 0xA5,
+    }
+
+    const WEBM_MUXING_APP = "Vencord ChatBubblification";
+    /**
+     * Block timestamps are signed 16-bit offsets from their cluster, in milliseconds.
+     */
+    const WEBM_MAX_CLUSTER_SPAN = 0x7FFF;
+
+    function ebmlID(id: EBML) {
+        const size = Math.ceil(Math.log2(id + 1) / 8);
+        return new ByteSink(false).uint(id, size).finish();
+    }
+
+    function ebmlSize(size: number) {
+        let length = 1;
+        while (size >= 2 ** (7 * length) - 1) length++;
+        const data = new ByteSink(false).uint(size, length).finish();
+        data[0] |= 1 << (8 - length);
+        return data;
+    }
+
+    function ebml(id: EBML, ...children: Uint8Array[]) {
+        const body = new ByteSink(false).bytes(...children).finish();
+        return new ByteSink(false).bytes(ebmlID(id), ebmlSize(body.byteLength), body).finish();
+    }
+
+    function ebmlUint(id: EBML, value: number) {
+        let size = 1;
+        while (value >= 2 ** (8 * size)) size++;
+        return ebml(id, new ByteSink(false).uint(value, size).finish());
+    }
+
+    function ebmlFloat(id: EBML, value: number) {
+        const data = new Uint8Array(8);
+        new DataView(data.buffer).setFloat64(0, value);
+        return ebml(id, data);
+    }
+
+    function ebmlString(id: EBML, value: string) {
+        return ebml(id, new TextEncoder().encode(value));
+    }
+
+    /**
+     * Marks a block as depending on the previous one, by the (negative) distance between their timestamps.
+     */
+    function ebmlReference(previous: EncodedFrame, current: EncodedFrame) {
+        const data = new Uint8Array(2);
+        new DataView(data.buffer).setInt16(0, Math.round(previous.timestamp / 1000) - Math.round(current.timestamp / 1000));
+        return ebml(EBML.ReferenceBlock, data);
+    }
+
+    function webmBlock(chunk: EncodedFrame, relative: number, flags: number) {
+        const header = new Uint8Array(4);
+        const view = new DataView(header.buffer);
+        header[0] = 0x81; // track number 1, as a vint
+        view.setInt16(1, relative);
+        header[3] = flags;
+        return new ByteSink(false).bytes(header, chunk.data).finish();
+    }
+
+    async function encodeWEBM(frames: AsyncIterable<Frame>, options: Options): Promise<Uint8Array> {
+        const { width, height } = options;
+        const base = { width, height, bitrate: getBitrate(options) };
+        const config = await pickSupportedConfig([
+            { ...base, codec: "vp09.00.10.08", alpha: "keep" },
+            { ...base, codec: "vp8", alpha: "keep" },
+            { ...base, codec: "vp09.00.10.08" },
+            { ...base, codec: "vp8" },
+        ]);
+        if (!config) throw new Error("This browser cannot encode WEBM videos!");
+        const { chunks } = await encodeVideo(frames, config);
+        const alpha = chunks.some(chunk => chunk.alpha !== undefined);
+        const last = chunks.at(-1)!;
+        const duration = (last.timestamp + last.duration) / 1000;
+
+        const clusters = new Array<Uint8Array>();
+        for (let i = 0; i < chunks.length;) {
+            const start = Math.round(chunks[i].timestamp / 1000);
+            const blocks = new Array<Uint8Array>();
+            for (; i < chunks.length; i++) {
+                const chunk = chunks[i];
+                const relative = Math.round(chunk.timestamp / 1000) - start;
+                if (blocks.length !== 0 && (chunk.key || relative > WEBM_MAX_CLUSTER_SPAN)) break;
+                if (chunk.alpha) {
+                    blocks.push(ebml(EBML.BlockGroup,
+                        ebml(EBML.Block, webmBlock(chunk, relative, 0)),
+                        ...(chunk.key ? [] : [ebmlReference(chunks[i - 1], chunk)]),
+                        ebml(EBML.BlockAdditions, ebml(EBML.BlockMore,
+                            ebmlUint(EBML.BlockAddID, 1),
+                            ebml(EBML.BlockAdditional, chunk.alpha)
+                        ))
+                    ));
+                } else {
+                    blocks.push(ebml(EBML.SimpleBlock, webmBlock(chunk, relative, chunk.key ? 0x80 : 0)));
+                }
+            }
+            clusters.push(ebml(EBML.Cluster, ebmlUint(EBML.Timestamp, start), ...blocks));
+        }
+
+        return new ByteSink(false).bytes(
+            ebml(EBML.Header,
+                ebmlUint(EBML.Version, 1),
+                ebmlUint(EBML.ReadVersion, 1),
+                ebmlUint(EBML.MaxIDLength, 4),
+                ebmlUint(EBML.MaxSizeLength, 8),
+                ebmlString(EBML.DocType, "webm"),
+                ebmlUint(EBML.DocTypeVersion, 4),
+                ebmlUint(EBML.DocTypeReadVersion, 2),
+            ),
+            ebml(EBML.Segment,
+                ebml(EBML.Info,
+                    ebmlUint(EBML.TimestampScale, 1_000_000), // milliseconds
+                    ebmlFloat(EBML.Duration, duration),
+                    ebmlString(EBML.MuxingApp, WEBM_MUXING_APP),
+                    ebmlString(EBML.WritingApp, WEBM_MUXING_APP),
+                ),
+                ebml(EBML.Tracks, ebml(EBML.TrackEntry,
+                    ebmlUint(EBML.TrackNumber, 1),
+                    ebmlUint(EBML.TrackUID, 1),
+                    ebmlUint(EBML.TrackType, 1), // video
+                    ebmlUint(EBML.FlagLacing, 0),
+                    ebmlString(EBML.CodecID, config.codec === "vp8" ? "V_VP8" : "V_VP9"),
+                    ...(alpha ? [ebmlUint(EBML.MaxBlockAdditionID, 1)] : []),
+                    ebml(EBML.Video,
+                        ebmlUint(EBML.PixelWidth, width),
+                        ebmlUint(EBML.PixelHeight, height),
+                        ...(alpha ? [ebmlUint(EBML.AlphaMode, 1)] : []),
+                    ),
+                )),
+                ...clusters,
+            )
+        ).finish();
+    }
+    // #endregion
+
+    // #region MP4
+    // ISO/IEC 14496-12 and 14496-15; only what's needed for a single H.264 track.
+
+    /**
+     * Tried in order; the baseline profile is last since it's all OpenH264 builds can do.
+     */
+    const AVC_CODECS = ["avc1.640033", "avc1.4D0033", "avc1.420033"];
+    const MP4_MOVIE_TIMESCALE = 1000;
+    const MP4_MEDIA_TIMESCALE = 90_000;
+    const MP4_IDENTITY_MATRIX = [0x0001_0000, 0, 0, 0, 0x0001_0000, 0, 0, 0, 0x4000_0000];
+
+    function box(type: string, ...payload: Uint8Array[]) {
+        const body = new ByteSink(false).bytes(...payload);
+        return new ByteSink(false).uint(8 + body.length, 4).ascii(type).bytes(body.finish()).finish();
+    }
+
+    function fullbox(type: string, version: number, flags: number, ...payload: Uint8Array[]) {
+        return box(type, new ByteSink(false).uint(version, 1).uint(flags, 3).finish(), ...payload);
+    }
+
+    function uints(size: number, ...values: number[]) {
+        const sink = new ByteSink(false);
+        for (const value of values) sink.uint(value, size);
+        return sink.finish();
+    }
+
+    async function encodeMP4(frames: AsyncIterable<Frame>, options: Options): Promise<Uint8Array> {
+        // H.264 only works with 4:2:0 subsampling, which needs even dimensions.
+        const width = options.width & ~1;
+        const height = options.height & ~1;
+        const bitrate = getBitrate(options);
+        const config = await pickSupportedConfig(AVC_CODECS.map(codec => ({ codec, width, height, bitrate, avc: { format: "avc" } })));
+        if (!config) throw new Error("This browser cannot encode MP4 videos!");
+        const { chunks, description } = await encodeVideo(frames, config);
+        if (!description) throw new Error("Encoder did not provide a decoder configuration!");
+
+        const toMediaTime = (us: number) => Math.round(us * MP4_MEDIA_TIMESCALE / 1_000_000);
+        const last = chunks.at(-1)!;
+        const mediaDuration = toMediaTime(last.timestamp + last.duration);
+        const movieDuration = Math.round(mediaDuration * MP4_MOVIE_TIMESCALE / MP4_MEDIA_TIMESCALE);
+
+        const deltas = chunks.map((chunk, i) => {
+            const next = chunks[i + 1];
+            return next ? toMediaTime(next.timestamp) - toMediaTime(chunk.timestamp) : toMediaTime(chunk.duration);
+        });
+        const timeToSample = new Array<[count: number, delta: number]>();
+        for (const delta of deltas) {
+            const run = timeToSample.at(-1);
+            if (run && run[1] === delta) run[0]++;
+            else timeToSample.push([1, delta]);
+        }
+        const keyframes = chunks.flatMap((chunk, i) => chunk.key ? [i + 1] : []);
+
+        const ftyp = box("ftyp", new ByteSink(false).ascii("isom").uint(0x200, 4).ascii("isomiso2avc1mp41").finish());
+        const moov = (mdatOffset: number) => box("moov",
+            fullbox("mvhd", 0, 0, uints(4, 0, 0, MP4_MOVIE_TIMESCALE, movieDuration, 0x0001_0000), uints(2, 0x0100, 0), uints(4, 0, 0, ...MP4_IDENTITY_MATRIX, 0, 0, 0, 0, 0, 0, 2)),
+            box("trak",
+                fullbox("tkhd", 0, 0b11, uints(4, 0, 0, 1, 0, movieDuration, 0, 0), uints(2, 0, 0, 0, 0), uints(4, ...MP4_IDENTITY_MATRIX, width * 0x1_0000, height * 0x1_0000)),
+                box("mdia",
+                    fullbox("mdhd", 0, 0, uints(4, 0, 0, MP4_MEDIA_TIMESCALE, mediaDuration), uints(2, 0x55C4 /* und */, 0)),
+                    fullbox("hdlr", 0, 0, uints(4, 0), new ByteSink(false).ascii("vide").finish(), uints(4, 0, 0, 0), new ByteSink(false).ascii("VideoHandler\0").finish()),
+                    box("minf",
+                        fullbox("vmhd", 0, 1, uints(2, 0, 0, 0, 0)),
+                        box("dinf", fullbox("dref", 0, 0, uints(4, 1), fullbox("url ", 0, 1))),
+                        box("stbl",
+                            fullbox("stsd", 0, 0, uints(4, 1), box("avc1",
+                                uints(1, 0, 0, 0, 0, 0, 0), uints(2, 1, 0, 0), uints(4, 0, 0, 0),
+                                uints(2, width, height), uints(4, 0x0048_0000, 0x0048_0000, 0), uints(2, 1),
+                                new Uint8Array(32), // compressor name
+                                uints(2, 0x0018, 0xFFFF),
+                                box("avcC", description)
+                            )),
+                            fullbox("stts", 0, 0, uints(4, timeToSample.length, ...timeToSample.flat())),
+                            fullbox("stss", 0, 0, uints(4, keyframes.length, ...keyframes)),
+                            fullbox("stsc", 0, 0, uints(4, 1, 1, chunks.length, 1)),
+                            fullbox("stsz", 0, 0, uints(4, 0, chunks.length, ...chunks.map(chunk => chunk.data.byteLength))),
+                            fullbox("stco", 0, 0, uints(4, 1, mdatOffset)),
+                        )
+                    )
+                )
+            )
+        );
+
+        // The size of `moov` doesn't depend on the offset, so it can be measured first.
+        const mdatOffset = ftyp.byteLength + moov(0).byteLength + 8;
+        const mdat = box("mdat", ...chunks.map(chunk => chunk.data));
+        return new ByteSink(false).bytes(ftyp, moov(mdatOffset), mdat).finish();
+    }
+    // #endregion
+}
@@ -6,6 +6,7 @@
 
 import "./style.css";
 
+import { ApplicationCommandInputType, ApplicationCommandOptionType, Argument, CommandContext, findOption, sendBotMessage } from "@api/Commands";
 import { findGroupChildrenByChildId, NavContextMenuPatchCallback } from "@api/ContextMenu";
 import { Upload } from "@api/MessageEvents";
 import { definePluginSettings } from "@api/Settings";
@@ -17,13 +18,18 @@ import { Devs } from "@utils/constants";
 import { Logger } from "@utils/Logger";
 import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, openModal, openModalLazy } from "@utils/modal";
 import definePlugin, { OptionType, PluginNative } from "@utils/types";
-import { findByCodeLazy } from "@webpack";
-import { Alerts, Button, Forms, lodash, Menu, React, Select, Text, UploadManager, useEffect, useMemo, useRef, useState, zustandCreate } from "@webpack/common";
+import { chooseFile, saveFile } from "@utils/web";
+import { findByCodeLazy, findByPropsLazy } from "@webpack";
+import { Alerts, Button, DraftType, Forms, lodash, Menu, React, Select, showToast, Text, TextInput, Toasts, UploadHandler, UploadManager, useEffect, useMemo, useRef, useState, zustandCreate } from "@webpack/common";
 import { Channel, Message } from "discord-types/general";
 import { applyPalette, Encoder, GIFEncoder, quantize } from "gifenc";
 import { Flatten } from "ts-pattern/dist/types/helpers";
 
-import { assertUnreachable, ChatbubbleCanvasExportFormat, ChatbubbleExportFormat, ChatbubblePoints, Dimensions, isChatbubbleExportFormatSupportedWithoutFFmpeg, Rectangle } from "./shared";
+import { ChatbubbleEncoding } from "./encoding";
+import { ChatbubblePresets } from "./presets";
+import { ChatbubbleExportQueue } from "./queue";
+import { assertUnreachable, ChatbubbleCanvasExportFormat, ChatbubbleExportFormat, ChatbubbleFFmpegDelegationFailureKind, ChatbubbleFFmpegOptions, ChatbubblePoints, ChatbubbleTemporaryDirectory, Dimensions, isChatbubbleExportFormatSupportedWithoutFFmpeg, Rectangle } from "./shared";
+import { usePromiseExecutor } from "./suspense-aids";
 type CoordinateTuple = ChatbubblePoints.CoordinateTuple;
 type NormalizedPointList<T extends CoordinateTuple[] = CoordinateTuple[]> = ChatbubblePoints.NormalizedPointList<T>;
 const { NormalizedPointList } = ChatbubblePoints;
@@ -76,8 +82,22 @@ namespace Color {
 
 const logger = new Logger("ChatBubblification");
 
+const CHATBUBBLE_EXPORT_FORMAT_OPTIONS = [
+    { value: ChatbubbleExportFormat.GIF, label: "GIF" },
+    { value: ChatbubbleExportFormat.PNG, label: "PNG" },
+    { value: ChatbubbleExportFormat.MP4, label: "MP4" },
+    { value: ChatbubbleExportFormat.WEBM, label: "WEBM" },
+    { value: ChatbubbleExportFormat.WEBP, label: "WEBP" },
+];
+
 const ActionBarIcon = findByCodeLazy(".actionBarIcon)");
+const UploadStore = findByPropsLazy("getUploads");
+const PendingReplyStore = findByPropsLazy("getPendingReply");
 const Native = VencordNative.pluginHelpers.ChatBubblification as PluginNative<typeof import("./native")>;
+/**
+ * In milliseconds; plugin natives can only be invoked, so the renderer has to ask for progress.
+ */
+const FFMPEG_PROGRESS_POLL_INTERVAL = 250;
 
 const cl = classNameFactory("vc-cb-");
 
@@ -214,6 +234,33 @@ function makeCanvas({ width, height }: Dimensions, type: typeof OffscreenCanvas
     return { canvas, context };
 }
 
+async function fetchMediaFile(url: string, mime?: string, name = "media"): Promise<File> {
+    const fetched = await fetch(url, {
+        headers: mime?.startsWith("video") ? { "range": "bytes=0-" } : undefined,
+    });
+
+    const modified = fetched.headers.get("last-modified");
+    return new File([await fetched.blob()], name, {
+        lastModified: modified ? Number(new Date(modified)) : Date.now(),
+        type: fetched.headers.get("content-type") ?? mime
+    });
+}
+
+/**
+ * @returns the exported file, or null if the export was cancelled or failed (in which case the editor should stay open)
+ */
+async function exportFromEditor(chatbubble: Chatbubble, filename: string): Promise<File | null> {
+    try {
+        return await chatbubble.export(filename);
+    } catch (error) {
+        if (!(error instanceof ChatbubbleExportQueue.CancelledError)) {
+            logger.error("Failed to export chatbubble", error);
+            showToast("Failed to export the chatbubble!", Toasts.Type.FAILURE);
+        }
+        return null;
+    }
+}
+
 function ChatBubbleContextMenuItem({ url, mime, channel }: { url: string, mime?: string, channel: Channel; }) {
     return (
         <Menu.MenuItem
@@ -222,24 +269,17 @@ function ChatBubbleContextMenuItem({ url, mime, channel }: { url: string, mime?:
             key="chatbubble-prompt"
             id="chatbubble-prompt"
             action={async () => {
-                const fetched = await fetch(url, {
-                    headers: mime?.startsWith("video") ? { "range": "bytes=0-" } : undefined,
-                });
-
-                const modified = fetched.headers.get("last-modified"); // todo: get name
-                const file = new File([await fetched.blob()], "media", {
-                    lastModified: modified ? Number(new Date(modified)) : Date.now(),
-                    type: fetched.headers.get("content-type") ?? mime
-                });
+                const file = await fetchMediaFile(url, mime); // todo: get name
 
                 const chatbubble = await Chatbubble.forFile(file);
                 openModal(props => <EditorModal
                     modal={props}
                     chatbubble={chatbubble}
                     close={async save => {
-                        props.onClose();
                         if (save) {
-                            const file = await chatbubble.export("bubble");
+                            const file = await exportFromEditor(chatbubble, "bubble");
+                            if (!file) return;
+                            props.onClose();
                             chatbubble.persistUnderAssociatedFile(file);
                             UploadManager.addFile({
                                 channelId: channel.id,
@@ -252,6 +292,7 @@ function ChatBubbleContextMenuItem({ url, mime, channel }: { url: string, mime?:
                                 }
                             });
                         } else {
+                            props.onClose();
                             chatbubble.release();
                         }
                     }}
@@ -275,6 +316,72 @@ interface MessageContextMenuProperties {
     mediaItem: MessageContextMenuMediaItem | undefined;
 }
 
+function isChatbubbleCompatibleMime(mime: string | undefined): boolean {
+    return !!mime && (mime.startsWith("image") || mime.startsWith("video"));
+}
+
+function stripExtension(filename: string) {
+    const dot = filename.lastIndexOf(".");
+    return dot > 0 ? filename.slice(0, dot) : filename;
+}
+
+/**
+ * @returns every file the command was asked to convert: the attached one, and those on the message being replied to
+ */
+async function resolveCommandFiles(args: Argument[], ctx: CommandContext): Promise<File[]> {
+    const files = new Array<File>();
+
+    const upload = findOption(args, "image") !== undefined
+        ? UploadStore.getUpload(ctx.channel.id, "image", DraftType.SlashCommand)
+        : null;
+    if (upload) {
+        if (!isChatbubbleCompatibleMime(upload.item.file.type)) throw new Error("The attachment is not an image or video!");
+        files.push(upload.item.file);
+    }
+
+    const reply: { message: Message; } | undefined = PendingReplyStore.getPendingReply(ctx.channel.id);
+    if (reply) {
+        const attachments = reply.message.attachments.filter(attachment => isChatbubbleCompatibleMime(attachment.content_type));
+        files.push(...await Promise.all(attachments.map(attachment =>
+            fetchMediaFile(attachment.url, attachment.content_type, attachment.filename)
+        )));
+    }
+
+    return files;
+}
+
+async function executeChatbubbleCommand(args: Argument[], ctx: CommandContext) {
+    try {
+        const presetName = findOption<string>(args, "preset");
+        const format = findOption(args, "format", ChatbubbleExportFormat.GIF);
+
+        let preset: ChatbubblePresets.Preset | undefined;
+        if (presetName !== undefined) {
+            preset = ChatbubblePresets.useStore.getState().list.find(preset => preset.name === presetName);
+            if (!preset) throw new Error(`There is no preset named **${presetName}**!`);
+        }
+
+        const files = await resolveCommandFiles(args, ctx);
+        UploadManager.clearAll(ctx.channel.id, DraftType.SlashCommand);
+        if (files.length === 0) throw new Error("Nothing to convert! Attach an image or reply to a message with attachments.");
+
+        const converted = new Array<File>();
+        for (const file of files) {
+            converted.push(await Chatbubble.convert(file, { preset, format, filename: stripExtension(file.name) + "-bubble" }));
+        }
+
+        // Immediately after the command finishes, Discord clears all input, including pending attachments.
+        // Thus, setTimeout is needed to make this execute after Discord cleared the input
+        setTimeout(() => UploadHandler.promptToUpload(converted, ctx.channel, DraftType.ChannelMessage), 10);
+    } catch (error) {
+        logger.error("Failed to convert attachments", error);
+        UploadManager.clearAll(ctx.channel.id, DraftType.SlashCommand);
+        sendBotMessage(ctx.channel.id, {
+            content: error instanceof Error ? error.message : String(error),
+        });
+    }
+}
+
 const messageAttachmentContextMenu: NavContextMenuPatchCallback = (children: Array<React.ReactElement | null>, props: MessageContextMenuProperties) => {
     const url = props.itemSafeSrc; if (!url) return;
     const mime = props.mediaItem?.contentType;
@@ -282,18 +389,73 @@ const messageAttachmentContextMenu: NavContextMenuPatchCallback = (children: Arr
     group?.push(ChatBubbleContextMenuItem({ url, mime, channel: props.channel }));
 };
 
+const settings = definePluginSettings({
+    showInContextMenu: {
+        type: OptionType.BOOLEAN,
+        default: true,
+        description: "Show an icon for toggling the plugin",
+        restartNeeded: true,
+    },
+    presets: {
+        type: OptionType.COMPONENT,
+        description: "Manage saved bubble shape presets",
+        component: () => <ChatbubblePresetManager />
+    },
+    tempDirectory: {
+        type: OptionType.SELECT,
+        description: "Where to put the temporary files used while exporting with FFmpeg",
+        options: [
+            { label: "System default", value: ChatbubbleTemporaryDirectory.SYSTEM, default: true },
+            { label: "/tmp", value: ChatbubbleTemporaryDirectory.FHS_TMP },
+            { label: "%TEMP%", value: ChatbubbleTemporaryDirectory.WINDOWS_ENVIRONMENTAL_TEMP },
+            { label: "%USERPROFILE%\\AppData\\Local\\Temp", value: ChatbubbleTemporaryDirectory.WINDOWS_APPDATA_TEMP },
+        ],
+    },
+    cleanupAfterExport: {
+        type: OptionType.BOOLEAN,
+        default: true,
+        description: "Remove temporary files as soon as an export finishes",
+    },
+    cleanupOnStop: {
+        type: OptionType.BOOLEAN,
+        default: true,
+        description: "Remove temporary files when the plugin is stopped",
+    },
+    cleanupOnStartup: {
+        type: OptionType.BOOLEAN,
+        default: true,
+        description: "Remove temporary files left over from previous sessions when the plugin starts",
+    },
+    cleanupOnExit: {
+        type: OptionType.BOOLEAN,
+        default: true,
+        description: "Remove temporary files when Discord closes",
+    },
+});
+
+/**
+ * @returns how many bytes were freed, or null if there's nothing to purge
+ */
+async function purgeTemporaryFiles(): Promise<number | null> {
+    if (IS_WEB) return null;
+    return Native.purgeTemporaryFiles();
+}
+
+function formatBytes(bytes: number) {
+    const units = ["B", "KiB", "MiB", "GiB"];
+    let unit = 0;
+    while (bytes >= 1024 && unit < units.length - 1) {
+        bytes /= 1024;
+        unit++;
+    }
+    return (unit === 0 ? bytes : bytes.toFixed(1)) + " " + units[unit];
+}
+
 export default definePlugin({
     name: "ChatBubblification",
     description: "Convert attachments into chatbubbles of various shapes and sizes.",
     authors: [Devs.katini],
-    settings: definePluginSettings({
-        showInContextMenu: {
-            type: OptionType.BOOLEAN,
-            default: true,
-            description: "Show an icon for toggling the plugin",
-            restartNeeded: true,
-        }
-    }),
+    settings,
     patches: [
         {
             // TODO: maybe make an api for this?
@@ -322,6 +484,49 @@ export default definePlugin({
         }
     ],
 
+    async start() {
+        if (settings.store.cleanupOnStartup) purgeTemporaryFiles().catch(error => logger.error("Failed to purge temporary files", error));
+        await ChatbubblePresets.useStore.getState().load();
+    },
+
+    stop() {
+        if (settings.store.cleanupOnStop) purgeTemporaryFiles().catch(error => logger.error("Failed to purge temporary files", error));
+    },
+
+    toolboxActions: {
+        async "Purge Temporary Files"() {
+            const freed = await purgeTemporaryFiles();
+            showToast(freed === null ? "There are no temporary files to purge." : `Freed ${formatBytes(freed)}!`, Toasts.Type.SUCCESS);
+        }
+    },
+
+    commands: [
+        {
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            name: "chatbubble",
+            description: "Turn an attachment, or every attachment on the message you're replying to, into a chatbubble",
+            options: [
+                {
+                    name: "image",
+                    description: "Image or video to convert",
+                    type: ApplicationCommandOptionType.ATTACHMENT
+                },
+                {
+                    name: "preset",
+                    description: "Name of the shape preset to use. Uses the default shape if not provided.",
+                    type: ApplicationCommandOptionType.STRING
+                },
+                {
+                    name: "format",
+                    description: "Format to export as. Defaults to GIF.",
+                    type: ApplicationCommandOptionType.STRING,
+                    choices: CHATBUBBLE_EXPORT_FORMAT_OPTIONS.map(({ label, value }) => ({ name: label, label, value }))
+                }
+            ],
+            execute: executeChatbubbleCommand,
+        }
+    ],
+
     deregisterUpload({ item: { file } }: Upload | { item: { file: File; }; }) {
         const chatbubble = Chatbubble.fileMapped.get(file);
         if (chatbubble) {
@@ -341,21 +546,21 @@ export default definePlugin({
                         modal={props}
                         chatbubble={chatbubble}
                         close={async save => {
+                            if (!save) return props.onClose();
+                            const file = await exportFromEditor(chatbubble, wrapped.upload.item.file.name);
+                            if (!file) return;
                             props.onClose();
-                            if (save) {
-                                const file = await chatbubble.export(wrapped.upload.item.file.name);
-                                chatbubble.persistUnderAssociatedFile(file);
-                                UploadManager.setFile({
-                                    file: {
-                                        file,
-                                        isThumbnail: false,
-                                        platform: 1
-                                    },
-                                    channelId: (wrapped.upload as unknown as { channelId: string; }).channelId,
-                                    id: wrapped.upload.id,
-                                    draftType: 0,
-                                });
-                            }
+                            chatbubble.persistUnderAssociatedFile(file);
+                            UploadManager.setFile({
+                                file: {
+                                    file,
+                                    isThumbnail: false,
+                                    platform: 1
+                                },
+                                channelId: (wrapped.upload as unknown as { channelId: string; }).channelId,
+                                id: wrapped.upload.id,
+                                draftType: 0,
+                            });
                         }}
                     />;
                 })}
@@ -405,54 +610,189 @@ const enum DrawingMode {
     Final
 }
 
+const enum OutlineStyle {
+    Solid = "solid",
+    Dashed = "dashed",
+    Dotted = "dotted",
+}
+
+const OUTLINE_STYLE_OPTIONS = [
+    { label: "Solid", value: OutlineStyle.Solid },
+    { label: "Dashed", value: OutlineStyle.Dashed },
+    { label: "Dotted", value: OutlineStyle.Dotted },
+];
+
+function getOutlineDashPattern(style: OutlineStyle, width: number): number[] {
+    switch (style) {
+        case OutlineStyle.Solid: return [];
+        case OutlineStyle.Dashed: return [width * 3, width * 2];
+        // the round caps fill the gaps back in, so the dots need to be spaced further apart
+        case OutlineStyle.Dotted: return [0, width * 2];
+        default: assertUnreachable(style);
+    }
+}
+
+interface CaptionConfiguration {
+    top: string;
+    bottom: string;
+    font: string;
+    /** Relative to the height of the cropped area. */
+    size: number;
+    color: Color.Hex;
+    stroke: {
+        color: Color.Hex;
+        /** Relative to the font size. */
+        width: number;
+    };
+}
+
+/** Relative to the height of the cropped area. */
+const CAPTION_MARGIN = 0.03;
+/** Relative to the font size. */
+const CAPTION_LINE_HEIGHT = 1.1;
+
+/**
+ * Splits the text into lines no wider than the given width, breaking between words where possible.
+ */
+function wrapCaption(context: CanvasContext2D, text: string, maxWidth: number): string[] {
+    const lines = new Array<string>();
+    for (const paragraph of text.split("\n")) {
+        let line = String();
+        for (const word of paragraph.split(/\s+/)) {
+            const candidate = line ? line + " " + word : word;
+            if (line && context.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+}
+
 class ChatbubbleCanvasRenderer implements CanvasRenderingEnvironment {
     public clear() {
         this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
     }
 
-    public drawImage() {
-        if (!(this.configuration.source instanceof HTMLImageElement)) throw new Error("Can only use `drawImage` with image sources!");
+    /**
+     * @param image a frame of the source, which is drawn by default (only possible for image sources)
+     */
+    public drawImage(image: CanvasImageSource = this.configuration.source) {
+        if (image === this.configuration.source && !(image instanceof HTMLImageElement)) throw new Error("Can only use `drawImage` with image sources!");
         this.context.globalCompositeOperation = "source-over";
         const { x, y } = this.configuration.getCroppedRectangle(this.configuration.uncroppedResolution);
-        this.context.drawImage(this.configuration.source,
+        this.context.drawImage(image,
             x, y, this.canvas.width, this.canvas.height,
             0, 0, this.canvas.width, this.canvas.height
         );
     }
 
     public drawBubbleStroke(path: Path2D) {
+        const { width, color, style } = this.configuration.stroke;
         this.context.globalAlpha = 1;
         this.context.globalCompositeOperation = "source-over";
-        this.context.lineWidth = this.configuration.stroke.width;
-        this.context.strokeStyle = this.configuration.stroke.color;
+        this.context.lineWidth = width;
+        this.context.strokeStyle = color;
+        this.context.lineJoin = "round";
+        this.context.lineCap = style === OutlineStyle.Dotted ? "round" : "butt";
+        this.context.setLineDash(getOutlineDashPattern(style, width));
         this.context.stroke(path);
+        this.context.setLineDash([]);
+        this.context.lineCap = "butt";
     }
 
-    public drawBubble({ stroke: strokeForceDisable }: { stroke?: false; } = {}): Path2D {
-        const transparent = this.configuration.fill === Color.TRANSPARENT;
+    /**
+     * Fills every shape onto the merging canvas, so they can be composited all at once.
+     * @returns the combined outline of the shapes
+     */
+    protected drawShapesOffscreen(fill: CanvasContext2D["fillStyle"]): Path2D {
         const offscreen = this.mergeOffscreen.getContext("2d")!;
         offscreen.clearRect(0, 0, offscreen.canvas.width, offscreen.canvas.height);
+        offscreen.fillStyle = fill;
 
         const path = new Path2D();
         const space = this.getOffsetCanvasSpace();
-        const shapes = this.configuration.shapes.getState().list;
-
-        offscreen.fillStyle = transparent
-            ? (this.mode === DrawingMode.Final)
-                ? Color.BLACK
-                : this.transparencyPattern.get()
-            : this.configuration.fill;
-
-        for (const shape of shapes) {
+        for (const shape of this.configuration.shapes.getState().list) {
             if (!(shape instanceof AbstractDrawnPathedShape)) {
                 throw new Error("Unsupported shape! :c");
             }
             shape.draw(offscreen, space, { fill: true });
             path.addPath(shape.getPath(space));
         }
+        return path;
+    }
+
+    /**
+     * Draws only the part of the outline which lies outside of the bubble, for when the bubble itself is being handled elsewhere.
+     */
+    public drawOutline() {
+        if (!this.configuration.hasStroke) return;
+        const path = this.drawShapesOffscreen(Color.BLACK);
+        this.drawBubbleStroke(path);
+        this.context.globalCompositeOperation = "destination-out";
+        this.context.drawImage(this.mergeOffscreen, 0, 0);
+        this.context.globalCompositeOperation = "source-over";
+    }
+
+    /**
+     * @returns where captions go, which is within the cropped area
+     */
+    protected getCaptionSpace(): Rectangle {
+        switch (this.mode) {
+            case DrawingMode.Preview: return this.configuration.getCroppedRectangle(this.canvas);
+            case DrawingMode.Final: return { x: 0, y: 0, width: this.canvas.width, height: this.canvas.height };
+            default: assertUnreachable(this.mode);
+        }
+    }
+
+    public drawCaptions() {
+        const { captions } = this.configuration;
+        const space = this.getCaptionSpace();
+        const margin = space.height * CAPTION_MARGIN;
+        const maxWidth = space.width - margin * 2;
+        const size = space.height * captions.size;
 
-        const { stroke } = this.configuration;
-        const doDrawStroke = (strokeForceDisable === false) && stroke.color !== Color.TRANSPARENT && stroke.width > 0;
+        this.context.globalAlpha = 1;
+        this.context.globalCompositeOperation = "source-over";
+        this.context.font = `${size}px ${captions.font}`;
+        this.context.textAlign = "center";
+        this.context.lineJoin = "round";
+        this.context.fillStyle = captions.color;
+        this.context.strokeStyle = captions.stroke.color;
+        this.context.lineWidth = size * captions.stroke.width;
+        const x = space.x + space.width / 2;
+
+        for (const [text, edge] of [[captions.top, "top"], [captions.bottom, "bottom"]] as const) {
+            if (text.trim().length === 0) continue;
+            const lines = wrapCaption(this.context, text.trim(), maxWidth);
+            const lineHeight = size * CAPTION_LINE_HEIGHT;
+            this.context.textBaseline = edge;
+            for (let i = 0; i < lines.length; i++) {
+                const y = edge === "top"
+                    ? space.y + margin + i * lineHeight
+                    : space.y + space.height - margin - (lines.length - i - 1) * lineHeight;
+                if (captions.stroke.width > 0) this.context.strokeText(lines[i], x, y, maxWidth);
+                this.context.fillText(lines[i], x, y, maxWidth);
+            }
+        }
+    }
+
+    public drawBubble({ stroke: strokeEnabled, captions: captionsEnabled }: { stroke?: false; captions?: false; } = {}): Path2D {
+        const transparent = this.configuration.fill === Color.TRANSPARENT;
+        const offscreen = this.mergeOffscreen.getContext("2d")!;
+        const space = this.getOffsetCanvasSpace();
+        const shapes = this.configuration.shapes.getState().list;
+
+        const path = this.drawShapesOffscreen(transparent
+            ? (this.mode === DrawingMode.Final)
+                ? Color.BLACK
+                : this.transparencyPattern.get()
+            : this.configuration.fill);
+
+        const doDrawStroke = (strokeEnabled !== false) && this.configuration.hasStroke;
         if (doDrawStroke) this.drawBubbleStroke(path);
         if (transparent) {
             if (this.mode === DrawingMode.Final) {
@@ -474,10 +814,12 @@ class ChatbubbleCanvasRenderer implements CanvasRenderingEnvironment {
             this.context.globalAlpha = 1;
         }
 
+        if (captionsEnabled !== false && this.configuration.hasCaptions) this.drawCaptions();
+
         if (this.mode === DrawingMode.Preview) {
             for (const shape of shapes) {
                 shape.draw(this.context, space, { stroke: "#00FF00", lineWidth: 3 });
-                if (shape instanceof DrawnBezierCurve) {
+                if (shape instanceof DrawnBezierCurve || shape instanceof DrawnBezierSpline) {
                     shape.drawControlLines(this.context, space, { stroke: "blue" });
                 }
             }
@@ -581,6 +923,10 @@ class ChatbubbleCanvasRenderer implements CanvasRenderingEnvironment {
     }
 }
 
+function clonePointList<T extends readonly CoordinateTuple[]>(points: T): NormalizedPointList<{ -readonly [N in keyof T]: T[N] }> {
+    return new NormalizedPointList(points.map(([x, y]) => [x, y] as const) as never);
+}
+
 class ChatbubbleConfiguration {
     public static async forFile(file: File) {
         type MediaConstructor = new () => ConstructorParameters<typeof ChatbubbleConfiguration>[1];
@@ -600,13 +946,54 @@ class ChatbubbleConfiguration {
         this.uncroppedResolution = Object.seal(getNaturalDimensions(source));
     }
 
+    /**
+     * Elements displayed in place of the source, which should be clipped to the crop just like it.
+     */
+    public readonly clipMirrors = new Set<HTMLElement>();
+
     public removeCropClip() {
         this.source.style.clipPath = String();
+        for (const mirror of this.clipMirrors) mirror.style.clipPath = String();
     }
 
     public updateCropClip() {
         const { x, y, width, height } = this.getCroppedRectangle({ width: 1, height: 1 });
         this.source.style.clipPath = "xywh(" + [x, y, width, height].map(n => (n * 100) + "%").join(" ") + ")";
+        for (const mirror of this.clipMirrors) mirror.style.clipPath = this.source.style.clipPath;
+    }
+
+    public get animated() {
+        return this.file.type.startsWith("video") || this.file.type === ChatbubbleExportFormat.GIF;
+    }
+
+    private timeline: Promise<ChatbubbleTimeline | null> | null = null;
+    /**
+     * The timeline is only loaded upon request, as decoding every frame of an animated image isn't free.
+     */
+    public getTimeline(): Promise<ChatbubbleTimeline | null> {
+        return this.timeline ??= ChatbubbleTimeline.for(this);
+    }
+
+    public releaseTimeline() {
+        this.timeline?.then(timeline => timeline?.release());
+        this.timeline = null;
+    }
+
+    /**
+     * In seconds; an `end` of `null` means the media plays until it's done.
+     */
+    public readonly trim = zustandCreate<TrimStore>(() => ({ start: 0, end: null }));
+
+    /**
+     * @returns the trim range in microseconds, or undefined if nothing is being trimmed
+     */
+    public getTrimMicroseconds(): ChatbubbleFFmpegOptions["target"]["trim"] {
+        const { start, end } = this.trim.getState();
+        if (!this.animated || (start === 0 && end === null)) return undefined;
+        return {
+            start: BigInt(Math.round(start * 1_000_000)),
+            end: end === null ? undefined : BigInt(Math.round(end * 1_000_000)),
+        };
     }
 
     public getCroppedRectangle(scale: Dimensions): Rectangle;
@@ -625,7 +1012,69 @@ class ChatbubbleConfiguration {
     }
 
 
-    public stroke: { color: Color.Hex, width: number; } = { color: Color.BLACK, width: 0 };
+    /**
+     * @returns the point lists of the shapes making up the bubble, which are shared with (not copied from) the stores
+     */
+    public getPointLists(): ChatbubblePoints.List.Entries {
+        const { list } = this.shapes.getState();
+        const bezier = list.find(shape => shape instanceof DrawnBezierCurve);
+        const spike = list.find(shape => shape instanceof DrawnPolygon && !(shape instanceof DrawnBezierCurve) && !isShapePointsExtensible(shape));
+        if (!bezier || !spike) throw new Error("Bubble is missing a required shape!");
+        return {
+            [ChatbubblePoints.List.Identifier.Bezier]: bezier.normalizedPoints,
+            [ChatbubblePoints.List.Identifier.Spike]: (spike as DrawnPolygon<3>).normalizedPoints,
+            [ChatbubblePoints.List.Identifier.Crop]: this.crop.getState().corners,
+        };
+    }
+
+    public capturePreset(name: string): ChatbubblePresets.Preset {
+        const lists = this.getPointLists();
+        const shapes = new Array<ChatbubblePresets.Shape>();
+        for (const shape of this.shapes.getState().list) {
+            if (shape instanceof DrawnBezierSpline) shapes.push({ kind: ChatbubblePresets.ShapeKind.Spline, points: shape.normalizedPoints.normalized });
+            else if (shape instanceof DrawnFreeformPolygon) shapes.push({ kind: ChatbubblePresets.ShapeKind.Polygon, points: shape.normalizedPoints.normalized });
+        }
+        return ChatbubblePresets.validate({
+            name,
+            points: lodash.mapValues(lists, list => list.normalized),
+            shapes
+        });
+    }
+
+    public applyPreset({ points, shapes }: ChatbubblePresets.Preset) {
+        this.shapes.setState({
+            list: [
+                new DrawnBezierCurve(clonePointList(points[ChatbubblePoints.List.Identifier.Bezier])),
+                new DrawnPolygon<3>(clonePointList(points[ChatbubblePoints.List.Identifier.Spike])),
+                ...shapes.map(({ kind, points }) => {
+                    switch (kind) {
+                        case ChatbubblePresets.ShapeKind.Spline: return new DrawnBezierSpline(clonePointList(points));
+                        case ChatbubblePresets.ShapeKind.Polygon: return new DrawnFreeformPolygon(clonePointList(points));
+                        default: assertUnreachable(kind);
+                    }
+                })
+            ]
+        });
+        this.crop.setState({ corners: clonePointList(points[ChatbubblePoints.List.Identifier.Crop]) });
+    }
+
+    public stroke: { color: Color.Hex, width: number, style: OutlineStyle; } = { color: Color.BLACK, width: 0, style: OutlineStyle.Solid };
+    public captions: CaptionConfiguration = {
+        top: String(),
+        bottom: String(),
+        font: "Impact, Anton, 'Arial Black', sans-serif",
+        size: 0.1,
+        color: Color.WHITE,
+        stroke: { color: Color.BLACK, width: 0.08 },
+    };
+
+    public get hasStroke() {
+        return this.stroke.color !== Color.TRANSPARENT && this.stroke.width > 0;
+    }
+
+    public get hasCaptions() {
+        return this.captions.top.trim().length !== 0 || this.captions.bottom.trim().length !== 0;
+    }
     public fill = Color.TRANSPARENT;
     public format = ChatbubbleExportFormat.GIF;
     public readonly crop = zustandCreate<CropStore>((set, get) => ({
@@ -635,10 +1084,7 @@ class ChatbubbleConfiguration {
     public readonly shapes = zustandCreate<ShapesStore>((set, get) => {
         return {
             selected: new Set(),
-            list: [
-                new DrawnBezierCurve(new NormalizedPointList([[0, 0], [.25, .4], [0.75, .4], [1, 0]])),
-                new DrawnPolygon<3>(new NormalizedPointList([[.25, 0], [.5, .5], [.75, 0]]))
-            ],
+            list: ChatbubbleConfiguration.createDefaultShapes(),
 
             invert(details) {
                 set({
@@ -662,9 +1108,133 @@ class ChatbubbleConfiguration {
                     (point as [number, number])[1] + amount[1]
                 ]));
                 set({ list: old.list.with(shapeIndex, clone) });
+            },
+
+            add(shape) {
+                set({ list: [...get().list, shape] });
+            },
+
+            replace(shapeIndex, shape) {
+                set({ list: get().list.with(shapeIndex, shape) });
+            },
+
+            remove(shapeIndex) {
+                const { list, focused } = get();
+                set({ list: list.toSpliced(shapeIndex, 1), focused: focused?.shape === shapeIndex ? null : focused });
+            },
+
+            movePoint(shapeIndex, pointIndex, amount) {
+                const old = get();
+                const shape = old.list[shapeIndex] as DrawnPolygon;
+                const clone = shape.cloneShallow();
+                const point = shape.normalizedPoints.normalized[pointIndex];
+                clone.normalizedPoints = new NormalizedPointList(shape.normalizedPoints.normalized.with(pointIndex, [
+                    point[0] + amount[0],
+                    point[1] + amount[1]
+                ]));
+                set({ list: old.list.with(shapeIndex, clone) });
+            },
+
+            focused: null,
+            focus(focused) {
+                set({ focused });
             }
         };
     });
+
+    public readonly history = zustandCreate<HistoryStore>((set, get) => {
+        const snapshot = (): HistoryStore.Snapshot => ({
+            shapes: this.shapes.getState().list.map(cloneShape),
+            crop: this.crop.getState().corners.clone(),
+        });
+
+        const restore = ({ shapes, crop }: HistoryStore.Snapshot) => {
+            this.shapes.setState({ list: shapes.map(cloneShape), focused: null });
+            this.crop.setState({ corners: crop.clone() });
+        };
+
+        const equal = (a: HistoryStore.Snapshot, b: HistoryStore.Snapshot) => {
+            if (a.shapes.length !== b.shapes.length) return false;
+            if (a.shapes.some((shape, index) => shape.constructor !== b.shapes[index].constructor)) return false;
+            const serialize = ({ shapes, crop }: HistoryStore.Snapshot) => JSON.stringify([
+                shapes.map(shape => (shape as DrawnPolygon).normalizedPoints.normalized),
+                crop.normalized
+            ]);
+            return serialize(a) === serialize(b);
+        };
+
+        return {
+            past: [],
+            future: [],
+            pending: null,
+
+            begin() {
+                if (get().pending) return;
+                set({ pending: snapshot() });
+            },
+
+            commit() {
+                const { pending, past } = get();
+                if (!pending) return;
+                if (equal(pending, snapshot())) return set({ pending: null });
+                set({
+                    pending: null,
+                    past: [...past, pending].slice(-HistoryStore.LIMIT),
+                    future: [],
+                });
+            },
+
+            record(operation) {
+                const { begin, commit } = get();
+                begin();
+                operation();
+                commit();
+            },
+
+            undo() {
+                const { past, future } = get();
+                const previous = past.at(-1);
+                if (!previous) return;
+                set({ past: past.slice(0, -1), future: [snapshot(), ...future], pending: null });
+                restore(previous);
+            },
+
+            redo() {
+                const { past, future } = get();
+                const [next] = future;
+                if (!next) return;
+                set({ past: [...past, snapshot()], future: future.slice(1), pending: null });
+                restore(next);
+            },
+        };
+    });
+
+    public resetShapes() {
+        this.shapes.setState({ list: ChatbubbleConfiguration.createDefaultShapes(), focused: null });
+    }
+}
+
+function cloneShape<T extends AbstractDrawnShape>(shape: T): T {
+    const clone = shape.cloneShallow();
+    if (clone instanceof DrawnPolygon) clone.normalizedPoints = clone.normalizedPoints.clone();
+    return clone;
+}
+
+namespace ChatbubbleConfiguration {
+    export function createDefaultShapes(): AbstractDrawnShape[] {
+        return [
+            new DrawnBezierCurve(new NormalizedPointList([[0, 0], [.25, .4], [0.75, .4], [1, 0]])),
+            new DrawnPolygon<3>(new NormalizedPointList([[.25, 0], [.5, .5], [.75, 0]]))
+        ];
+    }
+
+    export function createDefaultSpline(): DrawnBezierSpline {
+        return new DrawnBezierSpline(new NormalizedPointList([[0, 0], [.15, .3], [.35, .4], [.5, .4], [.65, .4], [.85, .3], [1, 0]]));
+    }
+
+    export function createDefaultPolygon(): DrawnFreeformPolygon {
+        return new DrawnFreeformPolygon(new NormalizedPointList([[.4, .4], [.6, .4], [.6, .6], [.4, .6]]));
+    }
 }
 
 interface ShapesStore {
@@ -673,6 +1243,51 @@ interface ShapesStore {
 
     invert(details: Parameters<NormalizedPointList["inverted"]>[0]): void;
     move(shapeIndex: number, amount: CoordinateTuple): void;
+    add(shape: AbstractDrawnShape): void;
+    replace(shapeIndex: number, shape: AbstractDrawnShape): void;
+    remove(shapeIndex: number): void;
+    movePoint(shapeIndex: number, pointIndex: number, amount: CoordinateTuple): void;
+
+    /**
+     * The shape (or one of its points) which keyboard controls act upon.
+     */
+    focused: { shape: number, point: number | null; } | null;
+    focus(focused: ShapesStore["focused"]): void;
+}
+
+/**
+ * Undo/redo history over the {@link ShapesStore} and {@link CropStore}.
+ *
+ * Continuous interactions, like dragging, should call `begin` when they start and `commit` when they end,
+ * so that the whole interaction is undone at once. Anything else can be wrapped with `record`.
+ */
+interface HistoryStore {
+    past: HistoryStore.Snapshot[];
+    future: HistoryStore.Snapshot[];
+    pending: HistoryStore.Snapshot | null;
+
+    begin(): void;
+    /**
+     * Pushes the state from when `begin` was called onto the history, if anything has changed since.
+     */
+    commit(): void;
+    record(operation: () => void): void;
+    undo(): void;
+    redo(): void;
+}
+
+namespace HistoryStore {
+    export const LIMIT = 100;
+
+    export interface Snapshot {
+        shapes: AbstractDrawnShape[];
+        crop: CropStore["corners"];
+    }
+}
+
+interface TrimStore {
+    start: number;
+    end: number | null;
 }
 
 interface CropStore {
@@ -715,13 +1330,47 @@ class Chatbubble {
     }
 
     public release() {
+        ChatbubbleExportQueue.useStore.getState().cancelOwnedBy(this);
+        this.configuration.releaseTimeline();
         URL.revokeObjectURL(this.configuration.source.src);
-        Chatbubble.fileMapped.delete(this.associatedFile);
+        if (Chatbubble.fileMapped.get(this.associatedFile) === this) {
+            Chatbubble.fileMapped.delete(this.associatedFile);
+        }
+    }
+
+    /**
+     * Converts a file into a chatbubble without involving the editor.
+     */
+    public static async convert(file: File, { preset, format, filename = "bubble", quality }: {
+        preset?: ChatbubblePresets.Preset,
+        format?: ChatbubbleExportFormat,
+        filename?: string,
+        quality?: number;
+    } = {}): Promise<File> {
+        const chatbubble = new Chatbubble(await ChatbubbleConfiguration.forFile(file));
+        try {
+            if (preset) chatbubble.configuration.applyPreset(preset);
+            return await chatbubble.export(filename, format, quality);
+        } finally {
+            chatbubble.release();
+        }
+    }
+
+    /**
+     * Exports the bubble once all previously requested exports have finished.
+     * @throws {ChatbubbleExportQueue.CancelledError} if the export gets cancelled
+     */
+    public export(filename: string, format: ChatbubbleExportFormat = this.configuration.format, quality?: number): Promise<File> {
+        return ChatbubbleExportQueue.useStore.getState().enqueue(
+            { label: filename, owner: this },
+            job => this.exportNow(job, filename, format, quality)
+        );
     }
 
-    public async export(filename: string, format: ChatbubbleExportFormat = this.configuration.format, quality?: number): Promise<File> {
-        const hasFFmpeg = await Native.isFFmpegSupported();
-        const needsFFmpeg = !isChatbubbleExportFormatSupportedWithoutFFmpeg(format) || this.configuration.file.type.startsWith("video");
+    protected async exportNow(job: ChatbubbleExportQueue.Handle, filename: string, format: ChatbubbleExportFormat, quality?: number): Promise<File> {
+        const hasFFmpeg = !IS_WEB && await Native.isFFmpegSupported();
+        const trim = this.configuration.getTrimMicroseconds();
+        const needsFFmpeg = !isChatbubbleExportFormatSupportedWithoutFFmpeg(format) || this.configuration.file.type.startsWith("video") || trim !== undefined;
 
         if (!needsFFmpeg && !(hasFFmpeg && format === ChatbubbleExportFormat.GIF)) {
             const offscreen = makeCanvas(this.configuration.getCroppedRectangle(this.configuration.uncroppedResolution), OffscreenCanvas);
@@ -733,54 +1382,523 @@ class Chatbubble {
 
         // TODO: the path thing does'nt work if i don't launch it from terminal
         // maybe spawn a shell itself? ahaha. or pwd or something (no, that wouldn't be it.,,, idk)
-        if (!hasFFmpeg) {
-            // TODO: UI for errors
-            alert("ermmm,,,, ffmpeg pls");
-            throw new Error("ff-mpreg!!!!");
-        }
+        if (!hasFFmpeg) return this.exportWithoutFFmpeg(job, filename, format, quality);
 
 
         const transparent = this.configuration.fill === Color.TRANSPARENT;
         const bubble = (() => {
             const bounds = roundSpacial(this.configuration.getCroppedRectangle(this.configuration.uncroppedResolution), Math.trunc);
-            const offscreen = makeCanvas(bounds, OffscreenCanvas);
-            const renderer = new ChatbubbleCanvasRenderer(this.configuration, DrawingMode.Final, offscreen.context);
-            if (transparent && (format.toString().startsWith("video") || format === ChatbubbleExportFormat.GIF)) {
-                renderer.context.globalCompositeOperation = "source-over";
-                renderer.context.fillStyle = Color.BLACK;
-                renderer.context.fillRect(0, 0, renderer.canvas.width, renderer.canvas.height);
-            }
-            renderer.drawBubble();
-            const pixels = new Uint8Array(renderer.context.getImageData(0, 0, offscreen.canvas.width, offscreen.canvas.height).data);
+            const render = (draw: (renderer: ChatbubbleCanvasRenderer) => void) => {
+                const offscreen = makeCanvas(bounds, OffscreenCanvas);
+                const renderer = new ChatbubbleCanvasRenderer(this.configuration, DrawingMode.Final, offscreen.context);
+                draw(renderer);
+                return new Uint8Array(renderer.context.getImageData(0, 0, offscreen.canvas.width, offscreen.canvas.height).data);
+            };
+
             if (transparent && (format.toString().startsWith("video") || format === ChatbubbleExportFormat.GIF)) {
-                return { mask: pixels, bounds };
+                const mask = render(renderer => {
+                    renderer.context.globalCompositeOperation = "source-over";
+                    renderer.context.fillStyle = Color.BLACK;
+                    renderer.context.fillRect(0, 0, renderer.canvas.width, renderer.canvas.height);
+                    renderer.drawBubble({ stroke: false, captions: false });
+                });
+                // the mask only cuts the bubble out, so anything drawn on top of the media has to be overlaid separately
+                const { hasStroke, hasCaptions } = this.configuration;
+                const pixels = (hasStroke || hasCaptions) ? render(renderer => {
+                    renderer.drawOutline();
+                    if (hasCaptions) renderer.drawCaptions();
+                }) : undefined;
+                return { mask, pixels, bounds };
             }
-            return { pixels, bounds };
+            return { pixels: render(renderer => renderer.drawBubble()), bounds };
         })();
 
-        const { output, failure } = await Native.ffmpeg({
+        const { output, failure } = await Chatbubble.trackFFmpegJob(job, Native.ffmpeg(job.id, {
             file: {
                 mime: this.configuration.file.type,
                 data: new Uint8Array(await this.configuration.file.arrayBuffer()),
             },
             target: {
                 crop: roundSpacial(this.configuration.getCroppedRectangle(this.configuration.uncroppedResolution), Math.trunc),
-                type: format
+                type: format,
+                trim
             },
             overlay: {
                 transparent,
                 ...bubble
             }
-        });
+        }));
 
-        if (failure) throw failure;
+        if (failure) {
+            // it may have disappeared since we last checked
+            if (failure.type === ChatbubbleFFmpegDelegationFailureKind.NO_BINARY_AVAILABLE) return this.exportWithoutFFmpeg(job, filename, format, quality);
+            if (failure.type === ChatbubbleFFmpegDelegationFailureKind.CANCELLED) throw new ChatbubbleExportQueue.CancelledError(filename);
+            throw failure;
+        }
 
+        return Chatbubble.makeFile(output, filename, format);
+    }
+
+    /**
+     * Relays the progress of the native job, and kills it if the export gets cancelled.
+     */
+    protected static async trackFFmpegJob<T>(job: ChatbubbleExportQueue.Handle, request: Promise<T>): Promise<T> {
+        const cancel = () => Native.cancelJob(job.id);
+        job.signal.addEventListener("abort", cancel, { once: true });
+        const poll = setInterval(async () => {
+            const progress = await Native.getJobProgress(job.id);
+            if (progress !== null) job.progress(progress);
+        }, FFMPEG_PROGRESS_POLL_INTERVAL);
+        try {
+            return await request;
+        } finally {
+            clearInterval(poll);
+            job.signal.removeEventListener("abort", cancel);
+        }
+    }
+
+    protected static makeFile(data: BlobPart, filename: string, format: ChatbubbleExportFormat) {
         const extension = format.slice(format.indexOf("/") + 1);
-        return new File([output], filename + "." + extension, {
+        return new File([data], filename + "." + extension, {
             lastModified: Date.now(),
             type: format,
         });
     }
+
+    /**
+     * Encodes within the renderer instead, which is slower and doesn't carry over audio.
+     */
+    protected async exportWithoutFFmpeg(job: ChatbubbleExportQueue.Handle, filename: string, format: ChatbubbleExportFormat, quality?: number): Promise<File> {
+        if (!ChatbubbleEncoding.isFormatSupported(format)) {
+            throw new Error(`Exporting this as ${format} requires FFmpeg, which could not be found.`);
+        }
+        const bounds = roundSpacial(this.configuration.getCroppedRectangle(this.configuration.uncroppedResolution), Math.trunc);
+        const output = await ChatbubbleEncoding.encode(format, this.renderFrames(job, bounds), { ...bounds, quality });
+        return Chatbubble.makeFile(output, filename, format);
+    }
+
+    /**
+     * Composites the bubble onto every frame of the source within the trim range.
+     */
+    protected async *renderFrames(job: ChatbubbleExportQueue.Handle, bounds: Dimensions): AsyncGenerator<ChatbubbleEncoding.Frame> {
+        const offscreen = makeCanvas(bounds, OffscreenCanvas);
+        const renderer = new ChatbubbleCanvasRenderer(this.configuration, DrawingMode.Final, offscreen.context);
+        const { file } = this.configuration;
+        const { start, end } = this.configuration.trim.getState();
+
+        const frames = file.type.startsWith("video")
+            ? readVideoFrames(file, start, end)
+            : file.type === ChatbubbleExportFormat.GIF && "ImageDecoder" in window
+                ? readAnimatedImageFrames(file, start, end)
+                : [{ image: this.configuration.source, timestamp: 0, duration: 0, progress: 1 }];
+
+        for await (const { image, timestamp, duration, progress } of frames) {
+            job.signal.throwIfAborted();
+            job.progress(progress);
+            renderer.clear();
+            renderer.drawImage(image);
+            renderer.drawBubble();
+            yield { canvas: offscreen.canvas, timestamp, duration };
+        }
+    }
+}
+
+interface SourceFrame {
+    image: CanvasImageSource;
+    /** In seconds, relative to the start of the trim. */
+    timestamp: number;
+    /** In seconds. */
+    duration: number;
+    /** How far along the source this frame is, 0..=1 */
+    progress: number;
+}
+
+/**
+ * Videos can't be decoded frame-by-frame without demuxing them ourselves, so they're sampled at a fixed rate instead.
+ */
+const VIDEO_SAMPLING_FRAMERATE = 30;
+
+async function* readVideoFrames(file: File, start: number, end: number | null): AsyncGenerator<SourceFrame> {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.src = URL.createObjectURL(file);
+    try {
+        await new Promise((resolve, reject) => {
+            video.addEventListener("loadeddata", resolve, { once: true });
+            video.addEventListener("error", () => reject(video.error), { once: true });
+        });
+        const stop = Math.min(end ?? video.duration, video.duration);
+        const step = 1 / VIDEO_SAMPLING_FRAMERATE;
+        for (let time = start; time < stop; time += step) {
+            await new Promise(resolve => {
+                video.addEventListener("seeked", resolve, { once: true });
+                video.currentTime = time;
+            });
+            yield { image: video, timestamp: time - start, duration: Math.min(step, stop - time), progress: (time - start) / (stop - start) };
+        }
+    } finally {
+        URL.revokeObjectURL(video.src);
+    }
+}
+
+async function* readAnimatedImageFrames(file: File, start: number, end: number | null): AsyncGenerator<SourceFrame> {
+    const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: file.type });
+    try {
+        await decoder.tracks.ready;
+        await decoder.completed;
+        const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+        const stop = end ?? Infinity;
+        let time = 0;
+        for (let index = 0; index < frameCount && time < stop; index++) {
+            const { image } = await decoder.decode({ frameIndex: index });
+            const duration = image.duration ? image.duration / 1_000_000 : ChatbubbleAnimatedImageTimeline.FALLBACK_FRAME_DURATION;
+            try {
+                const from = Math.max(time, start);
+                const to = Math.min(time + duration, stop);
+                if (to > from) yield { image, timestamp: from - start, duration: to - from, progress: index / frameCount };
+            } finally {
+                image.close();
+            }
+            time += duration;
+        }
+    } finally {
+        decoder.close();
+    }
+}
+
+// Not yet part of TypeScript's DOM typings, as only Chromium implements it.
+declare class ImageDecoder {
+    constructor(init: { data: ReadableStream<Uint8Array> | BufferSource; type: string; });
+    readonly completed: Promise<void>;
+    readonly tracks: {
+        readonly ready: Promise<void>;
+        readonly selectedTrack: { readonly frameCount: number; } | null;
+    };
+    decode(options?: { frameIndex?: number; }): Promise<{ image: VideoFrame; complete: boolean; }>;
+    close(): void;
+}
+
+/**
+ * Controls the playback of animated sources in the editor, so the bubble can be previewed over any frame.
+ * All times are in seconds.
+ */
+abstract class ChatbubbleTimeline {
+    public static async for(configuration: ChatbubbleConfiguration): Promise<ChatbubbleTimeline | null> {
+        const { source, file } = configuration;
+        if (source instanceof HTMLVideoElement) return new ChatbubbleVideoTimeline(source);
+        if (file.type === ChatbubbleExportFormat.GIF && "ImageDecoder" in window) {
+            try {
+                return await ChatbubbleAnimatedImageTimeline.decode(configuration);
+            } catch (error) {
+                logger.error("Failed to decode animated image", error);
+            }
+        }
+        return null;
+    }
+
+    public abstract get duration(): number;
+    public abstract get currentTime(): number;
+    public abstract seek(time: number): Promise<void>;
+    /**
+     * Loops the media between the bounds until paused.
+     */
+    public abstract play(bounds: { start: number, end: number; }): void;
+    public abstract pause(): void;
+    /**
+     * Hooks up the elements the editor displays to the timeline.
+     * @returns a function undoing the attachment
+     */
+    public abstract attach(elements: { source: SupportedMediaElement, dimmed: SupportedMediaElement; }): () => void;
+    public abstract release(): void;
+}
+
+class ChatbubbleVideoTimeline extends ChatbubbleTimeline {
+    protected bounds: { start: number, end: number; } | null = null;
+
+    constructor(protected readonly video: HTMLVideoElement) { super(); }
+
+    public get duration() { return this.video.duration; }
+    public get currentTime() { return this.video.currentTime; }
+
+    public seek(time: number) {
+        return new Promise<void>(resolve => {
+            this.video.addEventListener("seeked", () => resolve(), { once: true });
+            this.video.currentTime = time;
+        });
+    }
+
+    protected readonly loopWithinBounds = () => {
+        if (!this.bounds) return;
+        const { currentTime } = this.video;
+        if (currentTime >= this.bounds.end || currentTime < this.bounds.start) {
+            this.video.currentTime = this.bounds.start;
+        }
+    };
+
+    public play(bounds: { start: number, end: number; }) {
+        this.bounds = bounds;
+        this.video.addEventListener("timeupdate", this.loopWithinBounds);
+        this.loopWithinBounds();
+        this.video.play();
+    }
+
+    public pause() {
+        this.bounds = null;
+        this.video.removeEventListener("timeupdate", this.loopWithinBounds);
+        this.video.pause();
+    }
+
+    public attach({ dimmed }: { dimmed: SupportedMediaElement; }) {
+        if (!(dimmed instanceof HTMLVideoElement)) return () => { };
+        const sync = () => { dimmed.currentTime = this.video.currentTime; };
+        const play = () => { sync(); dimmed.play(); };
+        const pause = () => { dimmed.pause(); sync(); };
+        this.video.addEventListener("seeking", sync);
+        this.video.addEventListener("play", play);
+        this.video.addEventListener("pause", pause);
+        return () => {
+            this.video.removeEventListener("seeking", sync);
+            this.video.removeEventListener("play", play);
+            this.video.removeEventListener("pause", pause);
+        };
+    }
+
+    public release() {
+        this.pause();
+    }
+}
+
+/**
+ * Image elements can't be paused or seeked, so the frames are decoded and drawn onto canvases shown in their place.
+ */
+class ChatbubbleAnimatedImageTimeline extends ChatbubbleTimeline {
+    /**
+     * What browsers tend to use for frames which don't specify a (reasonable) duration.
+     */
+    public static readonly FALLBACK_FRAME_DURATION = 0.1;
+
+    public static async decode(configuration: ChatbubbleConfiguration) {
+        const decoder = new ImageDecoder({ data: await configuration.file.arrayBuffer(), type: configuration.file.type });
+        await decoder.tracks.ready;
+        await decoder.completed;
+        const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+
+        const frames = new Array<{ start: number, duration: number; }>(frameCount);
+        let time = 0;
+        for (let index = 0; index < frameCount; index++) {
+            const { image } = await decoder.decode({ frameIndex: index });
+            const duration = image.duration ? image.duration / 1_000_000 : ChatbubbleAnimatedImageTimeline.FALLBACK_FRAME_DURATION;
+            image.close();
+            frames[index] = { start: time, duration };
+            time += duration;
+        }
+
+        return new ChatbubbleAnimatedImageTimeline(configuration, decoder, frames);
+    }
+
+    protected readonly frame: HTMLCanvasElement;
+    protected readonly dimmed: HTMLCanvasElement;
+    protected index = -1;
+    protected timeout: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(
+        protected readonly configuration: ChatbubbleConfiguration,
+        protected readonly decoder: ImageDecoder,
+        protected readonly frames: { start: number, duration: number; }[],
+    ) {
+        super();
+        this.frame = makeCanvas(configuration.uncroppedResolution, HTMLCanvasElement).canvas;
+        this.dimmed = makeCanvas(configuration.uncroppedResolution, HTMLCanvasElement).canvas;
+    }
+
+    public get duration() {
+        const last = this.frames.at(-1)!;
+        return last.start + last.duration;
+    }
+
+    public get currentTime() {
+        return this.frames[Math.max(this.index, 0)].start;
+    }
+
+    protected indexAt(time: number) {
+        const index = this.frames.findLastIndex(frame => frame.start <= time);
+        return Math.max(index, 0);
+    }
+
+    protected async show(index: number) {
+        if (index === this.index) return;
+        this.index = index;
+        const { image } = await this.decoder.decode({ frameIndex: index });
+        for (const canvas of [this.frame, this.dimmed]) {
+            const context = canvas.getContext("2d")!;
+            context.clearRect(0, 0, canvas.width, canvas.height);
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        }
+        image.close();
+    }
+
+    public seek(time: number) {
+        return this.show(this.indexAt(time));
+    }
+
+    public play({ start, end }: { start: number, end: number; }) {
+        this.pause();
+        const first = this.indexAt(start);
+        const last = this.indexAt(Math.max(start, end - Number.EPSILON));
+        const step = async () => {
+            const next = (this.index < first || this.index >= last) ? first : this.index + 1;
+            await this.show(next);
+            this.timeout = setTimeout(step, this.frames[next].duration * 1000);
+        };
+        step();
+    }
+
+    public pause() {
+        if (this.timeout !== null) clearTimeout(this.timeout);
+        this.timeout = null;
+    }
+
+    public attach({ source, dimmed }: { source: SupportedMediaElement, dimmed: SupportedMediaElement; }) {
+        // take on the same layout as what's being replaced
+        this.frame.className = source.className;
+        this.dimmed.className = dimmed.className;
+        source.after(this.frame);
+        dimmed.after(this.dimmed);
+        source.classList.add(cl("timeline-replaced"));
+        dimmed.classList.add(cl("timeline-replaced"));
+        this.configuration.clipMirrors.add(this.frame);
+        this.configuration.updateCropClip();
+        return () => {
+            this.configuration.clipMirrors.delete(this.frame);
+            source.classList.remove(cl("timeline-replaced"));
+            dimmed.classList.remove(cl("timeline-replaced"));
+            this.frame.remove();
+            this.dimmed.remove();
+        };
+    }
+
+    public release() {
+        this.pause();
+        this.decoder.close();
+    }
+}
+
+function formatSeconds(seconds: number) {
+    const minutes = Math.floor(seconds / 60);
+    return minutes + ":" + (seconds % 60).toFixed(2).padStart(5, "0");
+}
+
+function ChatbubbleTimelineControls({ chatbubble }: { chatbubble: Chatbubble; }) {
+    const timeline = usePromiseExecutor<ChatbubbleTimeline | null, unknown>((resolve, reject) => {
+        chatbubble.configuration.getTimeline().then(resolve, reject);
+    });
+    if (!timeline || !Number.isFinite(timeline.duration) || timeline.duration === 0) return null;
+    return <ChatbubbleTimelineTrack chatbubble={chatbubble} timeline={timeline} />;
+}
+
+const TIMELINE_HANDLE_WIDTH = 8;
+function ChatbubbleTimelineTrack({ chatbubble, timeline }: { chatbubble: Chatbubble, timeline: ChatbubbleTimeline; }) {
+    const { trim } = chatbubble.configuration;
+    const { duration } = timeline;
+    const { start, end: trimmedEnd } = trim();
+    const end = trimmedEnd ?? duration;
+    const [playing, setPlaying] = useState(true);
+    const [current, setCurrent] = useState(start);
+
+    const startRef = useRef<HTMLDivElement | null>(null);
+    const endRef = useRef<HTMLDivElement | null>(null);
+    const playheadRef = useRef<HTMLDivElement | null>(null);
+
+    function updatePlayhead(time: number) {
+        if (!playheadRef.current) return;
+        const x = time / duration;
+        playheadRef.current.style.left = `calc(${x * 100}% - ${x * TIMELINE_HANDLE_WIDTH}px)`;
+    }
+
+    useEffect(() => {
+        if (!playing) return;
+        timeline.play({ start, end });
+        let frame = requestAnimationFrame(function update() {
+            updatePlayhead(timeline.currentTime);
+            frame = requestAnimationFrame(update);
+        });
+        return () => {
+            cancelAnimationFrame(frame);
+            timeline.pause();
+            setCurrent(timeline.currentTime);
+        };
+    }, [playing, start, end]);
+
+    function scrub(time: number) {
+        setPlaying(false);
+        setCurrent(time);
+        timeline.seek(time);
+    }
+
+    return <div className={cl("timeline")}>
+        <Button size={Button.Sizes.SMALL} onClick={() => setPlaying(!playing)}>
+            {playing ? "Pause" : "Play"}
+        </Button>
+        <div className={cl("timeline-track")}>
+            <div
+                className={cl("timeline-range")}
+                style={{ left: `${start / duration * 100}%`, right: `${100 - end / duration * 100}%` }}
+            />
+            <TimelineHandle
+                handleRef={startRef}
+                className={cl("timeline-trim")}
+                position={start / duration}
+                range={[0, end / duration]}
+                onMove={x => {
+                    trim.setState({ start: x * duration });
+                    scrub(x * duration);
+                }}
+            />
+            <TimelineHandle
+                handleRef={endRef}
+                className={cl("timeline-trim")}
+                position={end / duration}
+                range={[start / duration, 1]}
+                onMove={x => {
+                    trim.setState({ end: x >= 1 ? null : x * duration });
+                    scrub(x * duration);
+                }}
+            />
+            <TimelineHandle
+                handleRef={playheadRef}
+                className={cl("timeline-playhead")}
+                position={current / duration}
+                range={[start / duration, end / duration]}
+                onMove={x => scrub(x * duration)}
+            />
+        </div>
+        <Text variant="text-sm/normal">
+            {formatSeconds(start)} – {formatSeconds(end)}
+        </Text>
+    </div>;
+}
+
+function TimelineHandle({ handleRef, className, position, range, onMove }: {
+    handleRef: React.MutableRefObject<HTMLDivElement | null>;
+    className: string;
+    /** 0..=1 */
+    position: number;
+    range: CoordinateTuple;
+    onMove: (position: number) => void;
+}) {
+    useDraggability({
+        ref: handleRef,
+        position: [position, 0],
+        clamp: [range, [0, 0]],
+        progressiveAdjustment: [TIMELINE_HANDLE_WIDTH, 0],
+        onPointerMove: ([x]) => onMove(x),
+    });
+
+    return <div
+        ref={handleRef}
+        style={{ width: TIMELINE_HANDLE_WIDTH }}
+        className={cl("timeline-handle", className)}
+    />;
 }
 
 function EditorModal({ modal, close, chatbubble }: {
@@ -794,6 +1912,7 @@ function EditorModal({ modal, close, chatbubble }: {
                 <Text variant="heading-lg/semibold">
                     Bubble Editor
                 </Text>
+                <ChatbubblePresetSelector chatbubble={chatbubble} />
                 <ModalCloseButton onClick={() => {
                     Alerts.show({
                         title: "Are you sure?",
@@ -811,6 +1930,10 @@ function EditorModal({ modal, close, chatbubble }: {
                 </React.Suspense>
             </ModalContent>
 
+            <React.Suspense>
+                <ChatbubbleTimelineControls chatbubble={chatbubble} />
+            </React.Suspense>
+
             <ModalFooter>
                 <ChatbubbleEditorFooter
                     close={close}
@@ -877,6 +2000,20 @@ function ChatbubbleEditor({ chatbubble }: { chatbubble: Chatbubble; }) {
         preview.drawBubble();
     }
 
+    useEditorKeyboardControls(chatbubble);
+
+    useEffect(() => {
+        let alive = true;
+        let detach: (() => void) | undefined;
+        chatbubble.configuration.getTimeline().then(timeline => {
+            if (alive && timeline) detach = timeline.attach({ source, dimmed });
+        });
+        return () => {
+            alive = false;
+            detach?.();
+        };
+    }, []);
+
     draw();
     return <div className={cl("editor", "contain-force")}>
         <SelectionDetector chatbubble={chatbubble} draw={draw} />
@@ -888,6 +2025,60 @@ function ChatbubbleEditor({ chatbubble }: { chatbubble: Chatbubble; }) {
     </div>;
 }
 
+const ARROW_KEY_DIRECTIONS: Record<string, CoordinateTuple> = {
+    ArrowUp: [0, -1],
+    ArrowDown: [0, 1],
+    ArrowLeft: [-1, 0],
+    ArrowRight: [1, 0],
+};
+/**
+ * How many pixels (of the source media) a nudge moves by when holding shift.
+ */
+const NUDGE_SHIFT_MULTIPLIER = 10;
+
+/**
+ * Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo, and arrow keys to nudge whatever is focused by a pixel.
+ */
+function useEditorKeyboardControls(chatbubble: Chatbubble) {
+    const { shapes, history, uncroppedResolution: resolution } = chatbubble.configuration;
+
+    useEffect(() => {
+        function onKeyDown(event: KeyboardEvent) {
+            if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+            const key = event.key.toLowerCase();
+            if ((event.ctrlKey || event.metaKey) && (key === "z" || key === "y")) {
+                if (key === "y" || event.shiftKey) history.getState().redo();
+                else history.getState().undo();
+            } else if (event.key in ARROW_KEY_DIRECTIONS) {
+                const { focused, move, movePoint } = shapes.getState();
+                if (!focused) return;
+                const scale = event.shiftKey ? NUDGE_SHIFT_MULTIPLIER : 1;
+                const [dx, dy] = ARROW_KEY_DIRECTIONS[event.key];
+                const amount = [dx * scale / resolution.width, dy * scale / resolution.height] as const;
+                // held keys are grouped into a single history entry, which is committed once the key is released
+                history.getState().begin();
+                if (focused.point === null) move(focused.shape, amount);
+                else movePoint(focused.shape, focused.point, amount);
+            } else return;
+
+            event.preventDefault();
+            event.stopPropagation();
+        }
+
+        function onKeyUp(event: KeyboardEvent) {
+            if (event.key in ARROW_KEY_DIRECTIONS) history.getState().commit();
+        }
+
+        document.addEventListener("keydown", onKeyDown, { capture: true });
+        document.addEventListener("keyup", onKeyUp, { capture: true });
+        return () => {
+            document.removeEventListener("keydown", onKeyDown, { capture: true });
+            document.removeEventListener("keyup", onKeyUp, { capture: true });
+        };
+    }, []);
+}
+
 function SelectionDetector({ chatbubble, draw }: { chatbubble: Chatbubble; draw: () => void; }) {
     const self = React.createRef<HTMLDivElement>();
     const shapes = chatbubble.configuration.shapes.getState();
@@ -930,14 +2121,27 @@ function SelectionDetector({ chatbubble, draw }: { chatbubble: Chatbubble; draw:
         ref={self}
         style={{ "aspectRatio": uncropped.width + "/" + uncropped.height }}
         className={cl("editor-selector", "contain-force")}
+        onContextMenu={event => {
+            // only the shapes that were added by the user can be removed; the bubble needs the rest
+            const hovered = getHovered(event as never);
+            if (hovered === null) return;
+            const shape = chatbubble.configuration.shapes.getState().list[hovered];
+            if (!isShapePointsExtensible(shape)) return;
+            event.preventDefault();
+            chatbubble.configuration.history.getState().record(() => chatbubble.configuration.shapes.getState().remove(hovered));
+        }}
         onMouseDown={event => {
+            if (event.button !== 0) return;
             // TODO: context menu to move down/up layer on right click?
             const hovered = getHovered(event as never);
-            if (hovered === null) { shapes.selected.clear(); return; }
+            if (hovered === null) { shapes.selected.clear(); shapes.focus(null); return; }
             shapes.selected.add(hovered);
+            shapes.focus({ shape: hovered, point: null });
+            chatbubble.configuration.history.getState().begin();
             document.addEventListener("mouseup", () => {
                 document.removeEventListener("mousemove", updatePosition);
                 shapes.selected.clear();
+                chatbubble.configuration.history.getState().commit();
             }, { once: true });
             document.addEventListener("mousemove", updatePosition);
             last = event.nativeEvent;
@@ -1033,10 +2237,12 @@ function CornerCropHandle({ chatbubble, corner }: { chatbubble: Chatbubble; corn
         offset: [-tx, -ty],
         ref,
         onPointerDown() {
+            chatbubble.configuration.history.getState().begin();
             chatbubble.configuration.crop.setState({ editing: corner });
         },
         onPointerUp() {
             chatbubble.configuration.crop.setState({ editing: null });
+            chatbubble.configuration.history.getState().commit();
         },
         onPointerMove(position) {
             const corners = chatbubble.configuration.crop.getState().corners.clone();
@@ -1081,9 +2287,15 @@ function CornerCropHandle({ chatbubble, corner }: { chatbubble: Chatbubble; corn
 }
 
 function ShapeHandles({ chatbubble, draw }: { chatbubble: Chatbubble; draw: () => void; }) {
+    useEffect(() => chatbubble.configuration.shapes.subscribe((state, previous) => {
+        if (state.list !== previous.list) draw();
+    }), []);
+
     return chatbubble.configuration.shapes(shapes => shapes.list.map((shape, index) => {
         if (shape instanceof AbstractDrawnPathedShape) {
             return <ShapePointsHandles
+                key={index}
+                index={index}
                 shape={shape}
                 chatbubble={chatbubble}
                 onChange={draw}
@@ -1094,13 +2306,49 @@ function ShapeHandles({ chatbubble, draw }: { chatbubble: Chatbubble; draw: () =
     }));
 }
 
-function ShapePointsHandles({ chatbubble, shape, onChange }: { chatbubble: Chatbubble, shape: AbstractDrawnPathedShape, onChange: () => void; }) {
+function getShapeHandleColor(shape: AbstractDrawnPathedShape) {
+    if (shape instanceof DrawnBezierCurve || shape instanceof DrawnBezierSpline) return "blue";
+    if (shape instanceof DrawnFreeformPolygon) return "orange";
+    return "red";
+}
+
+function ShapePointsHandles({ chatbubble, shape, index, onChange }: { chatbubble: Chatbubble, shape: AbstractDrawnPathedShape, index: number, onChange: () => void; }) {
+    const [, forceUpdate] = React.useReducer(x => x + 1, 0);
+    const { shapes, history } = chatbubble.configuration;
+    const focused = shapes(state => state.focused?.shape === index ? state.focused.point : null);
+
+    const common = {
+        color: getShapeHandleColor(shape),
+        dimensions: chatbubble.configuration.uncroppedResolution,
+        clamp: false,
+        points: shape.getNormalizedPoints(),
+        focused,
+        onDragStart(point: number) {
+            shapes.getState().focus({ shape: index, point });
+            history.getState().begin();
+        },
+        onDragEnd() {
+            history.getState().commit();
+        },
+    };
+
+    if (!isShapePointsExtensible(shape)) {
+        return <Points {...common} onChange={onChange} />;
+    }
+
     return <Points
-        color={shape instanceof DrawnBezierCurve ? "blue" : "red"}
-        onChange={onChange}
-        dimensions={chatbubble.configuration.uncroppedResolution}
-        clamp={false}
-        points={shape.getNormalizedPoints()}
+        {...common}
+        onChange={() => {
+            onChange();
+            // the insertion handles follow the points they sit between
+            forceUpdate();
+        }}
+        insertions={shape.getInsertionPoints()}
+        onInsert={slot => history.getState().record(() => shapes.getState().replace(index, shape.withInsertedPoint(slot)))}
+        onRemove={point => {
+            const replacement = shape.withRemovedPoint(point);
+            if (replacement) history.getState().record(() => shapes.getState().replace(index, replacement));
+        }}
     />;
 }
 
@@ -1124,15 +2372,12 @@ function ChatbubbleEditorFooter({ close, chatbubble }: {
     }, [fillStyle]);
 
     const shapes = chatbubble.configuration.shapes();
+    const history = chatbubble.configuration.history();
+    const exporting = ChatbubbleExportQueue.useStore(store => store.jobs.some(job => job.owner === chatbubble));
     return <>
+        <ChatbubbleExportProgress chatbubble={chatbubble} />
         <Select
-            options={[
-                { value: ChatbubbleExportFormat.GIF, label: "GIF" },
-                { value: ChatbubbleExportFormat.PNG, label: "PNG" },
-                { value: ChatbubbleExportFormat.MP4, label: "MP4" },
-                { value: ChatbubbleExportFormat.WEBM, label: "WEBM" },
-                { value: ChatbubbleExportFormat.WEBP, label: "WEBP" },
-            ]}
+            options={CHATBUBBLE_EXPORT_FORMAT_OPTIONS}
             placeholder={"Output Format"}
             maxVisibleItems={5}
             closeOnSelect={true}
@@ -1164,28 +2409,221 @@ function ChatbubbleEditorFooter({ close, chatbubble }: {
             <Button>
                 {/* TODO: Find a way to import or imitate Discord's color picker. Or make my own, with alpha support. */}
                 <input
-                    value={fillStyle.slice(0, "#".length + 6)}
+                    value={strokeStyle.color.slice(0, "#".length + 6)}
                     type="color"
                     onChange={event => setStrokeStyle({ ...strokeStyle, color: event.target.value as Color.Hex })}
                 />
                 <span>Edit Stroke Color</span>
             </Button>
+            <Select
+                options={OUTLINE_STYLE_OPTIONS}
+                placeholder={"Border Style"}
+                closeOnSelect={true}
+                isSelected={v => v === strokeStyle.style}
+                serialize={v => String(v)}
+                select={v => setStrokeStyle({ ...strokeStyle, style: v })}
+            />
         </Forms.FormSection>
+        <ChatbubbleCaptionControls chatbubble={chatbubble} />
         <Button
             color={Button.Colors.GREEN}
+            disabled={exporting}
             onClick={() => close(true)}
         >Save Changes</Button >
         <Button
             color={Button.Colors.YELLOW}
             onClick={() => {
-                shapes.invert({ y: true });
+                history.record(() => shapes.invert({ y: true }));
                 chatbubble.preview.clear();
                 chatbubble.preview.drawBubble();
             }}
         >Flip Vertically</Button >
+        <Button
+            color={Button.Colors.PRIMARY}
+            onClick={() => history.record(() => shapes.add(ChatbubbleConfiguration.createDefaultSpline()))}
+        >Add Spline</Button>
+        <Button
+            color={Button.Colors.PRIMARY}
+            onClick={() => history.record(() => shapes.add(ChatbubbleConfiguration.createDefaultPolygon()))}
+        >Add Polygon</Button>
+        <Button
+            color={Button.Colors.PRIMARY}
+            disabled={history.past.length === 0}
+            onClick={history.undo}
+        >Undo</Button>
+        <Button
+            color={Button.Colors.PRIMARY}
+            disabled={history.future.length === 0}
+            onClick={history.redo}
+        >Redo</Button>
+        <Button
+            color={Button.Colors.RED}
+            onClick={() => history.record(() => chatbubble.configuration.resetShapes())}
+        >Reset Shape</Button>
+        <Button
+            color={Button.Colors.BRAND}
+            onClick={() => openModal(props => <PresetNameModal
+                modal={props}
+                save={async name => {
+                    await ChatbubblePresets.useStore.getState().save(chatbubble.configuration.capturePreset(name));
+                    showToast(`Saved preset "${name}"!`, Toasts.Type.SUCCESS);
+                }}
+            />)}
+        >Save as Preset</Button>
     </>;
 }
 
+function ChatbubbleCaptionControls({ chatbubble }: { chatbubble: Chatbubble; }) {
+    const [captions, setCaptions] = useState(chatbubble.configuration.captions);
+    useEffect(() => {
+        chatbubble.configuration.captions = captions;
+        chatbubble.preview.clear();
+        chatbubble.preview.drawBubble();
+    }, [captions]);
+
+    return <Forms.FormSection>
+        <Forms.FormTitle>Captions</Forms.FormTitle>
+        <TextInput
+            placeholder="Top text"
+            value={captions.top}
+            onChange={top => setCaptions({ ...captions, top })}
+        />
+        <TextInput
+            placeholder="Bottom text"
+            value={captions.bottom}
+            onChange={bottom => setCaptions({ ...captions, bottom })}
+        />
+        <Button>
+            <input
+                value={captions.color.slice(0, "#".length + 6)}
+                type="color"
+                onChange={event => setCaptions({ ...captions, color: event.target.value as Color.Hex })}
+            />
+            <span>Edit Text Color</span>
+        </Button>
+        <Button>
+            <input
+                value={captions.stroke.color.slice(0, "#".length + 6)}
+                type="color"
+                onChange={event => setCaptions({ ...captions, stroke: { ...captions.stroke, color: event.target.value as Color.Hex } })}
+            />
+            <span>Edit Text Outline Color</span>
+        </Button>
+    </Forms.FormSection>;
+}
+
+function ChatbubbleExportProgress({ chatbubble }: { chatbubble: Chatbubble; }) {
+    const job = ChatbubbleExportQueue.useStore(store => store.jobs.find(job => job.owner === chatbubble));
+    const ahead = ChatbubbleExportQueue.useStore(store => job ? store.jobs.indexOf(job) : 0);
+    if (!job) return null;
+
+    const label = job.status === ChatbubbleExportQueue.Status.Queued
+        ? `Waiting for ${ahead} other export${ahead === 1 ? String() : "s"}...`
+        : job.progress === null ? "Exporting..." : `Exporting... ${Math.round(job.progress * 100)}%`;
+
+    return <div className={cl("export-progress")}>
+        <Text variant="text-sm/normal">{label}</Text>
+        <div className={cl("export-progress-track")}>
+            <div
+                className={cl("export-progress-bar", job.progress === null && "export-progress-indeterminate")}
+                style={{ width: `${(job.progress ?? 1) * 100}%` }}
+            />
+        </div>
+        <Button
+            size={Button.Sizes.SMALL}
+            color={Button.Colors.RED}
+            onClick={() => ChatbubbleExportQueue.useStore.getState().cancel(job.id)}
+        >Cancel</Button>
+    </div>;
+}
+
+function ChatbubblePresetSelector({ chatbubble }: { chatbubble: Chatbubble; }) {
+    const presets = ChatbubblePresets.useStore(store => store.list);
+    const [selected, setSelected] = useState<string | null>(null);
+    if (presets.length === 0) return null;
+
+    return <Select
+        options={presets.map(preset => ({ value: preset.name, label: preset.name }))}
+        placeholder={"Apply Preset"}
+        maxVisibleItems={5}
+        closeOnSelect={true}
+        isSelected={v => v === selected}
+        serialize={v => String(v)}
+        select={name => {
+            const preset = presets.find(preset => preset.name === name);
+            if (!preset) return;
+            setSelected(name);
+            chatbubble.configuration.history.getState().record(() => chatbubble.configuration.applyPreset(preset));
+            chatbubble.preview.clear();
+            chatbubble.preview.drawBubble();
+        }}
+    />;
+}
+
+function PresetNameModal({ modal, save }: { modal: ModalProps, save: (name: string) => Promise<void>; }) {
+    const [name, setName] = useState(String());
+    const exists = ChatbubblePresets.useStore(store => store.list.some(preset => preset.name === name.trim()));
+
+    return <ModalRoot {...modal}>
+        <ModalHeader>
+            <Text variant="heading-lg/semibold">Save Preset</Text>
+        </ModalHeader>
+        <ModalContent>
+            <Forms.FormTitle>Name</Forms.FormTitle>
+            <TextInput value={name} onChange={setName} placeholder="House Style" autoFocus />
+            {exists && <Forms.FormText>A preset with this name already exists, and will be overwritten.</Forms.FormText>}
+        </ModalContent>
+        <ModalFooter>
+            <Button
+                color={Button.Colors.GREEN}
+                disabled={name.trim().length === 0}
+                onClick={async () => {
+                    await save(name.trim());
+                    modal.onClose();
+                }}
+            >Save</Button>
+        </ModalFooter>
+    </ModalRoot>;
+}
+
+function ChatbubblePresetManager() {
+    const { list, remove, save } = ChatbubblePresets.useStore();
+
+    async function importPresets() {
+        const file = await chooseFile("application/json");
+        if (!file) return;
+        try {
+            const presets = ChatbubblePresets.deserialize(await file.text());
+            await save(...presets);
+            showToast(`Imported ${presets.length} preset(s)!`, Toasts.Type.SUCCESS);
+        } catch (error) {
+            logger.error("Failed to import presets", error);
+            showToast(`Failed to import presets: ${String(error)}`, Toasts.Type.FAILURE);
+        }
+    }
+
+    function exportPresets() {
+        const data = ChatbubblePresets.serialize(list);
+        saveFile(new File([data], "chatbubble-presets.json", { type: "application/json" }));
+    }
+
+    return <Forms.FormSection>
+        <Forms.FormTitle>Shape Presets</Forms.FormTitle>
+        {list.length === 0
+            ? <Forms.FormText>No presets yet! Save one from the bubble editor.</Forms.FormText>
+            : list.map(preset =>
+                <div key={preset.name} className={cl("preset-row")}>
+                    <Forms.FormText>{preset.name}</Forms.FormText>
+                    <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} onClick={() => remove(preset.name)}>Delete</Button>
+                </div>
+            )}
+        <div className={cl("preset-actions")}>
+            <Button size={Button.Sizes.SMALL} onClick={importPresets}>Import</Button>
+            <Button size={Button.Sizes.SMALL} disabled={list.length === 0} onClick={exportPresets}>Export</Button>
+        </div>
+    </Forms.FormSection>;
+}
+
 interface CanvasRenderingEnvironment {
     canvas: Canvas,
     context: CanvasContext2D;
@@ -1312,31 +2750,145 @@ function ImageSizedContainer({ dimensions, classes = [], children }: { dimension
 }
 
 
-// class DrawnBezierSpline extends DrawnPath {
-//     constructor(public readonly curves: DrawnBezierCurve[]) { super(); }
-//     public getNormalizedPoints(): NormalizedPointList<ChatbubblePoints.CoordinateTuple[]> {
-//         return new NormalizedPointList(this.curves.map(curve => curve.getNormalizedPoints().normalized).flat());
-//     }
+function midpoint(a: CoordinateTuple, b: CoordinateTuple): CoordinateTuple {
+    return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+}
+
+/**
+ * A shape which allows for points to be added or removed by the user.
+ */
+interface ShapePointsExtensible {
+    /**
+     * @returns where the handle for inserting a point should go for each insertion slot, in normalized coordinates
+     */
+    getInsertionPoints(): CoordinateTuple[];
+    withInsertedPoint(slot: number): AbstractDrawnPathedShape;
+    /**
+     * @returns null if the point cannot be removed
+     */
+    withRemovedPoint(index: number): AbstractDrawnPathedShape | null;
+}
+
+function isShapePointsExtensible<T extends AbstractDrawnShape>(shape: T): shape is T & ShapePointsExtensible {
+    return shape instanceof DrawnFreeformPolygon || shape instanceof DrawnBezierSpline;
+}
+
+class DrawnFreeformPolygon extends DrawnPolygon implements ShapePointsExtensible {
+    public static readonly MINIMUM_POINTS = 3;
+
+    public getInsertionPoints(): CoordinateTuple[] {
+        const { normalized } = this.normalizedPoints;
+        return normalized.map((point, index) => midpoint(point, normalized[(index + 1) % normalized.length]));
+    }
+
+    public withInsertedPoint(slot: number): DrawnFreeformPolygon {
+        const normalized = [...this.normalizedPoints.clone().normalized];
+        normalized.splice(slot + 1, 0, this.getInsertionPoints()[slot]);
+        return new DrawnFreeformPolygon(new NormalizedPointList(normalized));
+    }
+
+    public withRemovedPoint(index: number): DrawnFreeformPolygon | null {
+        if (this.normalizedPoints.normalized.length <= DrawnFreeformPolygon.MINIMUM_POINTS) return null;
+        return new DrawnFreeformPolygon(new NormalizedPointList(this.normalizedPoints.clone().normalized.toSpliced(index, 1)));
+    }
+}
+
+/**
+ * A series of cubic Bézier curves joined end-to-end, closed off with a straight line like {@link DrawnBezierCurve}.
+ *
+ * Points are laid out as `[anchor, control, control, anchor, control, control, anchor, ...]`,
+ * so there are always `3n + 1` points for `n` segments.
+ */
+class DrawnBezierSpline extends DrawnPolygon implements ShapePointsExtensible {
+    constructor(normalizedPoints: NormalizedPointList) {
+        if ((normalizedPoints.normalized.length - 1) % 3 !== 0 || normalizedPoints.normalized.length < 4) {
+            throw new Error("A spline must have 3n + 1 points!");
+        }
+        super(normalizedPoints);
+    }
+
+    public get segments() {
+        return (this.normalizedPoints.normalized.length - 1) / 3;
+    }
+
+    public static isAnchor(index: number) {
+        return index % 3 === 0;
+    }
+
+    /**
+     * Splits the curve at its midpoint using De Casteljau's algorithm, which leaves the shape itself untouched.
+     * @returns the replacement points for the segment, including both of its anchors
+     */
+    protected static split([p0, c1, c2, p3]: Tuple<CoordinateTuple, 4>): Tuple<CoordinateTuple, 7> {
+        const a = midpoint(p0, c1);
+        const b = midpoint(c1, c2);
+        const c = midpoint(c2, p3);
+        const ab = midpoint(a, b);
+        const bc = midpoint(b, c);
+        return [p0, a, ab, midpoint(ab, bc), bc, c, p3];
+    }
+
+    protected getSegment(segment: number): Tuple<CoordinateTuple, 4> {
+        return this.normalizedPoints.normalized.slice(segment * 3, segment * 3 + 4) as Tuple<CoordinateTuple, 4>;
+    }
+
+    public getInsertionPoints(): CoordinateTuple[] {
+        return Array.from({ length: this.segments }, (_, segment) => DrawnBezierSpline.split(this.getSegment(segment))[3]);
+    }
+
+    public withInsertedPoint(segment: number): DrawnBezierSpline {
+        const normalized = [...this.normalizedPoints.clone().normalized];
+        normalized.splice(segment * 3, 4, ...DrawnBezierSpline.split(this.getSegment(segment)));
+        return new DrawnBezierSpline(new NormalizedPointList(normalized));
+    }
+
+    public withRemovedPoint(index: number): DrawnBezierSpline | null {
+        // Only anchors can be removed; the control points belong to them.
+        if (!DrawnBezierSpline.isAnchor(index) || this.segments === 1) return null;
+        const normalized = [...this.normalizedPoints.clone().normalized];
+        if (index === 0) normalized.splice(0, 3);
+        else if (index === normalized.length - 1) normalized.splice(-3, 3);
+        else normalized.splice(index - 1, 3); // joins the neighbouring segments, keeping their outer control points
+        return new DrawnBezierSpline(new NormalizedPointList(normalized));
+    }
+
+    public drawControlLines(context: CanvasContext2D, space: Rectangle, options: Extract<DrawOptions, { fill?: undefined; }>) {
+        const points = this.getPoints(space) as CoordinateTuple[];
+        this.applyStyle(context, options);
+        for (let index = 0; index < points.length - 1; index += 3) {
+            context.beginPath();
+            context.moveTo(...points[index]);
+            context.lineTo(...points[index + 1]);
+            context.moveTo(...points[index + 3]);
+            context.lineTo(...points[index + 2]);
+            context.stroke();
+        }
+    }
 
-//     public getPath(space: Rectangle): Path2D {
-//         const path = new Path2D();
-//         const start = this.curves[0].getPoints(space) as Tuple<CoordinateTuple, 4>;
-//         path.moveTo(...start[0]);
-//         this.curves[0].applyCurve(path, space, start.slice(1) as Tuple<CoordinateTuple, 3>);
-//         for (const curve of this.curves.slice(1)) {
-//             curve.applyCurve(path, space);
-//         }
-//         path.closePath();
-//         return path;
-//     }
-// }
+    public getPath(space: Rectangle) {
+        const points = this.getPoints(space) as CoordinateTuple[];
+        const path = new Path2D();
+        path.moveTo(...points[0]);
+        for (let index = 1; index < points.length; index += 3) {
+            path.bezierCurveTo(...points.slice(index, index + 3).flat() as Flatten<Tuple<CoordinateTuple, 3>>);
+        }
+        path.closePath();
+        return path;
+    }
+}
 
-function Points({ dimensions, points, color, onChange: notifyChange, clamp }: {
+function Points({ dimensions, points, color, onChange: notifyChange, clamp, focused, insertions, onInsert, onRemove, onDragStart, onDragEnd }: {
     dimensions: Dimensions;
     points: NormalizedPointList;
     onChange: () => void;
     color: string;
     clamp: boolean;
+    focused?: number | null;
+    insertions?: CoordinateTuple[];
+    onInsert?: (slot: number) => void;
+    onRemove?: (index: number) => void;
+    onDragStart?: (index: number) => void;
+    onDragEnd?: (index: number) => void;
 }) {
     return <ImageSizedContainer classes={["editor-points"]} dimensions={dimensions}>
         {points.normalized.map((position, index) =>
@@ -1344,16 +2896,48 @@ function Points({ dimensions, points, color, onChange: notifyChange, clamp }: {
                 size={10}
                 color={color}
                 position={position}
+                focused={focused === index}
                 onMove={position => {
                     points.normalized[index] = position;
                     notifyChange();
                 }}
+                onRemove={onRemove && (() => onRemove(index))}
+                onDragStart={onDragStart && (() => onDragStart(index))}
+                onDragEnd={onDragEnd && (() => onDragEnd(index))}
                 clamp={clamp}
             />
         )}
+        {onInsert && insertions?.map((position, slot) =>
+            <PointInsertionHandle
+                key={slot}
+                size={10}
+                color={color}
+                position={position}
+                onInsert={() => onInsert(slot)}
+            />
+        )}
     </ImageSizedContainer>;
 }
 
+function PointInsertionHandle({ position, color, size, onInsert }: {
+    position: CoordinateTuple;
+    color: string;
+    size: number;
+    onInsert: () => void;
+}) {
+    return <div
+        style={{
+            width: size,
+            height: size,
+            borderColor: color,
+            left: `calc(${position[0] * 100}% - ${position[0] * size}px)`,
+            top: `calc(${position[1] * 100}% - ${position[1] * size}px)`,
+        }}
+        className={cl("editor-point", "editor-point-insert")}
+        onClick={onInsert}
+    />;
+}
+
 function clamp(value: number, lo: number, hi: number) {
     return Math.max(lo, Math.min(hi, value));
 }
@@ -1445,14 +3029,22 @@ function useDraggability({ ref, normalize = true, clamp: range, progressiveAdjus
 function PointVisualization({
     position,
     color,
+    focused,
     onMove: escalatePositionInfo,
+    onRemove,
+    onDragStart,
+    onDragEnd,
     clamp,
     size
 }: {
     size: number,
     color: string;
     position: CoordinateTuple;
+    focused?: boolean;
     onMove: (position: CoordinateTuple) => void;
+    onRemove?: () => void;
+    onDragStart?: () => void;
+    onDragEnd?: () => void;
     clamp?: boolean;
 }) {
     const ref = useRef<HTMLDivElement | null>(null);
@@ -1460,6 +3052,8 @@ function PointVisualization({
     useDraggability({
         ref, position, clamp,
         onPointerMove: escalatePositionInfo,
+        onPointerDown: onDragStart,
+        onPointerUp: onDragEnd,
         progressiveAdjustment: [size, size]
     });
 
@@ -1470,7 +3064,11 @@ function PointVisualization({
             height: size,
             background: color
         }}
-        className={cl("editor-point")}
+        className={cl("editor-point", { "editor-point-focused": !!focused })}
+        onContextMenu={onRemove && (event => {
+            event.preventDefault();
+            onRemove();
+        })}
     />;
 }
 
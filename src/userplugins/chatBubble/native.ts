@@ -17,6 +17,7 @@ import * as stream from "stream";
 import { promisify } from "util";
 const exec = promisify(child_process.exec);
 
+import { RendererSettings } from "@main/settings";
 import { getExitHook } from "@utils/dependencies";
 import EventEmitter from "events";
 import type { PartialDeep, TypedArray } from "type-fest";
@@ -32,7 +33,7 @@ function defaultsDeep<T extends object, S extends object>(target: T, source: S):
     return target as T & S;
 }
 
-import { assertUnreachable, ChatbubbleExportFormat, ChatbubbleFFmpegDelegationFailure, ChatbubbleFFmpegDelegationFailureKind, ChatbubbleFFmpegOptions, ChatbubbleFFmpegTime } from "./shared";
+import { assertUnreachable, ChatbubbleExportFormat, ChatbubbleFFmpegDelegationFailure, ChatbubbleFFmpegDelegationFailureKind, ChatbubbleFFmpegOptions, ChatbubbleFFmpegTime, ChatbubbleNativeSettings, ChatbubbleTemporaryDirectory } from "./shared";
 function assertCompileTimeUnreachable(value?: never) { }
 
 type Nullish = null | undefined;
@@ -141,27 +142,53 @@ namespace Temporary {
             }
         }
 
-        public async cleanup(filter?: typeof FileManager.FILTER_INCLUDE_ALL): Promise<void> {
+        /**
+         * @returns how many bytes were freed
+         */
+        public async cleanup(filter?: typeof FileManager.FILTER_INCLUDE_ALL): Promise<number> {
             try {
-                if (this.status !== FileManager.Status.READY) return;
+                if (this.status !== FileManager.Status.READY) return 0;
                 const c = this.config.cleanup;
-                if (c.when === FileManager.Configuration.Cleanup.Occasion.NEVER) return;
-                if (c.when === FileManager.Configuration.Cleanup.Occasion.ONLY_EXIT && !FileManager.exiting) return;
+                if (c.when === FileManager.Configuration.Cleanup.Occasion.NEVER) return 0;
+                if (c.when === FileManager.Configuration.Cleanup.Occasion.ONLY_EXIT && !FileManager.exiting) return 0;
                 if (
                     c.ascension === FileManager.Configuration.Cleanup.Ascension.SELF &&
                     c.include === FileManager.Configuration.Cleanup.Inlcude.ALL &&
                     filter === FileManager.FILTER_INCLUDE_ALL
-                ) return fsp.rm(this.path, { recursive: true });
+                ) return FileManager.remove(this.path);
                 const entries = await fsp.readdir(this.path, { withFileTypes: true });
                 const paths = await this.getPathsToDelete(entries, filter);
                 if (entries.length === paths.length && c.ascension === FileManager.Configuration.Cleanup.Ascension.SELF) {
-                    return fsp.rm(this.path, { recursive: true });
+                    return FileManager.remove(this.path);
                 }
-                await Promise.all(paths.map(path => {
-                    // TODO: Decide on symlink behavior? I mean, I'm not using them...
-                    return fsp.rm(path, { recursive: true });
-                }));
-            } catch (e) { console.warn(e); }
+                // TODO: Decide on symlink behavior? I mean, I'm not using them...
+                const sizes = await Promise.all(paths.map(path => FileManager.remove(path)));
+                for (const path of paths) this.unregister(path);
+                return sizes.reduce((total, size) => total + size, 0);
+            } catch (e) {
+                console.warn(e);
+                return 0;
+            }
+        }
+
+        /**
+         * @returns how many bytes the file (or everything within the folder) took up
+         */
+        protected static async measure(target: string): Promise<number> {
+            const stats = await fsp.lstat(target);
+            if (!stats.isDirectory()) return stats.size;
+            const entries = await fsp.readdir(target);
+            const sizes = await Promise.all(entries.map(entry => FileManager.measure(path.join(target, entry))));
+            return sizes.reduce((total, size) => total + size, 0);
+        }
+
+        /**
+         * @returns how many bytes were freed
+         */
+        protected static async remove(target: string): Promise<number> {
+            const size = await FileManager.measure(target).catch(() => 0);
+            await fsp.rm(target, { recursive: true, force: true });
+            return size;
         }
 
 
@@ -177,6 +204,16 @@ namespace Temporary {
             return path.resolve(this.path, out);
         }
 
+        /**
+         * Removes the given managed files right away, rather than waiting for a cleanup.
+         */
+        public async discard(...paths: string[]): Promise<void> {
+            await Promise.all(paths.filter(path => this.registered.has(path)).map(async path => {
+                await fsp.rm(path, { force: true });
+                this.unregister(path);
+            }));
+        }
+
         public register(path: string) {
             this.registered.add(path);
         }
@@ -335,6 +372,8 @@ namespace Temporary {
                     case Backend.WINDOWS_APPDATA_TEMP:
                     case Backend.WINDOWS_SHARED_TEMP:
                     case Backend.WINDOWS_ENVIRONMENTAL_TEMP:
+                        // Node won't expand these for us.
+                        return backend.replace(/%(\w+)%/g, (match, name: string) => process.env[name] ?? match);
                     case Backend.FHS_TMP:
                         return backend;
                     case Backend.NODE_DETERMINED: return os.tmpdir();
@@ -381,7 +420,39 @@ namespace Temporary {
 }
 
 
-const fftemp = new Temporary.FileManager({ where: [Temporary.Vencord.Plugins.Chatbubblification, "ffmpeg"] });
+function getSettings(): Partial<ChatbubbleNativeSettings> {
+    return (RendererSettings.store.plugins?.ChatBubblification ?? {}) as Partial<ChatbubbleNativeSettings>;
+}
+
+let fftemp: { manager: Temporary.FileManager, key: string; } | null = null;
+/**
+ * @returns the manager for FFmpeg's files, which is recreated whenever the relevant settings change
+ */
+function getTemporaryFileManager(): Temporary.FileManager {
+    const { tempDirectory = ChatbubbleTemporaryDirectory.SYSTEM, cleanupOnExit = true } = getSettings();
+    const key = JSON.stringify([tempDirectory, cleanupOnExit]);
+    if (fftemp?.key === key) return fftemp.manager;
+
+    const manager = tempDirectory === ChatbubbleTemporaryDirectory.SYSTEM
+        ? Temporary.Vencord.Plugins.Chatbubblification
+        : new Temporary.FileManager({ where: [tempDirectory, path.join("vencord", "chatbubble")] });
+    fftemp = {
+        key,
+        manager: new Temporary.FileManager({
+            where: [manager, "ffmpeg"],
+            cleanup: {
+                when: cleanupOnExit
+                    ? Temporary.FileManager.Configuration.Cleanup.Occasion.ON_EXIT_OR_EXPLICIT
+                    : Temporary.FileManager.Configuration.Cleanup.Occasion.ONLY_EXPLICIT,
+                // anything in here was made by us, even if it was in a previous session
+                include: Temporary.FileManager.Configuration.Cleanup.Inlcude.ALL_FILES,
+                // the folder is still needed afterwards
+                ascension: Temporary.FileManager.Configuration.Cleanup.Ascension.NONE,
+            }
+        })
+    };
+    return fftemp.manager;
+}
 
 const enum SocketStatus {
     /**
@@ -400,7 +471,7 @@ const enum SocketStatus {
 }
 
 type PublicConstructor<T, A extends unknown[] = any[]> = new (...args: A) => T;
-function socketPipeFactory(provider: Temporary.FileManager) {
+function socketPipeFactory(getProvider: () => Temporary.FileManager) {
     /**
      * Utility class for the integration of system-level sockets (or named pipes) with NodeJS streams.
      * @author katini
@@ -445,6 +516,7 @@ function socketPipeFactory(provider: Temporary.FileManager) {
         public readonly path: string;
 
         constructor(stream: stream.Stream, then: (this: SocketPipe, socket: net.Socket) => void) {
+            const provider = getProvider();
             this.path = provider.unique({ prefix: "socket." });
             const server = net.createServer(socket => {
                 provider.register(this.path);
@@ -501,7 +573,7 @@ async function tryGetFfmpegPath(): Promise<
     }
 }
 
-class FFmpegSocket extends socketPipeFactory(fftemp) {
+class FFmpegSocket extends socketPipeFactory(getTemporaryFileManager) {
     // https://github.com/FFmpeg/FFmpeg/blob/6229e4ac425b4566446edefb67d5c225eb397b58/doc/protocols.texi#L2138-L2146
     public get url() { return "unix:" + this.path; }
 }
@@ -524,6 +596,8 @@ class FFmpegJob<T extends FFmpegJob.IO.Method = FFmpegJob.IO.Method> extends Eve
     exit: [code: number];
 }> {
     public get io() { return this._io.method; }
+    /** Everything on the filesystem used by this job. */
+    public get files() { return FFmpegJob.IO.getFilesystemPaths(this._io); }
     private readonly _io: FFmpegJob.IO<T>;
     private readonly process: child_process.ChildProcessWithoutNullStreams;
     private readonly waiting = Promise.withResolvers<void>();
@@ -545,7 +619,14 @@ class FFmpegJob<T extends FFmpegJob.IO.Method = FFmpegJob.IO.Method> extends Eve
         if (err) return [null, err];
         const io = await FFmpegJob.IO.get(options);
         const args = FFmpegJob.buildArguments(io, options);
-        return [new FFmpegJob({ binary, io, args }), null];
+        return [new FFmpegJob({ binary, io, args, trim: FFmpegJob.getEffectiveTrim(options) }), null];
+    }
+
+    private discarded = false;
+    private discardFiles() {
+        if (this.discarded || getSettings().cleanupAfterExport === false) return;
+        this.discarded = true;
+        this._io.manager.discard(...this.files).catch(console.warn);
     }
 
     private async read(): Promise<Buffer> {
@@ -556,13 +637,22 @@ class FFmpegJob<T extends FFmpegJob.IO.Method = FFmpegJob.IO.Method> extends Eve
         }
     }
 
-    constructor({ binary, io, args }: { binary: string, io: FFmpegJob.IO<T>, args: string[]; }) {
+    constructor({ binary, io, args, trim }: { binary: string, io: FFmpegJob.IO<T>, args: string[], trim?: ChatbubbleFFmpegOptions["target"]["trim"]; }) {
         super();
         this._io = io;
         this.output = this.waiting.promise.then(_ => this.read().then(buffer => new Uint8Array(buffer)));
         this.output.then(data => {
             this.emit("success", data);
-        });
+        }, error => {
+            this.emit("failure", {
+                type: ChatbubbleFFmpegDelegationFailureKind.UNKNOWN_ERROR,
+                error
+            });
+        }).finally(() => this.discardFiles());
+        this.life.signal.addEventListener("abort", () => {
+            this.emit("failure", { type: ChatbubbleFFmpegDelegationFailureKind.CANCELLED });
+        }, { once: true });
+        this.on("failure", () => this.discardFiles());
         this.process = child_process.spawn(binary, args, {
             windowsHide: true,
             signal: this.life.signal,
@@ -602,11 +692,18 @@ class FFmpegJob<T extends FFmpegJob.IO.Method = FFmpegJob.IO.Method> extends Eve
             const string = chunk.toString("utf-8");
             const micros = string.match(/out_time_us=(\d+)/)?.[1];
             if (micros === undefined) return;
-            const progress = clamp(Number(fixedPrecisionBigIntDivide(BigInt(micros), foundMainLength.microseconds, 5)), 0, 1);
+            const progress = clamp(Number(fixedPrecisionBigIntDivide(BigInt(micros), getEncodedLength(foundMainLength), 5)), 0, 1);
             this._progress = progress;
             this.emit("progress", progress);
         });
 
+        // When trimming, the output only spans part of the input, and its timestamps start from zero.
+        function getEncodedLength(length: ChatbubbleFFmpegTime): bigint {
+            const start = trim?.start ?? 0n;
+            const end = trim?.end !== undefined && trim.end < length.microseconds ? trim.end : length.microseconds;
+            return end > start ? end - start : 1n;
+        }
+
         let foundMainLength: ChatbubbleFFmpegTime;
         let foundMain = false;
         let lastChunkPortion = String();
@@ -626,6 +723,10 @@ namespace FFmpegJob {
     export interface IO<T extends FFmpegJob.IO.Method> {
         method: T,
         paths: IO.Paths,
+        /**
+         * What the files were registered with, since the settings may change before they're cleaned up.
+         */
+        manager: Temporary.FileManager,
         chunks: T extends FFmpegJob.IO.Method.Streaming ? Uint8Array[] : undefined;
     }
     export namespace IO {
@@ -651,6 +752,15 @@ namespace FFmpegJob {
             TemporaryFiles,
         }
 
+        /**
+         * @returns the paths of everything on the filesystem the job uses, including sockets
+         */
+        export function getFilesystemPaths(io: FFmpegJob.IO<FFmpegJob.IO.Method>): string[] {
+            return Object.values(io.paths)
+                .filter((path): path is string => path !== undefined)
+                .map(path => path.startsWith("unix:") ? path.slice("unix:".length) : path);
+        }
+
         export function choose({ inputMime, inputBytes, exportType }: {
             inputMime: string,
             inputBytes: number,
@@ -674,6 +784,7 @@ namespace FFmpegJob {
             maskData?: ArrayBufferLike,
             bubbleData?: ArrayBufferLike
         ): Promise<FFmpegJob.IO<FFmpegJob.IO.Method.Streaming>> {
+            const manager = getTemporaryFileManager();
             const chunks = new Array<Uint8Array>();
             const writable = new stream.Writable({
                 write(chunk, encoding, callback) {
@@ -693,6 +804,7 @@ namespace FFmpegJob {
             return {
                 method: FFmpegJob.IO.Method.Streaming,
                 paths: { background, mask, bubble, out },
+                manager,
                 chunks
             };
         }
@@ -702,8 +814,9 @@ namespace FFmpegJob {
             maskData?: Uint8Array,
             bubbleData?: Uint8Array
         ): Promise<FFmpegJob.IO<FFmpegJob.IO.Method.TemporaryFiles>> {
+            const manager = getTemporaryFileManager();
             async function mk(prefix: string, content?: Uint8Array) {
-                const handle = await fftemp.create(prefix);
+                const handle = await manager.create(prefix);
                 if (content) await handle.write(content);
                 await handle.close();
                 return handle.path;
@@ -719,6 +832,7 @@ namespace FFmpegJob {
             return {
                 method: FFmpegJob.IO.Method.TemporaryFiles,
                 paths: { background, mask, bubble, out },
+                manager,
                 chunks: undefined
             };
         }
@@ -779,10 +893,26 @@ namespace FFmpegJob {
         }
     }
 
-    export function buildArguments(io: IO<FFmpegJob.IO.Method>, { file, overlay, target: { type, quality, crop } }: ChatbubbleFFmpegOptions): string[] {
-        // TODO: Adding audio, GIF looping, trimming.
+    /**
+     * @returns the trim range, if the input is animated and is actually being trimmed
+     */
+    export function getEffectiveTrim({ file, target: { trim } }: ChatbubbleFFmpegOptions): ChatbubbleFFmpegOptions["target"]["trim"] {
+        const animated = file.mime.startsWith("video") || file.mime === ChatbubbleExportFormat.GIF;
+        if (!animated || !trim) return undefined;
+        if (!trim.start && trim.end === undefined) return undefined;
+        return trim;
+    }
+
+    function microsecondsToSeconds(microseconds: bigint): string {
+        return fixedPrecisionBigIntDivide(microseconds, 1_000_000n, 6);
+    }
+
+    export function buildArguments(io: IO<FFmpegJob.IO.Method>, options: ChatbubbleFFmpegOptions): string[] {
+        const { file, overlay, target: { type, quality, crop } } = options;
+        // TODO: Adding audio, GIF looping.
         const toVid = type.startsWith("video");
         const fromImg = file.mime.startsWith("image");
+        const trim = getEffectiveTrim(options);
         const args: string[] = [];
         args.push("-progress", "-", "-nostats");// , "-loglevel", "error");
         args.push("-y");
@@ -790,6 +920,8 @@ namespace FFmpegJob {
         let main = "0";
         let mask: string | true | null = null;
         let bubble: string | true | null = null;
+        if (trim?.start) args.push("-ss", microsecondsToSeconds(trim.start));
+        if (trim?.end !== undefined) args.push("-to", microsecondsToSeconds(trim.end));
         args.push("-i", io.paths.background);
         if (io.paths.mask) {
             args.push("-f", "rawvideo", "-pix_fmt", "rgba", "-s", `${overlay.bounds.width}x${overlay.bounds.height}`, "-i", io.paths.mask);
@@ -824,25 +956,62 @@ namespace FFmpegJob {
     }
 }
 
-let job: FFmpegJob | Nullish;
-let err: ChatbubbleFFmpegDelegationFailure | Nullish;
-getExitHook().then(m => m.default(() => job?.life.abort()));
-export async function ffmpeg(_: IpcMainInvokeEvent, options: ChatbubbleFFmpegOptions): Promise<
+type FFmpegResult =
     | { failure?: never, output: Uint8Array; }
-    | { failure: ChatbubbleFFmpegDelegationFailure; output?: never; }
-> {
-    job?.life.abort();
-    // TODO: Dispatch current progress to the client.
-    [job, err] = await FFmpegJob.for(options);
+    | { failure: ChatbubbleFFmpegDelegationFailure; output?: never; };
+
+const jobs = new Map<number, FFmpegJob>();
+/**
+ * Jobs which are still being set up.
+ */
+const settingUp = new Set<number>();
+/**
+ * Jobs which were cancelled while still being set up.
+ * Only ids in {@link settingUp} are added, so ids of jobs that already finished can't cancel a later job.
+ */
+const cancelled = new Set<number>();
+getExitHook().then(m => m.default(() => {
+    for (const job of jobs.values()) job.life.abort();
+}));
+
+/**
+ * @param id chosen by the renderer, to refer to the job later on
+ */
+export async function ffmpeg(_: IpcMainInvokeEvent, id: number, options: ChatbubbleFFmpegOptions): Promise<FFmpegResult> {
+    settingUp.add(id);
+    const [job, err] = await FFmpegJob.for(options).finally(() => settingUp.delete(id));
+    const wasCancelled = cancelled.delete(id);
     if (err) return { failure: err };
-    return new Promise(resolve => {
-        job!.on("success", output => resolve({ output }));
-        job!.on("failure", failure => resolve({ failure }));
-    });
+    jobs.set(id, job);
+    return new Promise<FFmpegResult>(resolve => {
+        job.on("success", output => resolve({ output }));
+        job.on("failure", failure => resolve({ failure }));
+        if (wasCancelled) job.life.abort();
+    }).finally(() => jobs.delete(id));
 }
 
-export async function cancelJob(_: IpcMainInvokeEvent): Promise<void> {
-    job?.life.abort();
+/**
+ * @returns the progress of the job (0..=1), or null if it isn't running
+ */
+export async function getJobProgress(_: IpcMainInvokeEvent, id: number): Promise<number | null> {
+    return jobs.get(id)?.progress ?? null;
+}
+
+export async function cancelJob(_: IpcMainInvokeEvent, id: number): Promise<void> {
+    const job = jobs.get(id);
+    if (job) job.life.abort();
+    else if (settingUp.has(id)) cancelled.add(id);
+}
+
+/**
+ * Removes everything in the folder for FFmpeg's files, except for what running jobs are using.
+ * @returns how many bytes were freed
+ */
+export async function purgeTemporaryFiles(_: IpcMainInvokeEvent): Promise<number> {
+    const manager = getTemporaryFileManager();
+    const inUse = new Set([...jobs.values()].flatMap(job => job.files));
+    await manager.initialized;
+    return manager.cleanup(target => !inUse.has(target));
 }
 
 export async function isFFmpegSupported(_: IpcMainInvokeEvent): Promise<boolean> {
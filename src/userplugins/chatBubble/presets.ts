@@ -0,0 +1,176 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { proxyLazy } from "@utils/lazy";
+import { zustandCreate } from "@webpack/common";
+
+import { ChatbubblePoints } from "./shared";
+type CoordinateTuple = ChatbubblePoints.CoordinateTuple;
+
+const DATA_KEY = "ChatBubblification_PRESETS";
+
+export namespace ChatbubblePresets {
+    /**
+     * Identifies a file as a set of exported presets, so that we don't try to import some random JSON.
+     */
+    export const FORMAT = "vencord.chatbubble.presets";
+    /**
+     * - `1`: Bezier, Spike and Crop points
+     * - `2`: Additional user-made shapes
+     */
+    export const VERSION = 2;
+
+    export type PointEntries = { readonly [K in ChatbubblePoints.List.Identifier]: ChatbubblePoints.List.Entries[K]["normalized"] };
+
+    export const enum ShapeKind {
+        Spline = "spline",
+        Polygon = "polygon",
+    }
+
+    export interface Shape {
+        kind: ShapeKind;
+        points: readonly CoordinateTuple[];
+    }
+
+    export interface Preset {
+        name: string;
+        points: PointEntries;
+        /**
+         * Shapes added on top of the default bubble, in drawing order.
+         */
+        shapes: Shape[];
+    }
+
+    export interface ExportObject {
+        format: typeof FORMAT;
+        version: typeof VERSION;
+        presets: Preset[];
+    }
+
+    const EXPECTED_POINT_COUNTS = {
+        [ChatbubblePoints.List.Identifier.Bezier]: 4,
+        [ChatbubblePoints.List.Identifier.Spike]: 3,
+        [ChatbubblePoints.List.Identifier.Crop]: 2,
+    } satisfies Record<ChatbubblePoints.List.Identifier, number>;
+
+    function isCoordinateTuple(value: unknown): value is CoordinateTuple {
+        return Array.isArray(value)
+            && value.length === 2
+            && value.every(n => typeof n === "number" && Number.isFinite(n));
+    }
+
+    function isValidPointCount(kind: ShapeKind, count: number) {
+        switch (kind) {
+            case ShapeKind.Spline: return count >= 4 && (count - 1) % 3 === 0;
+            case ShapeKind.Polygon: return count >= 3;
+            default: return false;
+        }
+    }
+
+    function validateShape(value: unknown, preset: string): Shape {
+        const { kind, points } = (value ?? {}) as Partial<Record<keyof Shape, unknown>>;
+        if (!Array.isArray(points) || !points.every(isCoordinateTuple) || !isValidPointCount(kind as ShapeKind, points.length)) {
+            throw new Error(`Preset "${preset}" has a malformed ${kind ?? "unknown"} shape.`);
+        }
+        return { kind: kind as ShapeKind, points: clonePoints(points) };
+    }
+
+    /**
+     * @throws if the provided value is not a well-formed preset
+     */
+    export function validate(value: unknown): Preset {
+        if (typeof value !== "object" || value === null) throw new Error("Preset must be an object!");
+        const { name, points, shapes = [] } = value as Partial<Record<keyof Preset, unknown>>;
+        if (typeof name !== "string" || name.trim().length === 0) throw new Error("Preset must have a name!");
+        if (typeof points !== "object" || points === null) throw new Error(`Preset "${name}" has no points!`);
+        for (const [identifier, count] of Object.entries(EXPECTED_POINT_COUNTS)) {
+            const list = (points as Record<string, unknown>)[identifier];
+            if (!Array.isArray(list) || list.length !== count || !list.every(isCoordinateTuple)) {
+                throw new Error(`Preset "${name}" has malformed ${identifier} points; expected ${count} coordinate pairs.`);
+            }
+        }
+        if (!Array.isArray(shapes)) throw new Error(`Preset "${name}" has malformed shapes!`);
+        return {
+            name: name.trim(),
+            points: {
+                [ChatbubblePoints.List.Identifier.Bezier]: clonePoints((points as PointEntries)[ChatbubblePoints.List.Identifier.Bezier]),
+                [ChatbubblePoints.List.Identifier.Spike]: clonePoints((points as PointEntries)[ChatbubblePoints.List.Identifier.Spike]),
+                [ChatbubblePoints.List.Identifier.Crop]: clonePoints((points as PointEntries)[ChatbubblePoints.List.Identifier.Crop]),
+            },
+            shapes: shapes.map(shape => validateShape(shape, name))
+        };
+    }
+
+    function clonePoints<T extends readonly CoordinateTuple[]>(points: T): T {
+        return points.map(([x, y]) => [x, y] as const) as unknown as T;
+    }
+
+    export function serialize(presets: Preset[]): string {
+        return JSON.stringify({ format: FORMAT, version: VERSION, presets } satisfies ExportObject, null, 4);
+    }
+
+    /**
+     * @throws if the data is not valid JSON, or is not an export of a supported version
+     */
+    export function deserialize(data: string): Preset[] {
+        let parsed: Partial<ExportObject>;
+        try {
+            parsed = JSON.parse(data);
+        } catch (error) {
+            throw new Error("Failed to parse JSON: " + String(error));
+        }
+
+        if (parsed?.format !== FORMAT) throw new Error("Not a chatbubble preset file!");
+        if (typeof parsed.version !== "number" || parsed.version > VERSION) throw new Error(`Unsupported preset file version: ${parsed.version}`);
+        if (!Array.isArray(parsed.presets)) throw new Error("Preset file does not contain any presets!");
+        return parsed.presets.map(validate);
+    }
+
+    export interface Store {
+        loaded: boolean;
+        list: Preset[];
+
+        load(): Promise<void>;
+        /**
+         * Adds the presets, replacing any existing presets that share the same name.
+         */
+        save(...presets: Preset[]): Promise<void>;
+        remove(name: string): Promise<void>;
+    }
+
+    export const useStore = proxyLazy(() => zustandCreate<Store>((set, get) => {
+        async function persist(list: Preset[]) {
+            set({ list });
+            await DataStore.set(DATA_KEY, list);
+        }
+
+        return {
+            loaded: false,
+            list: [],
+
+            async load() {
+                const stored = await DataStore.get<unknown[]>(DATA_KEY) ?? [];
+                const list = new Array<Preset>();
+                for (const entry of stored) {
+                    try {
+                        list.push(validate(entry));
+                    } catch { /* drop anything that got corrupted */ }
+                }
+                set({ list, loaded: true });
+            },
+
+            async save(...presets) {
+                const names = new Set(presets.map(preset => preset.name));
+                await persist([...get().list.filter(preset => !names.has(preset.name)), ...presets]);
+            },
+
+            async remove(name) {
+                await persist(get().list.filter(preset => preset.name !== name));
+            }
+        };
+    }));
+}
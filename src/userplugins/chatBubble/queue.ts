@@ -0,0 +1,107 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { proxyLazy } from "@utils/lazy";
+import { zustandCreate } from "@webpack/common";
+
+/**
+ * Runs exports one after another, so that several FFmpeg processes aren't fighting over the CPU at once.
+ */
+export namespace ChatbubbleExportQueue {
+    export const enum Status {
+        Queued = "queued",
+        Running = "running",
+    }
+
+    export interface Job {
+        readonly id: number;
+        readonly label: string;
+        /**
+         * Whatever requested the export, so that its own jobs can be found again.
+         */
+        readonly owner: unknown;
+        readonly status: Status;
+        /**
+         * 0..=1, or null if the progress can't be determined.
+         */
+        readonly progress: number | null;
+    }
+
+    /**
+     * Given to a running task, to report back on how it's going and to find out whether it should stop.
+     */
+    export interface Handle {
+        readonly id: number;
+        readonly signal: AbortSignal;
+        progress(value: number): void;
+    }
+
+    export class CancelledError extends Error {
+        constructor(label: string) {
+            super(`Export of "${label}" was cancelled.`);
+        }
+    }
+
+    export interface Store {
+        jobs: Job[];
+
+        enqueue<T>(details: Pick<Job, "label" | "owner">, task: (handle: Handle) => Promise<T>): Promise<T>;
+        cancel(id: number): void;
+        cancelOwnedBy(owner: unknown): void;
+    }
+
+    // the native side outlives reloads, so ids must not start over or they could refer to jobs of the previous session
+    let counter = Date.now();
+    let tail: Promise<unknown> = Promise.resolve();
+    const controllers = new Map<number, AbortController>();
+
+    export const useStore = proxyLazy(() => zustandCreate<Store>((set, get) => {
+        function update(id: number, patch: Partial<Job>) {
+            set(({ jobs }) => ({ jobs: jobs.map(job => job.id === id ? { ...job, ...patch } : job) }));
+        }
+
+        return {
+            jobs: [],
+
+            enqueue({ label, owner }, task) {
+                const id = counter++;
+                const controller = new AbortController();
+                controllers.set(id, controller);
+                set(({ jobs }) => ({ jobs: [...jobs, { id, label, owner, status: Status.Queued, progress: null }] }));
+
+                const run = tail.then(() => {
+                    if (controller.signal.aborted) throw new CancelledError(label);
+                    update(id, { status: Status.Running });
+                    return task({
+                        id,
+                        signal: controller.signal,
+                        progress: value => update(id, { progress: value }),
+                    });
+                });
+                // the next job only starts after this one has actually stopped, even if it was cancelled
+                tail = run.catch(() => { });
+
+                const cancelled = new Promise<never>((_, reject) => {
+                    controller.signal.addEventListener("abort", () => reject(new CancelledError(label)), { once: true });
+                });
+                return Promise.race([run, cancelled]).finally(() => {
+                    controllers.delete(id);
+                    set(({ jobs }) => ({ jobs: jobs.filter(job => job.id !== id) }));
+                });
+            },
+
+            cancel(id) {
+                controllers.get(id)?.abort();
+            },
+
+            cancelOwnedBy(owner) {
+                for (const job of get().jobs) {
+                    if (job.owner === owner) controllers.get(job.id)?.abort();
+                }
+            },
+        };
+    }));
+}
@@ -27,13 +27,15 @@ export const enum ChatbubbleFFmpegDelegationFailureKind {
     ERROR_FINDING_BINARY,
     BAD_INPUT,
     ENCODING_FAILURE,
-    UNKNOWN_ERROR
+    UNKNOWN_ERROR,
+    CANCELLED,
 }
 
 
 type MapFFmpegDelegationFailureTypes<T extends PropertyKey, R extends UnknownRecord> = TaggedUnion<"type", { [V in T]: R }>;
 type FFmpegDelegationFailureVariants =
     | { type: ChatbubbleFFmpegDelegationFailureKind.NO_BINARY_AVAILABLE; }
+    | { type: ChatbubbleFFmpegDelegationFailureKind.CANCELLED; }
     | { type: ChatbubbleFFmpegDelegationFailureKind.UNKNOWN_ERROR, error: unknown; }
     | MapFFmpegDelegationFailureTypes<
         | ChatbubbleFFmpegDelegationFailureKind.ERROR_FINDING_BINARY
@@ -53,6 +55,13 @@ export interface ChatbubbleFFmpegOptions {
         type: ChatbubbleExportFormat,
         crop: Rectangle,
         quality?: number;
+        /**
+         * The portion of an animated input to keep, in microseconds.
+         */
+        trim?: {
+            start?: bigint,
+            end?: bigint;
+        };
     };
     overlay: {
         transparent: boolean,
@@ -100,6 +109,28 @@ export class ChatbubbleFFmpegTime {
         return new ChatbubbleFFmpegTime(microseconds);
     }
 }
+/**
+ * Where temporary files can be placed; a subset of the native `Temporary.FileManager.Configuration.Backend`.
+ */
+export const enum ChatbubbleTemporaryDirectory {
+    SYSTEM = "<node-determined>",
+    FHS_TMP = "/tmp/",
+    WINDOWS_ENVIRONMENTAL_TEMP = "%temp%",
+    WINDOWS_APPDATA_TEMP = "%userprofile%\\AppData\\Local\\Temp",
+}
+
+/**
+ * Plugin settings which the native side reads for itself.
+ */
+export interface ChatbubbleNativeSettings {
+    tempDirectory: ChatbubbleTemporaryDirectory;
+    /**
+     * Whether to remove the files of an FFmpeg job once it's done.
+     */
+    cleanupAfterExport: boolean;
+    cleanupOnExit: boolean;
+}
+
 export const enum ChatbubbleExportFormat {
     PNG = "image/png",
     GIF = "image/gif",
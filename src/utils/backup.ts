@@ -0,0 +1,298 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { keepSettingsVersions, PlainSettings } from "@api/Settings";
+import { strFromU8, strToU8, unzipSync, Zippable, zipSync } from "fflate";
+
+/**
+ * Identifies an archive as a Vencord backup, so that we don't try to restore some random zip file.
+ */
+export const BACKUP_FORMAT = "vencord.backup";
+/**
+ * - `1`: Settings, QuickCSS, DataStore, themes and plugin native data
+ */
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_PATH = "manifest.json";
+const SETTINGS_PATH = "settings.json";
+const QUICK_CSS_PATH = "quickCss.css";
+const DATA_STORE_PATH = "dataStore.json";
+const THEMES_DIR = "themes/";
+const PLUGIN_DATA_DIR = "plugins/";
+
+export type BackupSection = "settings" | "quickCss" | "dataStore" | "themes" | "pluginData";
+
+export const BACKUP_SECTIONS: Record<BackupSection, { name: string; description: string; }> = {
+    settings: {
+        name: "Settings",
+        description: "Plugin settings, theme links and everything else from the Vencord settings"
+    },
+    quickCss: {
+        name: "QuickCSS",
+        description: "Your custom QuickCSS"
+    },
+    dataStore: {
+        name: "Plugin Data",
+        description: "Data plugins keep in the DataStore, like message tags, DM categories and the notification log. Overwrites the current data of the same plugins"
+    },
+    themes: {
+        name: "Local Themes",
+        description: "Theme files from your themes folder. Existing themes with the same name are overwritten"
+    },
+    pluginData: {
+        name: "Plugin Native Data",
+        description: "Files plugins keep outside of Discord, if they support backing them up"
+    }
+};
+
+export interface BackupManifest {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    /**
+     * ISO 8601 timestamp of when the backup was made
+     */
+    createdAt: string;
+    /**
+     * Paths of the files in the archive, by the section they belong to. Sections which weren't backed up are missing.
+     */
+    sections: Partial<Record<BackupSection, string[]>>;
+}
+
+export interface Backup {
+    manifest: BackupManifest;
+    files: Record<string, Uint8Array>;
+}
+
+/**
+ * Methods a plugin's native module can export to have the data it keeps on disk included in backups.
+ * Both are opt-in, plugins without them are left out of this section
+ */
+export interface PluginNativeBackupMethods {
+    getBackupData(): Promise<Uint8Array | null | undefined>;
+    restoreBackupData(data: Uint8Array): Promise<void>;
+}
+
+function getBackupNatives() {
+    return Object.entries(VencordNative.pluginHelpers as Record<string, Partial<PluginNativeBackupMethods>>)
+        .filter(([, methods]) => methods.getBackupData && methods.restoreBackupData) as [string, PluginNativeBackupMethods][];
+}
+
+/**
+ * DataStore keys which belong to Vencord itself, like the cloud secret, the settings sync snapshot and caches.
+ * These are specific to this install, so they are neither backed up nor restored.
+ * QuickCSS also lives in the DataStore on web, but it is its own section
+ */
+function isInternalKey(key: IDBValidKey) {
+    return typeof key === "string" && (key.startsWith("Vencord_") || key === "VencordQuickCss");
+}
+
+// DataStore values are structured clones rather than JSON, so tag the types JSON would otherwise lose
+const TYPE_KEY = "__vcBackupType";
+
+function encodeDataStore(entries: [IDBValidKey, any][]) {
+    return JSON.stringify(entries, function (key, value) {
+        const raw = this[key];
+        if (raw instanceof Map) return { [TYPE_KEY]: "Map", value: [...raw] };
+        if (raw instanceof Set) return { [TYPE_KEY]: "Set", value: [...raw] };
+        if (raw instanceof Date) return { [TYPE_KEY]: "Date", value: raw.toISOString() };
+        if (raw instanceof Uint8Array) return { [TYPE_KEY]: "Uint8Array", value: Array.from(raw) };
+        if (typeof raw === "bigint") return { [TYPE_KEY]: "BigInt", value: raw.toString() };
+        return value;
+    });
+}
+
+function decodeDataStore(data: string): [IDBValidKey, any][] {
+    const entries = JSON.parse(data, (_, value) => {
+        if (value === null || typeof value !== "object" || !(TYPE_KEY in value)) return value;
+        switch (value[TYPE_KEY]) {
+            case "Map": return new Map(value.value);
+            case "Set": return new Set(value.value);
+            case "Date": return new Date(value.value);
+            case "Uint8Array": return new Uint8Array(value.value);
+            case "BigInt": return BigInt(value.value);
+            default: throw new Error(`Unknown value type ${value[TYPE_KEY]}`);
+        }
+    });
+
+    if (!Array.isArray(entries) || !entries.every(entry => Array.isArray(entry) && entry.length === 2))
+        throw new Error("DataStore entries are malformed!");
+
+    return entries;
+}
+
+function getFileName(path: string, dir: string) {
+    const name = path.slice(dir.length);
+    if (!path.startsWith(dir) || !name || name.includes("/") || name.includes("\\") || name.startsWith("."))
+        throw new Error(`Unexpected file ${path} in backup`);
+    return name;
+}
+
+/**
+ * @param sections the sections to include, all of them by default
+ * @returns the zipped backup archive
+ */
+export async function createBackup(sections = Object.keys(BACKUP_SECTIONS) as BackupSection[]) {
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: new Date().toISOString(),
+        sections: {}
+    };
+    const files: Zippable = {};
+
+    function add(section: BackupSection, path: string, data: Uint8Array) {
+        files[path] = data;
+        (manifest.sections[section] ??= []).push(path);
+    }
+
+    for (const section of sections) {
+        switch (section) {
+            case "settings":
+                add(section, SETTINGS_PATH, strToU8(JSON.stringify(VencordNative.settings.get(), null, 4)));
+                break;
+            case "quickCss":
+                add(section, QUICK_CSS_PATH, strToU8(await VencordNative.quickCss.get()));
+                break;
+            case "dataStore":
+                add(section, DATA_STORE_PATH, strToU8(encodeDataStore((await DataStore.entries()).filter(([key]) => !isInternalKey(key)))));
+                break;
+            case "themes":
+                manifest.sections.themes = [];
+                for (const { fileName } of await VencordNative.themes.getThemesList()) {
+                    const data = await VencordNative.themes.getThemeData(fileName);
+                    if (data != null) add(section, THEMES_DIR + fileName, strToU8(data));
+                }
+                break;
+            case "pluginData":
+                manifest.sections.pluginData = [];
+                for (const [plugin, { getBackupData }] of getBackupNatives()) {
+                    const data = await getBackupData();
+                    if (data) add(section, PLUGIN_DATA_DIR + plugin, data);
+                }
+                break;
+        }
+    }
+
+    files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 4));
+    return zipSync(files, { level: 9 });
+}
+
+/**
+ * Zip archives start with a local file header, while the legacy JSON backups obviously don't
+ */
+export function isBackupArchive(data: Uint8Array) {
+    return data[0] === 0x50 && data[1] === 0x4B && data[2] === 0x03 && data[3] === 0x04;
+}
+
+/**
+ * Unpacks a backup and validates its manifest, without restoring anything yet.
+ * @throws if the data is not a backup archive, is of an unsupported version or is missing files listed in its manifest
+ */
+export function readBackup(data: Uint8Array): Backup {
+    let files: Record<string, Uint8Array>;
+    try {
+        files = unzipSync(data);
+    } catch (err) {
+        throw new Error("Failed to unzip backup: " + String(err));
+    }
+
+    if (!files[MANIFEST_PATH]) throw new Error("Not a Vencord backup, it has no manifest!");
+
+    let manifest: Partial<BackupManifest>;
+    try {
+        manifest = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+    } catch (err) {
+        throw new Error("Failed to parse backup manifest: " + String(err));
+    }
+
+    if (manifest?.format !== BACKUP_FORMAT) throw new Error("Not a Vencord backup!");
+    if (typeof manifest.version !== "number" || manifest.version > BACKUP_VERSION)
+        throw new Error(`Unsupported backup version: ${manifest.version}`);
+    if (typeof manifest.createdAt !== "string" || isNaN(Date.parse(manifest.createdAt)))
+        throw new Error("Backup manifest has no valid creation date!");
+    if (typeof manifest.sections !== "object" || manifest.sections === null)
+        throw new Error("Backup manifest lists no sections!");
+
+    for (const [section, paths] of Object.entries(manifest.sections)) {
+        if (!Object.hasOwn(BACKUP_SECTIONS, section)) throw new Error(`Unknown backup section ${section}`);
+        if (!Array.isArray(paths)) throw new Error(`Backup section ${section} is malformed!`);
+        for (const path of paths) {
+            if (typeof path !== "string" || !files[path])
+                throw new Error(`Backup section ${section} is missing the file ${path}`);
+        }
+    }
+
+    return { manifest: manifest as BackupManifest, files };
+}
+
+/**
+ * Decodes and checks a section up front, returning the function that actually overwrites the current data.
+ */
+function prepareRestore(section: BackupSection, paths: string[], files: Record<string, Uint8Array>): () => Promise<unknown> {
+    const read = (path: string) => {
+        if (!paths.includes(path)) throw new Error(`Backup section ${section} is missing the file ${path}`);
+        return strFromU8(files[path]);
+    };
+
+    switch (section) {
+        case "settings": {
+            const settings = JSON.parse(read(SETTINGS_PATH));
+            if (typeof settings !== "object" || settings === null || Array.isArray(settings))
+                throw new Error("Backed up settings are malformed!");
+
+            return async () => {
+                if (settings.plugins) keepSettingsVersions(settings.plugins);
+                Object.assign(PlainSettings, settings);
+                await VencordNative.settings.set(settings);
+            };
+        }
+        case "quickCss": {
+            const css = read(QUICK_CSS_PATH);
+            return () => VencordNative.quickCss.set(css);
+        }
+        case "dataStore": {
+            // Only overwrites the backed up keys, everything else, like data of plugins added since, is kept
+            const entries = decodeDataStore(read(DATA_STORE_PATH)).filter(([key]) => !isInternalKey(key));
+            return () => DataStore.setMany(entries);
+        }
+        case "themes": {
+            const themes = paths.map(path => [getFileName(path, THEMES_DIR), strFromU8(files[path])] as const);
+            return async () => {
+                for (const [fileName, data] of themes)
+                    await VencordNative.themes.uploadTheme(fileName, data);
+            };
+        }
+        case "pluginData": {
+            const natives = Object.fromEntries(getBackupNatives());
+            const data = paths.map(path => [getFileName(path, PLUGIN_DATA_DIR), files[path]] as const);
+            return async () => {
+                // data of plugins which aren't installed anymore (or are unavailable on this platform) is skipped
+                for (const [plugin, bytes] of data)
+                    await natives[plugin]?.restoreBackupData(bytes);
+            };
+        }
+    }
+}
+
+/**
+ * Restores the chosen sections of a backup. Every section is validated before any of them is written,
+ * so a broken backup leaves the current data untouched.
+ */
+export async function restoreBackup({ manifest, files }: Backup, sections: BackupSection[]) {
+    const steps = sections.map(section => {
+        const paths = manifest.sections[section];
+        if (!paths) throw new Error(`Backup does not contain ${BACKUP_SECTIONS[section].name}`);
+
+        try {
+            return prepareRestore(section, paths, files);
+        } catch (err) {
+            throw new Error(`Failed to read ${BACKUP_SECTIONS[section].name} from backup: ${String(err instanceof Error ? err.message : err)}`);
+        }
+    });
+
+    for (const step of steps) await step();
+}
@@ -0,0 +1,188 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// The steps of syncing settings with the cloud, without any UI. Everything it needs from the client goes through
+// CloudSettingsClient, so that scripts/testCloudSync.ts can run it against a mock of the cloud outside of Discord
+
+import type { Settings } from "@api/Settings";
+import { deflateSync, inflateSync } from "fflate";
+
+import { isDeepEqual, planCloudPull, SettingsMergeResult } from "./mergeSettings";
+
+export interface SyncedSettings {
+    settings: Settings;
+    quickCss: string;
+}
+
+export type MergeableSettings = Omit<SyncedSettings, "settings"> & { settings: Omit<Settings, "cloud">; };
+
+export interface PendingCloudMerge {
+    result: SettingsMergeResult<MergeableSettings>;
+    remote: SyncedSettings;
+    written: number;
+}
+
+export interface CloudSettingsClient {
+    getUrl(): URL;
+    getAuth(): Promise<string>;
+    getSettings(): Promise<SyncedSettings>;
+    /**
+     * Replaces the local settings and QuickCSS
+     */
+    setSettings(settings: SyncedSettings): Promise<void>;
+    /**
+     * The time the local settings were last written to the cloud or changed, same as Settings.cloud.settingsSyncVersion
+     */
+    getVersion(): number;
+    setVersion(written: number): void;
+    /**
+     * The settings as they were after the last successful sync, used as the base for merging changes from both sides
+     */
+    getSnapshot(): Promise<SyncedSettings | undefined>;
+    setSnapshot(snapshot: SyncedSettings): Promise<void>;
+}
+
+export type CloudUploadResult =
+    | { type: "uploaded"; }
+    | { type: "failed"; status: number; };
+
+export type CloudPullResult =
+    | { type: "notFound" | "upToDate" | "localNewer"; }
+    | { type: "failed"; status: number; }
+    | { type: "conflicts"; pending: PendingCloudMerge; }
+    /** upload is set if local changes survived the merge, which makes the cloud the one that is behind */
+    | { type: "merged"; upload?: CloudUploadResult; }
+    | { type: "overwritten"; };
+
+export interface CloudPushResult {
+    /** Set if changes from the cloud were pulled before uploading */
+    pull?: CloudPullResult;
+    upload?: CloudUploadResult;
+    /** Whether the local settings are in the cloud now */
+    inCloud: boolean;
+}
+
+/**
+ * The cloud config belongs to each client, so it is never merged
+ */
+export function withoutCloud({ settings: { cloud, ...settings }, quickCss }: SyncedSettings): MergeableSettings {
+    return { settings, quickCss };
+}
+
+export async function uploadCloudSettings(client: CloudSettingsClient): Promise<CloudUploadResult> {
+    const synced = await client.getSettings();
+
+    const res = await fetch(new URL("/v1/settings", client.getUrl()), {
+        method: "PUT",
+        headers: {
+            Authorization: await client.getAuth(),
+            "Content-Type": "application/octet-stream"
+        },
+        body: deflateSync(new TextEncoder().encode(JSON.stringify(synced)))
+    });
+
+    if (!res.ok) return { type: "failed", status: res.status };
+
+    const { written } = await res.json();
+    client.setVersion(written);
+    await client.setSnapshot(synced);
+
+    return { type: "uploaded" };
+}
+
+/**
+ * @returns The result of uploading the merged settings, if they differ from the cloud ones
+ */
+export async function applyCloudMerge(client: CloudSettingsClient, merged: MergeableSettings, remote: SyncedSettings, written: number) {
+    const { settings: { cloud } } = await client.getSettings();
+    await client.setSettings({ settings: { ...merged.settings, cloud } as Settings, quickCss: merged.quickCss });
+
+    client.setVersion(written);
+    await client.setSnapshot(remote);
+
+    // local changes survived the merge, so now the cloud is the one that is behind
+    if (!isDeepEqual(merged, withoutCloud(remote)))
+        return uploadCloudSettings(client);
+}
+
+/**
+ * Fetches the cloud settings and merges them into the local ones, unless the same setting changed on both sides
+ * @param force Overwrite the local settings with the cloud ones instead of merging
+ */
+export async function pullCloudSettings(client: CloudSettingsClient, force = false): Promise<CloudPullResult> {
+    const res = await fetch(new URL("/v1/settings", client.getUrl()), {
+        method: "GET",
+        headers: {
+            Authorization: await client.getAuth(),
+            Accept: "application/octet-stream",
+            "If-None-Match": client.getVersion().toString()
+        },
+    });
+
+    if (res.status === 404) return { type: "notFound" };
+    if (res.status === 304) return { type: "upToDate" };
+    if (!res.ok) return { type: "failed", status: res.status };
+
+    const written = Number(res.headers.get("etag")!);
+    const data = await res.arrayBuffer();
+
+    const remote: SyncedSettings = JSON.parse(new TextDecoder().decode(inflateSync(new Uint8Array(data))));
+    const base = await client.getSnapshot();
+
+    const plan = planCloudPull({
+        base: base && withoutCloud(base),
+        local: withoutCloud(await client.getSettings()),
+        remote: withoutCloud(remote),
+        written,
+        localWritten: client.getVersion(),
+        force
+    });
+
+    switch (plan.type) {
+        case "upToDate":
+        case "localNewer":
+            return { type: plan.type };
+        case "merge":
+            if (plan.result.conflicts.length)
+                return { type: "conflicts", pending: { result: plan.result, remote, written } };
+
+            return { type: "merged", upload: await applyCloudMerge(client, plan.result.merged, remote, written) };
+        case "overwrite":
+            // without a common base, there is nothing to merge against, so the cloud wins
+            await client.setSettings(remote);
+
+            // sync with server timestamp instead of local one
+            client.setVersion(written);
+            await client.setSnapshot(remote);
+            return { type: "overwritten" };
+    }
+}
+
+/**
+ * Uploads the local settings
+ * @param mergeFirst Merge in changes other clients synced since the last sync first, so that they aren't overwritten
+ */
+export async function pushCloudSettings(client: CloudSettingsClient, mergeFirst: boolean): Promise<CloudPushResult> {
+    let pull: CloudPullResult | undefined;
+
+    if (mergeFirst && await client.getSnapshot()) {
+        pull = await pullCloudSettings(client);
+
+        switch (pull.type) {
+            case "conflicts":
+                return { pull, inCloud: false };
+            case "merged":
+            case "overwritten": {
+                // a merge already uploads the result if needed, and only updates the snapshot once that succeeded
+                const snapshot = await client.getSnapshot();
+                return { pull, inCloud: !!snapshot && isDeepEqual(withoutCloud(snapshot), withoutCloud(await client.getSettings())) };
+            }
+        }
+    }
+
+    const upload = await uploadCloudSettings(client);
+    return { pull, upload, inCloud: upload.type === "uploaded" };
+}
@@ -0,0 +1,74 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export interface DiffLine {
+    type: "added" | "removed" | "unchanged";
+    text: string;
+}
+
+// Past this many cells, the LCS table gets too big to be worth it
+const MAX_TABLE_SIZE = 4_000_000;
+
+/**
+ * Diffs two texts line by line, using the longest common subsequence of the lines that changed.
+ * For huge changes this falls back to showing all old lines as removed and all new lines as added.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = oldText.split(/\r?\n/);
+    const b = newText.split(/\r?\n/);
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const unchanged = (text: string): DiffLine => ({ type: "unchanged", text });
+    const prefix = a.slice(0, start).map(unchanged);
+    const suffix = a.slice(endA).map(unchanged);
+
+    const n = endA - start;
+    const m = endB - start;
+    const middle = [] as DiffLine[];
+
+    if (n * m > MAX_TABLE_SIZE) {
+        for (let i = start; i < endA; i++) middle.push({ type: "removed", text: a[i] });
+        for (let j = start; j < endB; j++) middle.push({ type: "added", text: b[j] });
+        return [...prefix, ...middle, ...suffix];
+    }
+
+    // lcs[i * (m + 1) + j] is the LCS length of a[start + i..endA) and b[start + j..endB)
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+                ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (a[start + i] === b[start + j]) {
+            middle.push(unchanged(a[start + i]));
+            i++;
+            j++;
+        } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+            middle.push({ type: "removed", text: a[start + i++] });
+        } else {
+            middle.push({ type: "added", text: b[start + j++] });
+        }
+    }
+    while (i < n) middle.push({ type: "removed", text: a[start + i++] });
+    while (j < m) middle.push({ type: "added", text: b[start + j++] });
+
+    return [...prefix, ...middle, ...suffix];
+}
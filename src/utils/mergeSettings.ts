@@ -0,0 +1,129 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// This file has no imports on purpose, so that scripts/testCloudSync.ts can run it outside of Discord
+function isObject(obj: unknown): obj is object {
+    return typeof obj === "object" && obj !== null && !Array.isArray(obj);
+}
+
+export interface SettingsConflict {
+    /**
+     * Keys leading to the value both sides changed, e.g. `["settings", "plugins", "Foo", "enabled"]`
+     */
+    path: string[];
+    base: unknown;
+    local: unknown;
+    remote: unknown;
+}
+
+export interface SettingsMergeResult<T> {
+    /**
+     * The merged value, with the local side of every conflict
+     */
+    merged: T;
+    conflicts: SettingsConflict[];
+}
+
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length && keysA.every(key => Object.hasOwn(b, key) && isDeepEqual(a[key], b[key]));
+}
+
+function merge(base: unknown, local: unknown, remote: unknown, path: string[], conflicts: SettingsConflict[]): unknown {
+    if (isDeepEqual(local, remote)) return local;
+    if (isDeepEqual(local, base)) return remote;
+    if (isDeepEqual(remote, base)) return local;
+
+    if (isObject(local) && isObject(remote)) {
+        const baseObj = isObject(base) ? base : {};
+        const merged = {};
+        for (const key of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+            const value = merge(baseObj[key], local[key], remote[key], [...path, key], conflicts);
+            // keys deleted on one side and left alone on the other stay deleted
+            if (value !== undefined) merged[key] = value;
+        }
+        return merged;
+    }
+
+    conflicts.push({ path, base, local, remote });
+    return local;
+}
+
+/**
+ * Three-way merges two versions of an object, key by key, against the version both were last in sync at.
+ * Arrays and other non-object values are merged as a whole.
+ * @param base The last version both sides agreed on
+ * @param local The local version
+ * @param remote The remote version
+ */
+export function mergeSettings<T>(base: T, local: T, remote: T): SettingsMergeResult<T> {
+    const conflicts = [] as SettingsConflict[];
+    const merged = merge(base, local, remote, [], conflicts) as T;
+    return { merged, conflicts };
+}
+
+/**
+ * Applies the chosen side of each conflict to a merge result, returning a new object
+ * @param choices Which side to keep, by index of the conflict. Unresolved conflicts keep the local value
+ */
+export function resolveConflicts<T>({ merged, conflicts }: SettingsMergeResult<T>, choices: Record<number, "local" | "remote">): T {
+    const result = structuredClone(merged);
+    conflicts.forEach(({ path, remote }, i) => {
+        if (choices[i] !== "remote") return;
+
+        const parent = path.slice(0, -1).reduce((obj, key) => obj[key] ??= {}, result as any);
+        const key = path[path.length - 1];
+        if (remote === undefined) delete parent[key];
+        else parent[key] = structuredClone(remote);
+    });
+    return result;
+}
+
+export type CloudPull<T> =
+    /** The cloud has nothing that isn't already synced, so only local changes (if any) need to be uploaded */
+    | { type: "upToDate"; }
+    /** There is no common base and the local settings were changed after the cloud ones */
+    | { type: "localNewer"; }
+    /** There is no common base, so the cloud settings replace the local ones */
+    | { type: "overwrite"; }
+    | { type: "merge"; result: SettingsMergeResult<T>; };
+
+export interface CloudPullOptions<T> {
+    /** The settings as they were after the last successful sync, if any */
+    base: T | undefined;
+    local: T;
+    remote: T;
+    /** When the cloud settings were written */
+    written: number;
+    /** When the local settings were last changed or synced */
+    localWritten: number;
+    /** Replaces the local settings with the cloud ones, no matter what */
+    force?: boolean;
+}
+
+/**
+ * Decides what pulling the cloud settings should do.
+ * Every local change bumps the local version, so with a base, the versions say nothing about which side changed.
+ * Instead the cloud settings are compared against the base, and merged if they changed since.
+ */
+export function planCloudPull<T>({ base, local, remote, written, localWritten, force }: CloudPullOptions<T>): CloudPull<T> {
+    if (force) return { type: "overwrite" };
+
+    if (base === undefined) {
+        return written < localWritten
+            ? { type: "localNewer" }
+            : { type: "overwrite" };
+    }
+
+    if (isDeepEqual(base, remote)) return { type: "upToDate" };
+
+    return { type: "merge", result: mergeSettings(base, local, remote) };
+}
@@ -0,0 +1,215 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { search } from "@webpack";
+
+import { canonicalizeMatch, canonicalizeReplace } from "./patches";
+import { ReplaceFn } from "./types";
+
+export interface TestReplacement {
+    match: RegExp;
+    replace: string | ReplaceFn;
+}
+
+export interface TestPatch {
+    find: string | RegExp;
+    replacement: TestReplacement[];
+    all?: boolean;
+    group?: boolean;
+}
+
+export const enum ReplacementStatus {
+    Applied = "applied",
+    NoEffect = "noEffect",
+    Errored = "errored"
+}
+
+export interface ReplacementResult {
+    status: ReplacementStatus;
+    /** The text the replacement matched */
+    matched?: string;
+    error?: string;
+}
+
+export interface ModuleTestResult {
+    id: string;
+    original: string;
+    patched: string;
+    replacements: ReplacementResult[];
+    /** Whether all changes were undone, because the patch is a group and one of its replacements failed */
+    groupUndone: boolean;
+    /** Set if the patched module isn't valid code anymore */
+    compileError?: string;
+}
+
+export interface PatchTestResult {
+    modules: ModuleTestResult[];
+    /** Modules the find matched, which a patch without all: true doesn't get applied to */
+    skipped: string[];
+}
+
+export const PLACEHOLDER_PLUGIN_NAME = "YourPlugin";
+
+function getModuleCode(factory: Function) {
+    // Same as the patcher in webpack/patchWebpack.ts
+    return "0," + factory.toString().replaceAll("\n", "");
+}
+
+function testModule(id: string, original: string, patch: TestPatch): ModuleTestResult {
+    let code = original;
+    const replacements = [] as ReplacementResult[];
+
+    for (const { match, replace } of patch.replacement) {
+        const canonicalMatch = canonicalizeMatch(match);
+
+        try {
+            const newCode = code.replace(canonicalMatch, canonicalizeReplace(replace, PLACEHOLDER_PLUGIN_NAME) as string);
+            if (newCode === code) {
+                replacements.push({ status: ReplacementStatus.NoEffect });
+                continue;
+            }
+
+            canonicalMatch.lastIndex = 0;
+            replacements.push({ status: ReplacementStatus.Applied, matched: code.match(canonicalMatch)?.[0] });
+            code = newCode;
+        } catch (err) {
+            replacements.push({ status: ReplacementStatus.Errored, error: String(err) });
+        }
+    }
+
+    const groupUndone = !!patch.group && replacements.some(r => r.status !== ReplacementStatus.Applied);
+    if (groupUndone) code = original;
+
+    let compileError: string | undefined;
+    if (code !== original) {
+        try {
+            // Only creates the factory function, it doesn't run it
+            (0, eval)(code);
+        } catch (err) {
+            compileError = String(err);
+        }
+    }
+
+    return { id, original, patched: code, replacements, groupUndone, compileError };
+}
+
+/**
+ * Applies a patch to every module its find matches, the same way the patcher would, without changing anything
+ */
+export function testPatch(patch: TestPatch): PatchTestResult {
+    const candidates = search(patch.find);
+    const ids = Object.keys(candidates);
+    // Patches which aren't all only get applied to the first module they find
+    const testedIds = patch.all ? ids : ids.slice(0, 1);
+
+    return {
+        modules: testedIds.map(id => testModule(id, getModuleCode(candidates[id]), patch)),
+        skipped: patch.all ? [] : ids.slice(1)
+    };
+}
+
+/**
+ * Identifiers of at most two characters are most likely minified names, which change between Discord builds
+ */
+function findMinifiedIdentifiers(source: string) {
+    const spans = [] as Array<[start: number, end: number]>;
+    let inClass = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+
+        if (char === "\\") {
+            i++;
+            continue;
+        }
+        if (char === "[") inClass = true;
+        else if (char === "]") inClass = false;
+
+        // Property names are kept, only variables are replaced. < and { are named groups and unicode classes
+        if (inClass || !/[A-Za-z_]/.test(char) || /[\w$.<{]/.test(source[i - 1] ?? "")) continue;
+
+        let end = i + 1;
+        while (end < source.length && /[\w$]/.test(source[end])) end++;
+
+        if (end - i <= 2 && !["do", "if", "in", "of"].includes(source.slice(i, end))) spans.push([i, end]);
+        i = end - 1;
+    }
+
+    return spans;
+}
+
+function describeMatches(match: RegExp, code: string) {
+    const globalMatch = new RegExp(canonicalizeMatch(match), match.flags.includes("g") ? match.flags : match.flags + "g");
+    const matches = Array.from(code.matchAll(globalMatch), m => [m.index, ...m]);
+    return JSON.stringify(match.flags.includes("g") ? matches : matches.slice(0, 1));
+}
+
+/**
+ * Replaces literal minified identifiers in a match with \i, wherever that still matches exactly the same in all modules
+ * @param codes Code of the modules the match is used on
+ */
+export function generalizeMatch(match: RegExp, codes: string[]) {
+    const expected = codes.map(code => describeMatches(match, code));
+    let { source } = match;
+
+    // Go backwards so the positions of the remaining identifiers stay the same
+    for (const [start, end] of findMinifiedIdentifiers(source).reverse()) {
+        const candidate = source.slice(0, start) + "\\i" + source.slice(end);
+
+        try {
+            const generalized = new RegExp(candidate, match.flags);
+            if (codes.every((code, i) => describeMatches(generalized, code) === expected[i])) source = candidate;
+        } catch { }
+    }
+
+    return new RegExp(source, match.flags);
+}
+
+function indent(text: string, level: number) {
+    return text.replaceAll("\n", "\n" + " ".repeat(level * 4));
+}
+
+/**
+ * Generates the code of a patch object
+ * @param codes Code of the modules the patch is applied to, used to replace minified identifiers in its matches with \i
+ */
+export function generatePatchCode(patch: TestPatch, codes: string[] = []) {
+    const find = typeof patch.find === "string" ? JSON.stringify(patch.find) : String(patch.find);
+
+    const replacements = patch.replacement.map(({ match, replace }) => [
+        "{",
+        `    match: ${String(codes.length ? generalizeMatch(match, codes) : match)},`,
+        `    replace: ${typeof replace === "function" ? indent(replace.toString(), 1) : JSON.stringify(replace)}`,
+        "}"
+    ].join("\n"));
+
+    return [
+        "{",
+        `    find: ${find},`,
+        patch.all && "    all: true,",
+        patch.group && "    group: true,",
+        `    replacement: [\n        ${indent(replacements.join(",\n"), 2)}\n    ]`,
+        "}"
+    ].filter(Boolean).join("\n");
+}
+
+/**
+ * Generates a plugin with the patch, ready to be pasted into a plugin file
+ * @param codes Code of the modules the patch is applied to, see {@link generatePatchCode}
+ */
+export function generatePluginCode(patch: TestPatch, codes: string[]) {
+    return `import definePlugin from "@utils/types";
+
+export default definePlugin({
+    name: "${PLACEHOLDER_PLUGIN_NAME}",
+    description: "",
+    authors: [],
+    patches: [
+        ${indent(generatePatchCode(patch, codes), 2)}
+    ]
+});
+`;
+}
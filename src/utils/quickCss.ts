@@ -17,11 +17,18 @@
 */
 
 import { Settings, SettingsStore } from "@api/Settings";
+import type { ThemeVariable, ThemeVariableValue } from "@main/themes";
 import { ThemeStore } from "@webpack/common";
 
+import { addPinnedThemesListener, getPinnedThemes, getThemeLinkUrl, startThemeUpdateChecker } from "./themeUpdates";
+
 
 let style: HTMLStyleElement;
 let themesStyle: HTMLStyleElement;
+let themeVariablesStyle: HTMLStyleElement;
+let initThemesCount = 0;
+/** Object urls of the pinned themes, by their content */
+const pinnedThemeUrls = new Map<string, string>();
 
 function createStyle(id: string) {
     const style = document.createElement("style");
@@ -63,13 +70,27 @@ async function initThemes() {
     // "darker" and "midnight" both count as dark
     const activeTheme = ThemeStore.theme === "light" ? "light" : "dark";
 
+    const callId = ++initThemesCount;
+    const pinnedThemes = await getPinnedThemes();
+    // A newer call already applied the latest themes, or is about to
+    if (callId !== initThemesCount) return;
+
     const links = themeLinks
         .map(rawLink => {
             const match = /^@(light|dark) (.*)/.exec(rawLink);
-            if (!match) return rawLink;
-
-            const [, mode, link] = match;
-            return mode === activeTheme ? link : null;
+            if (match && match[1] !== activeTheme) return null;
+
+            const link = getThemeLinkUrl(rawLink);
+            if (!Object.hasOwn(pinnedThemes, link)) return link;
+
+            // Load the pinned content instead of whatever the link serves now
+            const css = pinnedThemes[link];
+            let url = pinnedThemeUrls.get(css);
+            if (!url) {
+                url = URL.createObjectURL(new Blob([css], { type: "text/css" }));
+                pinnedThemeUrls.set(css, url);
+            }
+            return url;
         })
         .filter(link => link !== null);
 
@@ -85,7 +106,71 @@ async function initThemes() {
         links.push(...localThemes);
     }
 
+    if (callId !== initThemesCount) return;
+
     themesStyle.textContent = links.map(link => `@import url("${link.trim()}");`).join("\n");
+
+    // Revoking urls the old stylesheet still loads from breaks them, so wait until the new one is done loading
+    const revokeUnused = () => {
+        if (callId !== initThemesCount) return;
+
+        for (const [css, url] of pinnedThemeUrls) {
+            if (links.includes(url)) continue;
+            URL.revokeObjectURL(url);
+            pinnedThemeUrls.delete(css);
+        }
+    };
+    themesStyle.onload = themesStyle.onerror = revokeUnused;
+}
+
+/**
+ * @returns the value limited to the range of the number variable
+ */
+export function clampThemeNumber({ min, max }: ThemeVariable & { type: "number"; }, value: number) {
+    return Math.min(Math.max(value, min ?? -Infinity), max ?? Infinity);
+}
+
+/**
+ * @returns the CSS value of a theme variable, or null if the value doesn't fit the variable
+ */
+export function formatThemeVariable(variable: ThemeVariable, value: ThemeVariableValue) {
+    switch (variable.type) {
+        case "color":
+            return typeof value === "string" && !/[;{}]/.test(value) ? value : null;
+        case "number":
+            return typeof value === "number" && isFinite(value) ? `${clampThemeNumber(variable, value)}${variable.unit ?? ""}` : null;
+        case "select":
+            return variable.options.some(o => o.value === value) ? String(value) : null;
+        case "boolean":
+            return typeof value === "boolean" ? (value ? "1" : "0") : null;
+    }
+}
+
+async function initThemeVariables() {
+    themeVariablesStyle ??= createStyle("vencord-theme-variables");
+
+    const { enabledThemes, themeVariables } = Settings;
+    if (!enabledThemes.some(theme => themeVariables[theme])) {
+        themeVariablesStyle.textContent = "";
+        return;
+    }
+
+    const themes = await VencordNative.themes.getThemesList();
+    const declarations = themes
+        .filter(theme => enabledThemes.includes(theme.fileName))
+        .flatMap(theme => {
+            const overrides = themeVariables[theme.fileName] ?? {};
+            return theme.vars
+                .filter(variable => Object.hasOwn(overrides, variable.name))
+                .map(variable => [variable.name, formatThemeVariable(variable, overrides[variable.name])] as const)
+                .filter(([, value]) => value != null)
+                .map(([name, value]) => `--${name}: ${value} !important;`);
+        });
+
+    // Themes often declare their variables on the theme classes rather than on the root
+    themeVariablesStyle.textContent = declarations.length
+        ? `:root, .theme-dark, .theme-light {${declarations.join("")}}`
+        : "";
 }
 
 document.addEventListener("DOMContentLoaded", () => {
@@ -99,6 +184,16 @@ document.addEventListener("DOMContentLoaded", () => {
     SettingsStore.addChangeListener("enabledThemes", initThemes);
     ThemeStore.addChangeListener(initThemes);
 
+    addPinnedThemesListener(initThemes);
+    startThemeUpdateChecker();
+
+    initThemeVariables();
+    SettingsStore.addChangeListener("enabledThemes", initThemeVariables);
+    SettingsStore.addChangeListener("themeVariables", initThemeVariables);
+
     if (!IS_WEB)
-        VencordNative.quickCss.addThemeChangeListener(initThemes);
+        VencordNative.quickCss.addThemeChangeListener(() => {
+            initThemes();
+            initThemeVariables();
+        });
 });
@@ -16,13 +16,17 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import * as DataStore from "@api/DataStore";
 import { showNotification } from "@api/Notifications";
-import { PlainSettings, Settings } from "@api/Settings";
-import { moment, Toasts } from "@webpack/common";
-import { deflateSync, inflateSync } from "fflate";
+import { keepSettingsVersions, PlainSettings, Settings } from "@api/Settings";
+import { moment, SettingsRouter, Toasts, zustandCreate } from "@webpack/common";
 
+import { Backup, BackupSection, createBackup, isBackupArchive, readBackup, restoreBackup } from "./backup";
 import { getCloudAuth, getCloudUrl } from "./cloud";
+import { applyCloudMerge, CloudPullResult, CloudSettingsClient, CloudUploadResult, PendingCloudMerge, pullCloudSettings, pushCloudSettings, SyncedSettings } from "./cloudSettingsSync";
+import { proxyLazy } from "./lazy";
 import { Logger } from "./Logger";
+import { resolveConflicts } from "./mergeSettings";
 import { relaunch } from "./native";
 import { chooseFile, saveFile } from "./web";
 
@@ -35,6 +39,7 @@ export async function importSettings(data: string) {
     }
 
     if ("settings" in parsed && "quickCss" in parsed) {
+        if (parsed.settings.plugins) keepSettingsVersions(parsed.settings.plugins);
         Object.assign(PlainSettings, parsed.settings);
         await VencordNative.settings.set(parsed.settings);
         await VencordNative.quickCss.set(parsed.quickCss);
@@ -42,21 +47,26 @@ export async function importSettings(data: string) {
         throw new Error("Invalid Settings. Is this even a Vencord Settings file?");
 }
 
-export async function exportSettings({ minify }: { minify?: boolean; } = {}) {
+export type { PendingCloudMerge, SyncedSettings };
+
+async function getSyncedSettings(): Promise<SyncedSettings> {
     const settings = VencordNative.settings.get();
     const quickCss = await VencordNative.quickCss.get();
-    return JSON.stringify({ settings, quickCss }, null, minify ? undefined : 4);
+    return { settings, quickCss };
 }
 
-export async function downloadSettingsBackup() {
-    const filename = `vencord-settings-backup-${moment().format("YYYY-MM-DD")}.json`;
-    const backup = await exportSettings();
-    const data = new TextEncoder().encode(backup);
+export async function exportSettings({ minify }: { minify?: boolean; } = {}) {
+    return JSON.stringify(await getSyncedSettings(), null, minify ? undefined : 4);
+}
+
+export async function downloadSettingsBackup(sections?: BackupSection[]) {
+    const filename = `vencord-backup-${moment().format("YYYY-MM-DD")}.zip`;
+    const data = await createBackup(sections);
 
     if (IS_DISCORD_DESKTOP) {
         DiscordNative.fileManager.saveWithDialog(data, filename);
     } else {
-        saveFile(new File([data], filename, { type: "application/json" }));
+        saveFile(new File([data], filename, { type: "application/zip" }));
     }
 }
 
@@ -73,103 +83,124 @@ const toastSuccess = () =>
 const toastFailure = (err: any) =>
     toast(Toasts.Type.FAILURE, `Failed to import settings: ${String(err)}`);
 
-export async function uploadSettingsBackup(showToast = true): Promise<void> {
+async function chooseSettingsBackup() {
     if (IS_DISCORD_DESKTOP) {
         const [file] = await DiscordNative.fileManager.openFiles({
             filters: [
-                { name: "Vencord Settings Backup", extensions: ["json"] },
+                { name: "Vencord Backup", extensions: ["zip", "json"] },
                 { name: "all", extensions: ["*"] }
             ]
         });
 
-        if (file) {
-            try {
-                await importSettings(new TextDecoder().decode(file.data));
-                if (showToast) toastSuccess();
-            } catch (err) {
-                new Logger("SettingsSync").error(err);
-                if (showToast) toastFailure(err);
-            }
-        }
-    } else {
-        const file = await chooseFile("application/json");
-        if (!file) return;
-
-        const reader = new FileReader();
-        reader.onload = async () => {
-            try {
-                await importSettings(reader.result as string);
-                if (showToast) toastSuccess();
-            } catch (err) {
-                new Logger("SettingsSync").error(err);
-                if (showToast) toastFailure(err);
-            }
-        };
-        reader.readAsText(file);
+        return file ? new Uint8Array(file.data) : null;
     }
+
+    const file = await chooseFile("application/zip,application/json");
+    return file && new Uint8Array(await file.arrayBuffer());
 }
 
-// Cloud settings
-const cloudSettingsLogger = new Logger("Cloud:Settings", "#39b7e0");
+/**
+ * Lets the user pick a backup file. Legacy JSON backups are imported right away, since they only contain settings and QuickCSS.
+ * @returns the backup archive, for the caller to choose which sections to restore, or null if there is nothing left to restore
+ */
+export async function loadSettingsBackup(showToast = true): Promise<Backup | null> {
+    const data = await chooseSettingsBackup();
+    if (!data) return null;
+
+    try {
+        if (isBackupArchive(data))
+            return readBackup(data);
+
+        await importSettings(new TextDecoder().decode(data));
+        if (showToast) toastSuccess();
+    } catch (err) {
+        new Logger("SettingsSync").error(err);
+        if (showToast) toastFailure(err);
+    }
 
-export async function putCloudSettings(manual?: boolean) {
-    const settings = await exportSettings({ minify: true });
+    return null;
+}
 
+export async function restoreSettingsBackup(backup: Backup, sections: BackupSection[], showToast = true) {
     try {
-        const res = await fetch(new URL("/v1/settings", getCloudUrl()), {
-            method: "PUT",
-            headers: {
-                Authorization: await getCloudAuth(),
-                "Content-Type": "application/octet-stream"
-            },
-            body: deflateSync(new TextEncoder().encode(settings))
-        });
+        await restoreBackup(backup, sections);
+        if (showToast) toastSuccess();
+        return true;
+    } catch (err) {
+        new Logger("SettingsSync").error(err);
+        if (showToast) toastFailure(err);
+        return false;
+    }
+}
 
-        if (!res.ok) {
-            cloudSettingsLogger.error(`Failed to sync up, API returned ${res.status}`);
-            showNotification({
-                title: "Cloud Settings",
-                body: `Could not synchronize settings to cloud (API returned ${res.status}).`,
-                color: "var(--red-360)"
-            });
-            return;
-        }
+/**
+ * Imports a backup in full, without asking which parts to restore.
+ */
+export async function uploadSettingsBackup(showToast = true): Promise<void> {
+    const backup = await loadSettingsBackup(showToast);
+    if (backup) await restoreSettingsBackup(backup, Object.keys(backup.manifest.sections) as BackupSection[], showToast);
+}
 
-        const { written } = await res.json();
-        PlainSettings.cloud.settingsSyncVersion = written;
-        VencordNative.settings.set(PlainSettings);
+// Cloud settings
+const cloudSettingsLogger = new Logger("Cloud:Settings", "#39b7e0");
 
-        cloudSettingsLogger.info("Settings uploaded to cloud successfully");
+const SNAPSHOT_KEY = "Vencord_cloudSettingsSnapshot";
 
-        if (manual) {
-            showNotification({
-                title: "Cloud Settings",
-                body: "Synchronized settings to the cloud!",
-                noPersist: true,
-            });
-        }
-    } catch (e: any) {
-        cloudSettingsLogger.error("Failed to sync up", e);
+const cloudSettingsClient: CloudSettingsClient = {
+    getUrl: getCloudUrl,
+    getAuth: getCloudAuth,
+    getSettings: getSyncedSettings,
+    setSettings: settings => importSettings(JSON.stringify(settings)),
+    getVersion: () => Settings.cloud.settingsSyncVersion,
+    setVersion(written) {
+        PlainSettings.cloud.settingsSyncVersion = written;
+        VencordNative.settings.set(PlainSettings);
+    },
+    getSnapshot: () => DataStore.get<SyncedSettings>(SNAPSHOT_KEY),
+    setSnapshot: snapshot => DataStore.set(SNAPSHOT_KEY, snapshot)
+};
+
+/**
+ * Holds a merge with the cloud that is waiting for the user to resolve its conflicts
+ */
+export const useCloudConflicts = proxyLazy(() => zustandCreate<{ pending: PendingCloudMerge | null; }>(() => ({ pending: null })));
+
+/**
+ * @returns Whether the settings were uploaded
+ */
+function handleCloudUpload(result: CloudUploadResult, manual?: boolean) {
+    if (result.type === "failed") {
+        cloudSettingsLogger.error(`Failed to sync up, API returned ${result.status}`);
         showNotification({
             title: "Cloud Settings",
-            body: `Could not synchronize settings to the cloud (${e.toString()}).`,
+            body: `Could not synchronize settings to cloud (API returned ${result.status}).`,
             color: "var(--red-360)"
         });
+        return false;
     }
-}
 
-export async function getCloudSettings(shouldNotify = true, force = false) {
-    try {
-        const res = await fetch(new URL("/v1/settings", getCloudUrl()), {
-            method: "GET",
-            headers: {
-                Authorization: await getCloudAuth(),
-                Accept: "application/octet-stream",
-                "If-None-Match": Settings.cloud.settingsSyncVersion.toString()
-            },
+    // whatever was waiting to be merged is outdated now
+    useCloudConflicts.setState({ pending: null });
+
+    cloudSettingsLogger.info("Settings uploaded to cloud successfully");
+
+    if (manual) {
+        showNotification({
+            title: "Cloud Settings",
+            body: "Synchronized settings to the cloud!",
+            noPersist: true,
         });
+    }
 
-        if (res.status === 404) {
+    return true;
+}
+
+/**
+ * @returns Whether the local settings were changed
+ */
+function handleCloudPull(result: CloudPullResult, shouldNotify: boolean) {
+    switch (result.type) {
+        case "notFound":
             cloudSettingsLogger.info("No settings on the cloud");
             if (shouldNotify)
                 showNotification({
@@ -178,9 +209,7 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
                     noPersist: true
                 });
             return false;
-        }
-
-        if (res.status === 304) {
+        case "upToDate":
             cloudSettingsLogger.info("Settings up to date");
             if (shouldNotify)
                 showNotification({
@@ -189,52 +218,120 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
                     noPersist: true
                 });
             return false;
-        }
-
-        if (!res.ok) {
-            cloudSettingsLogger.error(`Failed to sync down, API returned ${res.status}`);
+        case "failed":
+            cloudSettingsLogger.error(`Failed to sync down, API returned ${result.status}`);
             showNotification({
                 title: "Cloud Settings",
-                body: `Could not synchronize settings from the cloud (API returned ${res.status}).`,
+                body: `Could not synchronize settings from the cloud (API returned ${result.status}).`,
                 color: "var(--red-360)"
             });
             return false;
-        }
-
-        const written = Number(res.headers.get("etag")!);
-        const localWritten = Settings.cloud.settingsSyncVersion;
-
-        // don't need to check for written > localWritten because the server will return 304 due to if-none-match
-        if (!force && written < localWritten) {
+        case "localNewer":
             if (shouldNotify)
                 showNotification({
                     title: "Cloud Settings",
                     body: "Your local settings are newer than the cloud ones.",
                     noPersist: true,
                 });
-            return;
-        }
+            return false;
+        case "conflicts":
+            cloudSettingsLogger.warn(`${result.pending.result.conflicts.length} settings were changed both locally and on the cloud`);
+            useCloudConflicts.setState({ pending: result.pending });
+            showNotification({
+                title: "Cloud Settings",
+                body: "Some settings were changed both on this device and on the cloud. Click here to choose which to keep!",
+                color: "var(--yellow-360)",
+                onClick: () => SettingsRouter.open("VencordCloud")
+            });
+            return false;
+        case "merged":
+            if (result.upload) handleCloudUpload(result.upload);
+            break;
+        case "overwritten":
+            useCloudConflicts.setState({ pending: null });
+            break;
+    }
+
+    cloudSettingsLogger.info("Settings loaded from cloud successfully");
+    if (shouldNotify)
+        showNotification({
+            title: "Cloud Settings",
+            body: "Your settings have been updated! Click here to restart to fully apply changes!",
+            color: "var(--green-360)",
+            onClick: IS_WEB ? () => location.reload() : relaunch,
+            noPersist: true
+        });
 
-        const data = await res.arrayBuffer();
+    return true;
+}
 
-        const settings = new TextDecoder().decode(inflateSync(new Uint8Array(data)));
-        await importSettings(settings);
+/**
+ * Finishes a merge with conflicts once the user chose which side of each to keep
+ * @param choices Which side to keep, by index of the conflict
+ */
+export async function resolveCloudConflicts(choices: Record<number, "local" | "remote">) {
+    const { pending } = useCloudConflicts.getState();
+    if (!pending) return;
 
-        // sync with server timestamp instead of local one
-        PlainSettings.cloud.settingsSyncVersion = written;
-        VencordNative.settings.set(PlainSettings);
+    try {
+        const upload = await applyCloudMerge(cloudSettingsClient, resolveConflicts(pending.result, choices), pending.remote, pending.written);
+        if (upload) handleCloudUpload(upload);
+        useCloudConflicts.setState({ pending: null });
+
+        cloudSettingsLogger.info("Resolved conflicts with the cloud settings");
+        showNotification({
+            title: "Cloud Settings",
+            body: "Your settings have been updated! Click here to restart to fully apply changes!",
+            color: "var(--green-360)",
+            onClick: IS_WEB ? () => location.reload() : relaunch,
+            noPersist: true
+        });
+    } catch (e: any) {
+        cloudSettingsLogger.error("Failed to resolve conflicts", e);
+        showNotification({
+            title: "Cloud Settings",
+            body: `Could not apply the merged settings (${e.toString()}).`,
+            color: "var(--red-360)"
+        });
+    }
+}
+
+/**
+ * Uploads the local settings. Unless done manually, changes other clients synced since the last sync are merged in first,
+ * so that they aren't overwritten.
+ * @returns Whether the local settings are in the cloud now. False if uploading failed or conflicts have to be resolved first
+ */
+export async function putCloudSettings(manual?: boolean): Promise<boolean> {
+    try {
+        const { pull, upload, inCloud } = await pushCloudSettings(cloudSettingsClient, !manual);
 
-        cloudSettingsLogger.info("Settings loaded from cloud successfully");
-        if (shouldNotify)
+        if (pull && handleCloudPull(pull, false)) {
             showNotification({
                 title: "Cloud Settings",
-                body: "Your settings have been updated! Click here to restart to fully apply changes!",
+                body: "Changes from your other devices were merged into your settings. Click here to restart to fully apply them!",
                 color: "var(--green-360)",
                 onClick: IS_WEB ? () => location.reload() : relaunch,
                 noPersist: true
             });
+        }
+        if (upload) handleCloudUpload(upload, manual);
 
-        return true;
+        return inCloud;
+    } catch (e: any) {
+        cloudSettingsLogger.error("Failed to sync up", e);
+        showNotification({
+            title: "Cloud Settings",
+            body: `Could not synchronize settings to the cloud (${e.toString()}).`,
+            color: "var(--red-360)"
+        });
+
+        return false;
+    }
+}
+
+export async function getCloudSettings(shouldNotify = true, force = false) {
+    try {
+        return handleCloudPull(await pullCloudSettings(cloudSettingsClient, force), shouldNotify);
     } catch (e: any) {
         cloudSettingsLogger.error("Failed to sync down", e);
         showNotification({
@@ -264,6 +361,8 @@ export async function deleteCloudSettings() {
             return;
         }
 
+        await DataStore.del(SNAPSHOT_KEY);
+
         cloudSettingsLogger.info("Settings deleted from cloud successfully");
         showNotification({
             title: "Cloud Settings",
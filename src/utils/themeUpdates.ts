@@ -0,0 +1,209 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { Settings } from "@api/Settings";
+import { getThemeInfo } from "@main/themes";
+import { useEffect, useReducer } from "@webpack/common";
+import type { DispatchWithoutAction } from "react";
+
+import { Logger } from "./Logger";
+import { useAwaiter } from "./react";
+
+export interface ThemeLinkVersion {
+    /** SHA-256 of the content, as hex */
+    hash: string;
+    css: string;
+    /** The `@version` from the theme's header, if it has one */
+    version?: string;
+}
+
+export interface ThemeLinkState extends ThemeLinkVersion {
+    /**
+     * Whether to keep using this exact content instead of whatever the link currently serves
+     */
+    pinned: boolean;
+    etag?: string;
+    checkedAt: number;
+    /** What the link serves now, if it's different from the content above */
+    update?: ThemeLinkVersion;
+}
+
+const KEY = "theme-link-updates";
+const CHECK_INTERVAL = 30 * 60 * 1000;
+
+const logger = new Logger("ThemeUpdates");
+const signals = new Set<DispatchWithoutAction>();
+const pinnedThemesListeners = new Set<() => void>();
+
+let checkInterval: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Online theme links can be prefixed with @light or @dark, which isn't part of the url
+ */
+export function getThemeLinkUrl(rawLink: string) {
+    return rawLink.replace(/^@(light|dark) /, "").trim();
+}
+
+async function hashCss(css: string) {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(css));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function toVersion(url: string, css: string): Promise<ThemeLinkVersion> {
+    return {
+        hash: await hashCss(css),
+        css,
+        version: getThemeInfo(css, url).version
+    };
+}
+
+export async function getThemeLinkStates() {
+    return await DataStore.get<Record<string, ThemeLinkState>>(KEY) ?? {};
+}
+
+async function updateStates(updater: (states: Record<string, ThemeLinkState>) => void) {
+    await DataStore.update<Record<string, ThemeLinkState>>(KEY, states => {
+        states ??= {};
+        updater(states);
+        return states;
+    });
+    signals.forEach(x => x());
+}
+
+async function checkLink(url: string, state?: ThemeLinkState): Promise<ThemeLinkState | undefined> {
+    const res = await fetch(url, {
+        cache: "no-cache",
+        headers: state?.etag ? { "If-None-Match": state.etag } : undefined
+    });
+
+    if (res.status === 304) return state && { ...state, checkedAt: Date.now() };
+    if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+
+    const latest = await toVersion(url, await res.text());
+    const etag = res.headers.get("ETag") ?? undefined;
+
+    if (!state) return { ...latest, pinned: false, etag, checkedAt: Date.now() };
+
+    return {
+        ...state,
+        etag,
+        checkedAt: Date.now(),
+        update: latest.hash === state.hash ? undefined : latest
+    };
+}
+
+/**
+ * Fetches all online themes and remembers which of them changed since their last accepted version
+ * @returns the amount of themes with an update
+ */
+export async function checkThemeUpdates() {
+    const urls = [...new Set(Settings.themeLinks.map(getThemeLinkUrl))];
+    const states = await getThemeLinkStates();
+
+    const results = await Promise.all(urls.map(async url => {
+        try {
+            return [url, await checkLink(url, states[url])] as const;
+        } catch (err) {
+            logger.warn(`Failed to check ${url} for updates`, err);
+            return [url, states[url]] as const;
+        }
+    }));
+
+    await updateStates(states => {
+        for (const url of Object.keys(states))
+            if (!urls.includes(url)) delete states[url];
+
+        for (const [url, state] of results)
+            if (state) states[url] = state;
+    });
+
+    return results.filter(([, state]) => state?.update).length;
+}
+
+/**
+ * Marks the latest content of a link as seen. If the link is pinned, the pin moves to the new content
+ */
+export async function acceptThemeUpdate(url: string) {
+    let wasPinned = false;
+    await updateStates(states => {
+        const state = states[url];
+        if (!state?.update) return;
+
+        const { update, ...rest } = state;
+        states[url] = { ...rest, ...update };
+        wasPinned = state.pinned;
+    });
+
+    if (wasPinned) pinnedThemesListeners.forEach(x => x());
+}
+
+export async function setThemeLinkPinned(url: string, pinned: boolean) {
+    await updateStates(states => {
+        if (states[url]) states[url].pinned = pinned;
+    });
+    pinnedThemesListeners.forEach(x => x());
+}
+
+/**
+ * Pinned content isn't loaded from its link, so relative urls in it have to be made absolute to still point to the right place
+ */
+function resolveCssUrls(css: string, baseUrl: string) {
+    const resolve = (url: string) => {
+        if (url.startsWith("#") || url.startsWith("data:")) return url;
+        try {
+            return new URL(url, baseUrl).href;
+        } catch {
+            return url;
+        }
+    };
+
+    return css
+        .replace(/url\(\s*(["']?)(.+?)\1\s*\)/g, (_, quote, url) => `url(${quote}${resolve(url)}${quote})`)
+        .replace(/@import\s+(["'])(.+?)\1/g, (_, quote, url) => `@import ${quote}${resolve(url)}${quote}`);
+}
+
+/**
+ * @returns the content pinned themes should be loaded with, by url
+ */
+export async function getPinnedThemes() {
+    const states = await getThemeLinkStates();
+    return Object.fromEntries(
+        Object.entries(states)
+            .filter(([, state]) => state.pinned)
+            .map(([url, state]) => [url, resolveCssUrls(state.css, url)])
+    );
+}
+
+/**
+ * @param listener Called whenever the content pinned themes should be loaded with changes
+ */
+export function addPinnedThemesListener(listener: () => void) {
+    pinnedThemesListeners.add(listener);
+}
+
+export function startThemeUpdateChecker() {
+    if (checkInterval) return;
+
+    checkThemeUpdates();
+    checkInterval = setInterval(checkThemeUpdates, CHECK_INTERVAL);
+}
+
+export function useThemeLinkStates() {
+    const [signal, setSignal] = useReducer(x => x + 1, 0);
+
+    useEffect(() => {
+        signals.add(setSignal);
+        return () => void signals.delete(setSignal);
+    }, []);
+
+    const [states, , pending] = useAwaiter(getThemeLinkStates, {
+        fallbackValue: {},
+        deps: [signal]
+    });
+
+    return [states, pending] as const;
+}
@@ -25,6 +25,7 @@ import { MessageAccessoryFactory } from "@api/MessageAccessories";
 import { MessageDecorationFactory } from "@api/MessageDecorations";
 import { MessageClickListener, MessageEditListener, MessageSendListener } from "@api/MessageEvents";
 import { MessagePopoverButtonFactory } from "@api/MessagePopover";
+import type { SettingsChange } from "@shared/SettingsStore";
 import { FluxEvents } from "@webpack/types";
 import { JSX } from "react";
 import { Promisable } from "type-fest";
@@ -120,6 +121,15 @@ export interface PluginDef {
      * Optionally provide settings that the user can configure in the Plugins tab of settings.
      */
     settings?: DefinedSettings;
+    /**
+     * The version of this plugin's settings schema. Defaults to the version of the last migration
+     */
+    settingsVersion?: number;
+    /**
+     * Migrations that bring settings saved by older versions of this plugin up to date, in order.
+     * Pending ones are run once before the plugin is started. Prefer passing these to `definePluginSettings(...).withMigrations()`
+     */
+    migrations?: SettingsMigration[];
     /**
      * Check that this returns true before allowing a save to complete.
      * If a string is returned, show the error to the user.
@@ -165,6 +175,18 @@ export interface PluginDef {
     renderChatBarButton?: ChatBarButtonFactory;
 }
 
+export interface SettingsMigration {
+    /**
+     * The settings version this migration upgrades to
+     */
+    version: number;
+    /**
+     * Changes the plugin's settings in place. If a promise is returned, the plugin is only started once it resolves
+     * @param settings The plugin's settings store
+     */
+    migrate(settings: Record<string, any>): Promisable<void>;
+}
+
 export const enum StartAt {
     /** Right away, as soon as Vencord initialised */
     Init = "Init",
@@ -212,7 +234,11 @@ export type PluginSettingDef =
 export interface PluginSettingCommon {
     description: string;
     placeholder?: string;
-    onChange?(newValue: any): void;
+    /**
+     * Called whenever the setting changes, including changes to values nested inside of it
+     * @param change The exact change, with the old value
+     */
+    onChange?(newValue: any, change: SettingsChange): void;
     /**
      * Whether changing this setting requires a restart
      */
@@ -347,9 +373,10 @@ export interface DefinedSettings<
     plain: SettingsStore<Def> & PrivateSettings;
     /**
      * React hook for getting the settings for this plugin
-     * @param filter optional filter to avoid rerenders for irrelevent settings
+     * @param filter optional filter to avoid rerenders for irrelevent settings.
+     * To only rerender for a value nested inside of a setting, pass its path as an array, like `["setting", "nested.key"]`
      */
-    use<F extends Extract<keyof Def | keyof PrivateSettings, string>>(filter?: F[]): Pick<SettingsStore<Def> & PrivateSettings, F>;
+    use<F extends Extract<keyof Def | keyof PrivateSettings, string>>(filter?: (F | readonly [F, ...string[]])[]): Pick<SettingsStore<Def> & PrivateSettings, F>;
     /** Definitions of each setting */
     def: Def;
     /** Setting methods with return values that could rely on other settings */
@@ -359,8 +386,13 @@ export interface DefinedSettings<
      * will be an empty string until plugin is initialized
      */
     pluginName: string;
+    /** See {@link PluginDef.settingsVersion} */
+    settingsVersion?: number;
+    /** See {@link PluginDef.migrations} */
+    migrations?: SettingsMigration[];
 
     withPrivateSettings<T extends object>(): DefinedSettings<Def, Checks, T>;
+    withMigrations(migrations: SettingsMigration[], settingsVersion?: number): DefinedSettings<Def, Checks, PrivateSettings>;
 }
 
 export type PartialExcept<T, R extends keyof T> = Partial<T> & Required<Pick<T, R>>;
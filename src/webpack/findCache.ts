@@ -0,0 +1,127 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { Logger } from "@utils/Logger";
+
+export interface CachedFind {
+    /** Id of the module the find resolved to */
+    id: string;
+    /** Key of the export that matched, or undefined if the module exports themselves matched */
+    exportKey?: string;
+}
+
+interface StoredFindCache {
+    buildHash: string;
+    finds: Record<string, CachedFind>;
+}
+
+const KEY = "Vencord_webpackFindCache";
+const SAVE_DELAY = 5000;
+
+const logger = new Logger("WebpackFindCache", "#8caaee");
+
+/**
+ * How the cache did since startup. Finds whose filter can't be cached aren't counted
+ */
+export const findCacheStats = {
+    hits: 0,
+    misses: 0,
+    /** Cached results which didn't match the filter anymore, also counted as misses */
+    invalidated: 0,
+    /** Time spent on finds that were counted, in ms */
+    hitTime: 0,
+    missTime: 0
+};
+
+let buildHash: string | undefined;
+let finds: Record<string, CachedFind> = {};
+let saveTimeout: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Discord's build hash. The ids of modules change between builds, so the cache is only valid for one build
+ */
+export function getBuildHash(): string | undefined {
+    return window.GLOBAL_ENV?.SENTRY_TAGS?.buildId;
+}
+
+export function isFindCacheEnabled() {
+    return buildHash != null;
+}
+
+/**
+ * Loads the cache for the current build. Finds before this finishes just do a full search
+ */
+export async function initFindCache() {
+    if (IS_REPORTER) return;
+
+    buildHash = getBuildHash();
+    if (!buildHash) {
+        logger.warn("Couldn't find Discord's build hash, webpack finds won't be cached");
+        return;
+    }
+
+    try {
+        const stored = await DataStore.get<StoredFindCache>(KEY);
+
+        if (stored?.buildHash === buildHash) {
+            finds = { ...stored.finds, ...finds };
+            logger.info(`Loaded ${Object.keys(stored.finds).length} cached finds for build ${buildHash}`);
+        } else if (stored) {
+            logger.info(`Discord updated to build ${buildHash}, discarding cached finds`);
+            scheduleSave();
+        }
+    } catch (err) {
+        logger.error("Failed to load cached finds", err);
+    }
+}
+
+function scheduleSave() {
+    const hash = buildHash;
+    if (!hash) return;
+
+    clearTimeout(saveTimeout);
+    saveTimeout = setTimeout(() => {
+        DataStore.set(KEY, { buildHash: hash, finds } satisfies StoredFindCache)
+            .catch(err => logger.error("Failed to save cached finds", err));
+    }, SAVE_DELAY);
+}
+
+export function getCachedFind(key: string): CachedFind | undefined {
+    if (!buildHash) return;
+
+    return finds[key];
+}
+
+export function setCachedFind(key: string, find: CachedFind) {
+    if (!buildHash) return;
+
+    const existing = finds[key];
+    if (existing?.id === find.id && existing.exportKey === find.exportKey) return;
+
+    finds[key] = find;
+    scheduleSave();
+}
+
+export function deleteCachedFind(key: string) {
+    if (!buildHash || !(key in finds)) return;
+
+    delete finds[key];
+    scheduleSave();
+}
+
+export function getFindCacheInfo() {
+    return {
+        buildHash,
+        size: Object.keys(finds).length
+    };
+}
+
+export async function clearFindCache() {
+    finds = {};
+    clearTimeout(saveTimeout);
+    await DataStore.del(KEY);
+}
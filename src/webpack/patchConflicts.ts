@@ -0,0 +1,49 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export const enum PatchConflictType {
+    /** A replacement matched the original module, but not after another plugin's edit */
+    BrokenMatch = "brokenMatch",
+    /** A replacement changed code which was inserted or changed by another plugin */
+    Overlap = "overlap"
+}
+
+export interface PatchConflict {
+    type: PatchConflictType;
+    moduleId: string;
+    /** The plugin whose patch was applied later */
+    plugin: string;
+    /** The plugin which edited the module first */
+    conflictingPlugin: string;
+    /** The replacement match of the later patch */
+    match: string;
+}
+
+export const patchConflicts = [] as PatchConflict[];
+
+const listeners = new Set<() => void>();
+
+export function addPatchConflict(conflict: PatchConflict) {
+    patchConflicts.push(conflict);
+    listeners.forEach(x => x());
+}
+
+/**
+ * @returns A function to remove the listener
+ */
+export function addPatchConflictListener(listener: () => void) {
+    listeners.add(listener);
+    return () => void listeners.delete(listener);
+}
+
+export function describePatchConflict({ type, plugin, conflictingPlugin, moduleId }: PatchConflict) {
+    switch (type) {
+        case PatchConflictType.BrokenMatch:
+            return `A replacement by ${plugin} no longer matched module ${moduleId} after ${conflictingPlugin} patched it`;
+        case PatchConflictType.Overlap:
+            return `A replacement by ${plugin} changed code in module ${moduleId} which was patched by ${conflictingPlugin}`;
+    }
+}
@@ -0,0 +1,123 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export const enum ReplacementRecordStatus {
+    Applied = "applied",
+    NoEffect = "noEffect",
+    Errored = "errored",
+    /** Applied, but undone again because another replacement of its patch group failed */
+    Undone = "undone"
+}
+
+/** The part of a module a replacement changed */
+export interface ReplacementHunk {
+    /** Where the change starts in the code the replacement was applied to */
+    start: number;
+    /** Unchanged code before the change */
+    before: string;
+    removed: string;
+    added: string;
+    /** Unchanged code after the change */
+    after: string;
+}
+
+export interface ReplacementRecord {
+    plugin: string;
+    match: string;
+    status: ReplacementRecordStatus;
+    hunk?: ReplacementHunk;
+    error?: string;
+}
+
+export interface PatchedModuleRecord {
+    moduleId: string;
+    /** Every replacement of the patches whose find matched the module, in the order they were applied */
+    replacements: ReplacementRecord[];
+    /** The sources aren't stored since they would be kept for every patched module, see getOriginalSource and getPatchedSource */
+    originalFactory: Function;
+}
+
+/** Characters of unchanged code kept around each hunk */
+export const HUNK_CONTEXT = 100;
+
+/**
+ * Every module that patches were applied to in this session, by module id
+ */
+export const patchedModules = new Map<string, PatchedModuleRecord>();
+
+const listeners = new Set<() => void>();
+
+export function addPatchedModule(record: PatchedModuleRecord) {
+    patchedModules.set(record.moduleId, record);
+    listeners.forEach(x => x());
+}
+
+/**
+ * @returns A function to remove the listener
+ */
+export function addPatchedModuleListener(listener: () => void) {
+    listeners.add(listener);
+    return () => void listeners.delete(listener);
+}
+
+export function getPatchedModule(id: PropertyKey) {
+    return patchedModules.get(String(id));
+}
+
+/**
+ * @returns The modules the plugin's replacements applied to
+ */
+export function getModulesPatchedBy(plugin: string) {
+    return [...patchedModules.values()].filter(m => getPatchingPlugins(m).includes(plugin));
+}
+
+export function getOriginalSource({ originalFactory }: PatchedModuleRecord) {
+    return String(originalFactory);
+}
+
+/**
+ * Rebuilds the patched module by applying the hunks of its applied replacements to the original source
+ */
+export function getPatchedSource(record: PatchedModuleRecord) {
+    // Same as the code patches are applied to in patchWebpack
+    let code = "0," + getOriginalSource(record).replaceAll("\n", "");
+
+    for (const { status, hunk } of record.replacements) {
+        if (status !== ReplacementRecordStatus.Applied || !hunk) continue;
+        code = code.slice(0, hunk.start) + hunk.added + code.slice(hunk.start + hunk.removed.length);
+    }
+
+    return code.slice("0,".length);
+}
+
+/**
+ * @returns The plugins with at least one replacement that is applied to the module
+ */
+export function getPatchingPlugins({ replacements }: PatchedModuleRecord) {
+    return [...new Set(replacements.filter(r => r.status === ReplacementRecordStatus.Applied).map(r => r.plugin))];
+}
+
+/**
+ * Slices of a string keep the whole string alive, which would keep every intermediate version of a module in memory
+ */
+function detach(str: string): string {
+    return JSON.parse(JSON.stringify(str));
+}
+
+/**
+ * @param start Where the change starts, in both versions of the code
+ * @param oldEnd Where the change ends in the old code
+ * @param newEnd Where the change ends in the new code
+ */
+export function makeReplacementHunk(oldCode: string, newCode: string, start: number, oldEnd: number, newEnd: number): ReplacementHunk {
+    return {
+        start,
+        before: detach(oldCode.slice(Math.max(0, start - HUNK_CONTEXT), start)),
+        removed: detach(oldCode.slice(start, oldEnd)),
+        added: detach(newCode.slice(start, newEnd)),
+        after: detach(newCode.slice(newEnd, newEnd + HUNK_CONTEXT))
+    };
+}
@@ -25,6 +25,8 @@ import { WebpackInstance } from "discord-types/other";
 import { traceFunction } from "../debug/Tracer";
 import { patches } from "../plugins";
 import { _initWebpack, beforeInitListeners, factoryListeners, moduleListeners, subscriptions, wreq } from ".";
+import { addPatchConflict, describePatchConflict, PatchConflict, PatchConflictType } from "./patchConflicts";
+import { addPatchedModule, makeReplacementHunk, ReplacementRecord, ReplacementRecordStatus } from "./patchRecords";
 
 const logger = new Logger("WebpackInterceptor", "#8caaee");
 
@@ -141,6 +143,78 @@ function patchPush(webpackGlobal: any) {
 
 let webpackNotInitializedLogged = false;
 
+/** A span of a module's code which was changed by a plugin */
+interface PatchEdit {
+    plugin: string;
+    start: number;
+    end: number;
+}
+
+// Comparing chunks first is a lot faster than going char by char through big modules
+const COMPARE_CHUNK_SIZE = 512;
+
+function commonPrefixLength(a: string, b: string, max: number) {
+    let i = 0;
+    while (i + COMPARE_CHUNK_SIZE <= max && a.slice(i, i + COMPARE_CHUNK_SIZE) === b.slice(i, i + COMPARE_CHUNK_SIZE)) i += COMPARE_CHUNK_SIZE;
+    while (i < max && a[i] === b[i]) i++;
+    return i;
+}
+
+function commonSuffixLength(a: string, b: string, max: number) {
+    let i = 0;
+    while (i + COMPARE_CHUNK_SIZE <= max && a.slice(a.length - i - COMPARE_CHUNK_SIZE, a.length - i) === b.slice(b.length - i - COMPARE_CHUNK_SIZE, b.length - i)) i += COMPARE_CHUNK_SIZE;
+    while (i < max && a[a.length - 1 - i] === b[b.length - 1 - i]) i++;
+    return i;
+}
+
+/**
+ * Moves the spans of earlier edits to where they are after a replacement, and adds the span of the replacement
+ * @returns The new edits, the plugins whose edits were changed by the replacement, and the changed span
+ */
+function trackEdit(edits: PatchEdit[], plugin: string, oldCode: string, newCode: string) {
+    const start = commonPrefixLength(oldCode, newCode, Math.min(oldCode.length, newCode.length));
+    const suffix = commonSuffixLength(oldCode, newCode, Math.min(oldCode.length, newCode.length) - start);
+    const oldEnd = oldCode.length - suffix;
+    const newEnd = newCode.length - suffix;
+    const delta = newCode.length - oldCode.length;
+
+    const overlapping = new Set<string>();
+    const newEdits = edits.map(edit => {
+        if (edit.end <= start) return edit;
+        if (edit.start >= oldEnd) return { ...edit, start: edit.start + delta, end: edit.end + delta };
+
+        if (edit.plugin !== plugin) overlapping.add(edit.plugin);
+        return { ...edit, start: Math.min(edit.start, start), end: Math.max(edit.end + delta, newEnd) };
+    });
+    newEdits.push({ plugin, start, end: newEnd });
+
+    return [newEdits, overlapping, { start, oldEnd, newEnd }] as const;
+}
+
+function matchesCode(code: string, match: string | RegExp) {
+    if (typeof match === "string") return code.includes(match);
+
+    match.lastIndex = 0;
+    const matches = match.test(code);
+    match.lastIndex = 0;
+    return matches;
+}
+
+/**
+ * If a replacement which had no effect matched the original module, finds the plugin whose edit made it stop matching.
+ * The code in between is rebuilt here instead of being kept around, since this only runs when a replacement fails
+ * @param history The plugin and replacement of every replacement applied to the module so far
+ */
+function findBreakingPlugin(match: string | RegExp, originalMod: Function, history: Array<[plugin: string, replacement: PatchReplacement]>) {
+    let code = "0," + String(originalMod).replaceAll("\n", "");
+    if (!matchesCode(code, match)) return;
+
+    for (const [plugin, replacement] of history) {
+        code = code.replace(replacement.match, replacement.replace as string);
+        if (!matchesCode(code, match)) return plugin;
+    }
+}
+
 function patchFactories(factories: Record<string, (module: any, exports: any, require: WebpackInstance) => void>) {
     for (const id in factories) {
         let mod = factories[id];
@@ -267,6 +341,23 @@ function patchFactories(factories: Record<string, (module: any, exports: any, re
         // 0, prefix is to turn it into an expression: 0,function(){} would be invalid syntax without the 0,
         let code: string = "0," + mod.toString().replaceAll("\n", "");
 
+        // Which plugin changed which part of the module, to report plugins breaking each others patches
+        let edits = [] as PatchEdit[];
+        const history = [] as Array<[plugin: string, replacement: PatchReplacement]>;
+        const reportedConflicts = new Set<string>();
+        // What every replacement did, for the patch inspector
+        const records = [] as ReplacementRecord[];
+
+        const reportConflict = (conflict: Omit<PatchConflict, "moduleId">) => {
+            const key = `${conflict.type},${conflict.plugin},${conflict.conflictingPlugin}`;
+            if (conflict.plugin === conflict.conflictingPlugin || reportedConflicts.has(key)) return;
+
+            reportedConflicts.add(key);
+            const fullConflict = { ...conflict, moduleId: id };
+            logger.warn(`${describePatchConflict(fullConflict)}: ${conflict.match}`);
+            addPatchConflict(fullConflict);
+        };
+
         for (let i = 0; i < patches.length; i++) {
             const patch = patches[i];
 
@@ -281,6 +372,20 @@ function patchFactories(factories: Record<string, (module: any, exports: any, re
             const executePatch = traceFunction(`patch by ${patch.plugin}`, (match: string | RegExp, replace: string) => code.replace(match, replace));
             const previousMod = mod;
             const previousCode = code;
+            const previousEdits = edits;
+            const previousHistoryLength = history.length;
+            const previousRecordsLength = records.length;
+
+            const undoGroup = () => {
+                mod = previousMod;
+                code = previousCode;
+                edits = previousEdits;
+                history.length = previousHistoryLength;
+
+                for (const record of records.slice(previousRecordsLength)) {
+                    if (record.status === ReplacementRecordStatus.Applied) record.status = ReplacementRecordStatus.Undone;
+                }
+            };
 
             // We change all patch.replacement to array in plugins/index
             for (const replacement of patch.replacement as PatchReplacement[]) {
@@ -288,6 +393,8 @@ function patchFactories(factories: Record<string, (module: any, exports: any, re
                 const lastCode = code;
 
                 canonicalizeReplacement(replacement, patch.plugin);
+                const record: ReplacementRecord = { plugin: patch.plugin, match: String(replacement.match), status: ReplacementRecordStatus.NoEffect };
+                records.push(record);
 
                 try {
                     const newCode = executePatch(replacement.match, replacement.replace as string);
@@ -299,10 +406,19 @@ function patchFactories(factories: Record<string, (module: any, exports: any, re
                             }
                         }
 
+                        const breakingPlugin = findBreakingPlugin(replacement.match, originalMod, history);
+                        if (breakingPlugin) {
+                            reportConflict({
+                                type: PatchConflictType.BrokenMatch,
+                                plugin: patch.plugin,
+                                conflictingPlugin: breakingPlugin,
+                                match: String(replacement.match)
+                            });
+                        }
+
                         if (patch.group) {
                             logger.warn(`Undoing patch group ${patch.find} by ${patch.plugin} because replacement ${replacement.match} had no effect`);
-                            mod = previousMod;
-                            code = previousCode;
+                            undoGroup();
                             patchedBy.delete(patch.plugin);
                             break;
                         }
@@ -312,9 +428,28 @@ function patchFactories(factories: Record<string, (module: any, exports: any, re
 
                     code = newCode;
                     mod = (0, eval)(`// Webpack Module ${id} - Patched by ${[...patchedBy].join(", ")}\n${newCode}\n//# sourceURL=WebpackModule${id}`);
+
+                    const [newEdits, overlapping, span] = trackEdit(edits, patch.plugin, lastCode, newCode);
+                    edits = newEdits;
+                    history.push([patch.plugin, replacement]);
+
+                    record.status = ReplacementRecordStatus.Applied;
+                    record.hunk = makeReplacementHunk(lastCode, newCode, span.start, span.oldEnd, span.newEnd);
+
+                    for (const conflictingPlugin of overlapping) {
+                        reportConflict({
+                            type: PatchConflictType.Overlap,
+                            plugin: patch.plugin,
+                            conflictingPlugin,
+                            match: String(replacement.match)
+                        });
+                    }
                 } catch (err) {
                     logger.error(`Patch by ${patch.plugin} errored (Module id is ${id}): ${replacement.match}\n`, err);
 
+                    record.status = ReplacementRecordStatus.Errored;
+                    record.error = String(err);
+
                     if (IS_DEV) {
                         const changeSize = code.length - lastCode.length;
                         const match = lastCode.match(replacement.match)!;
@@ -352,8 +487,7 @@ function patchFactories(factories: Record<string, (module: any, exports: any, re
 
                     if (patch.group) {
                         logger.warn(`Undoing patch group ${patch.find} by ${patch.plugin} because replacement ${replacement.match} errored`);
-                        mod = previousMod;
-                        code = previousCode;
+                        undoGroup();
                         break;
                     }
 
@@ -365,6 +499,14 @@ function patchFactories(factories: Record<string, (module: any, exports: any, re
             if (!patch.all) patches.splice(i--, 1);
         }
 
+        if (records.length) {
+            addPatchedModule({
+                moduleId: id,
+                replacements: records,
+                originalFactory: originalMod
+            });
+        }
+
         if (IS_DEV) {
             if (mod !== originalMod) {
                 factory.$$vencordPatchedSource = String(mod);
@@ -23,6 +23,11 @@ import { canonicalizeMatch } from "@utils/patches";
 import type { WebpackInstance } from "discord-types/other";
 
 import { traceFunction } from "../debug/Tracer";
+import { CachedFind, deleteCachedFind, findCacheStats, getCachedFind, initFindCache, isFindCacheEnabled, setCachedFind } from "./findCache";
+
+export { clearFindCache, findCacheStats, getFindCacheInfo } from "./findCache";
+export { addPatchConflictListener, describePatchConflict, type PatchConflict, patchConflicts, PatchConflictType } from "./patchConflicts";
+export { addPatchedModuleListener, getModulesPatchedBy, getOriginalSource, getPatchedModule, getPatchedSource, getPatchingPlugins, type PatchedModuleRecord, patchedModules, type ReplacementHunk, type ReplacementRecord, ReplacementRecordStatus } from "./patchRecords";
 
 const logger = new Logger("Webpack");
 
@@ -49,11 +54,26 @@ export const stringMatches = (s: string, filter: CodeFilter) =>
             : (f.global && (f.lastIndex = 0), f.test(s))
     );
 
+/**
+ * Identifies the results of a filter in the persistent find cache. Only filters with a key get cached,
+ * since the source of a custom filter doesn't say anything about the variables it uses
+ */
+const makeCacheKey = (type: string, args: Array<string | RegExp>) => `${type}(${JSON.stringify(args.map(String))})`;
+
+type CacheableFilterFn = FilterFn & { $$vencordCacheKey?: string; };
+
+function withCacheKey(filter: CacheableFilterFn, type: string, args: Array<string | RegExp>) {
+    filter.$$vencordCacheKey = makeCacheKey(type, args);
+    return filter;
+}
+
 export const filters = {
-    byProps: (...props: PropsFilter): FilterFn =>
+    byProps: (...props: PropsFilter): FilterFn => withCacheKey(
         props.length === 1
             ? m => m[props[0]] !== void 0
             : m => props.every(p => m[p] !== void 0),
+        "byProps", props
+    ),
 
     byCode: (...code: CodeFilter): FilterFn => {
         const parsedCode = code.map(canonicalizeMatch);
@@ -63,14 +83,16 @@ export const filters = {
         };
 
         filter.$$vencordProps = [...code];
-        return filter;
+        return withCacheKey(filter, "byCode", code);
     },
-    byStoreName: (name: StoreNameFilter): FilterFn => m =>
-        m.constructor?.displayName === name,
+    byStoreName: (name: StoreNameFilter): FilterFn => withCacheKey(
+        m => m.constructor?.displayName === name,
+        "byStoreName", [name]
+    ),
 
     componentByCode: (...code: CodeFilter): FilterFn => {
         const filter = filters.byCode(...code);
-        return m => {
+        return withCacheKey(m => {
             if (filter(m)) return true;
             if (!m.$$typeof) return false;
             if (m.type)
@@ -79,7 +101,7 @@ export const filters = {
                     : filter(m.type); // memo
             if (m.render) return filter(m.render); // forwardRef
             return false;
-        };
+        }, "componentByCode", code);
     }
 };
 
@@ -93,6 +115,8 @@ export const beforeInitListeners = new Set<(wreq: WebpackInstance) => void>();
 export function _initWebpack(webpackRequire: WebpackInstance) {
     wreq = webpackRequire;
     cache = webpackRequire.c;
+
+    initFindCache();
 }
 
 let devToolsOpen = false;
@@ -112,36 +136,83 @@ export function handleModuleNotFound(method: string, ...filter: unknown[]) {
         throw err;
 }
 
-/**
- * Find the first module that matches the filter
- */
-export const find = traceFunction("find", function find(filter: FilterFn, { isIndirect = false, isWaitFor = false }: { isIndirect?: boolean; isWaitFor?: boolean; } = {}) {
-    if (typeof filter !== "function")
-        throw new Error("Invalid filter. Expected a function got " + typeof filter);
+type SearchResult = [found: any, id: string, exportKey?: string];
 
+function searchModules(filter: FilterFn): SearchResult | null {
     for (const key in cache) {
         const mod = cache[key];
         if (!mod.loaded || !mod?.exports) continue;
 
         if (filter(mod.exports)) {
-            return isWaitFor ? [mod.exports, key] : mod.exports;
+            return [mod.exports, key];
         }
 
         if (typeof mod.exports !== "object") continue;
 
         if (mod.exports.default && filter(mod.exports.default)) {
-            const found = mod.exports.default;
-            return isWaitFor ? [found, key] : found;
+            return [mod.exports.default, key, "default"];
         }
 
         for (const nestedMod in mod.exports) {
             const nested = mod.exports[nestedMod];
             if (nested && filter(nested)) {
-                return isWaitFor ? [nested, key] : nested;
+                return [nested, key, nestedMod];
             }
         }
     }
 
+    return null;
+}
+
+/**
+ * Checks if a cached find still matches the filter, which is way cheaper than searching all modules
+ */
+function resolveCachedFind({ id, exportKey }: CachedFind, filter: FilterFn) {
+    const mod = cache[id];
+    if (!mod?.loaded || !mod.exports) return null;
+
+    const found = exportKey == null ? mod.exports : mod.exports[exportKey];
+    return found && filter(found) ? found : null;
+}
+
+/**
+ * Find the first module that matches the filter
+ */
+export const find = traceFunction("find", function find(filter: FilterFn, { isIndirect = false, isWaitFor = false }: { isIndirect?: boolean; isWaitFor?: boolean; } = {}) {
+    if (typeof filter !== "function")
+        throw new Error("Invalid filter. Expected a function got " + typeof filter);
+
+    const cacheKey = isFindCacheEnabled() ? (filter as CacheableFilterFn).$$vencordCacheKey : undefined;
+    const start = performance.now();
+
+    if (cacheKey != null) {
+        const cached = getCachedFind(cacheKey);
+        const found = cached && resolveCachedFind(cached, filter);
+
+        if (found) {
+            findCacheStats.hits++;
+            findCacheStats.hitTime += performance.now() - start;
+            return isWaitFor ? [found, cached.id] : found;
+        }
+
+        if (cached) findCacheStats.invalidated++;
+    }
+
+    const result = searchModules(filter);
+
+    if (cacheKey != null) {
+        findCacheStats.misses++;
+        findCacheStats.missTime += performance.now() - start;
+
+        if (result) setCachedFind(cacheKey, { id: result[1], exportKey: result[2] });
+        else deleteCachedFind(cacheKey);
+    }
+
+    if (result) {
+        const [found, id] = result;
+        return isWaitFor ? [found, id] : found;
+    }
+
     if (!isIndirect) {
         handleModuleNotFound("find", filter);
     }
@@ -259,10 +330,38 @@ export const findBulk = traceFunction("findBulk", function findBulk(...filterFns
  * @returns string or null
  */
 export const findModuleId = traceFunction("findModuleId", function findModuleId(...code: CodeFilter) {
+    const cacheKey = isFindCacheEnabled() ? makeCacheKey("moduleId", code) : undefined;
+    const start = performance.now();
+
     code = code.map(canonicalizeMatch);
 
+    if (cacheKey != null) {
+        const cached = getCachedFind(cacheKey);
+
+        if (cached && wreq.m[cached.id] && stringMatches(wreq.m[cached.id].toString(), code)) {
+            findCacheStats.hits++;
+            findCacheStats.hitTime += performance.now() - start;
+            return cached.id;
+        }
+
+        if (cached) findCacheStats.invalidated++;
+    }
+
     for (const id in wreq.m) {
-        if (stringMatches(wreq.m[id].toString(), code)) return id;
+        if (stringMatches(wreq.m[id].toString(), code)) {
+            if (cacheKey != null) {
+                findCacheStats.misses++;
+                findCacheStats.missTime += performance.now() - start;
+                setCachedFind(cacheKey, { id });
+            }
+
+            return id;
+        }
+    }
+
+    if (cacheKey != null) {
+        findCacheStats.misses++;
+        deleteCachedFind(cacheKey);
     }
 
     const err = new Error("Didn't find module with code(s):\n" + code.join("\n"));